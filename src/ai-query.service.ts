@@ -1,153 +1,424 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import { MilvusService } from './milvus.service';
-import { EmbeddingsService } from './embeddings.service';
-import axios from 'axios';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { SourceType } from './vector-store';
+import { RetrievalService } from './retrieval.service';
+import { RerankingService } from './reranking.service';
+import { IndexedChunk } from './keyword-index.service';
+import { SearchFilter } from './search-filter';
+import { ContextBuilderService, ContextStats } from './context-builder.service';
+import { GenerationOptions, LLM_PROVIDER, LlmProvider } from './llm-provider';
+import { PromptTemplatesService } from './prompt-templates.service';
+import type { Principal } from './auth.service';
+
+export interface SourceChunk {
+  // Number the chunk was given in the prompt, as used by [n] markers
+  index: number;
+  chunkId: string | null;
+  documentId: string;
+  filename: string;
+  sourceType: SourceType;
+  pageNumber: number;
+  // Last page the chunk covers; 0 like pageNumber when the source has no pages
+  pageEnd: number;
+  // Retrieval score, and the reranker's score where reranking ran
+  score: number | null;
+  rerankScore: number | null;
+  snippet: string;
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface QueryOptions {
+  // Ask the model for inline [n] markers pointing at the numbered sources
+  citations?: boolean;
+  // Restricts the context to matching chunks
+  filter?: SearchFilter;
+  // Earlier turns of the conversation, oldest first
+  history?: ConversationTurn[];
+  // Prompt template name, PROMPT_TEMPLATE if not set
+  template?: string;
+  // Overrides of the template's generation options, within the admin limits
+  generation?: GenerationOptions;
+  // Chunks to keep after reranking, RETRIEVAL_TOP_K if not set
+  topK?: number;
+  // Return the context text the answer was generated from, as contextText
+  includeContext?: boolean;
+  // Caller whose document access limits the context; unrestricted if not set
+  principal?: Principal;
+}
+
+export interface PromptSettings {
+  template: string;
+  // Generation options as sent to the model, after overrides and limits
+  generation: GenerationOptions;
+}
+
+export interface QueryResult {
+  answer: string;
+  sources: SourceChunk[];
+  // Valid [n] markers found in the answer, in order of first appearance
+  citations: number[];
+  // How much of the retrieved material fit into the prompt
+  context: ContextStats;
+  // The follow-up question rewritten for retrieval, if it was rewritten
+  standaloneQuestion?: string;
+  prompt: PromptSettings;
+  contextText?: string;
+}
+
+export type QueryStreamEvent =
+  | {
+      type: 'sources';
+      sources: SourceChunk[];
+      context: ContextStats;
+      standaloneQuestion?: string;
+      prompt: PromptSettings;
+    }
+  | { type: 'token'; token: string }
+  | {
+      type: 'done';
+      answer: string;
+      citations: number[];
+      timing: {
+        retrievalMs: number;
+        firstTokenMs: number | null;
+        generationMs: number;
+        totalMs: number;
+      };
+    };
+
+interface ContextChunk extends IndexedChunk {
+  score: number | null;
+  rerankScore: number | null;
+}
+
+interface RetrievedContext {
+  sources: SourceChunk[];
+  context: string;
+  stats: ContextStats;
+  standaloneQuestion?: string;
+}
+
+interface BuiltPrompt extends PromptSettings {
+  prompt: string;
+}
+
+const SNIPPET_LENGTH = 200;
 
 @Injectable()
 export class AiQueryService {
   private readonly logger = new Logger(AiQueryService.name);
-  private readonly localLlmHost: string;
-  private readonly localLlmPort: string;
-  private readonly localLlmModel: string;
-  private readonly baseUrl: string;
 
   constructor(
-    private configService: ConfigService,
-    private milvusService: MilvusService,
-    private embeddingsService: EmbeddingsService,
-  ) {
-    this.localLlmHost = this.configService.get<string>(
-      'LOCAL_LLM_HOST',
-      'localhost',
-    );
-    this.localLlmPort = this.configService.get<string>(
-      'LOCAL_LLM_PORT',
-      '11434',
-    );
-    this.localLlmModel = this.configService.get<string>(
-      'LOCAL_LLM_MODEL',
-      'llama3.1:latest',
-    );
-    this.baseUrl = `http://${this.localLlmHost}:${this.localLlmPort}`;
-  }
+    private retrievalService: RetrievalService,
+    private rerankingService: RerankingService,
+    private contextBuilderService: ContextBuilderService,
+    private promptTemplatesService: PromptTemplatesService,
+    @Inject(LLM_PROVIDER) private llmProvider: LlmProvider,
+  ) {}
 
-  async queryWithContext(query: string): Promise<string> {
+  async queryWithContext(
+    query: string,
+    options: QueryOptions = {},
+  ): Promise<QueryResult> {
     try {
       this.logger.log(`Processing query: "${query}"`);
+      // Fail on an unknown template before doing any retrieval
+      this.promptTemplatesService.get(options.template);
 
-      // Generate embedding for the query
-      const queryEmbedding =
-        await this.embeddingsService.generateEmbedding(query);
+      const { sources, context, stats, standaloneQuestion } =
+        await this.retrieveContext(query, options);
 
-      // Search for similar chunks in Milvus
-      const similarChunks = await this.milvusService.searchSimilar(
-        queryEmbedding,
-        5,
-      );
+      const prompt = this.buildPrompt(query, context, sources, options);
+      const response = await this.generateResponse(query, context, prompt);
+
+      return {
+        ...this.buildResult(response, sources, stats, options),
+        ...(standaloneQuestion && { standaloneQuestion }),
+        prompt: { template: prompt.template, generation: prompt.generation },
+        ...(options.includeContext && { contextText: context }),
+      };
+    } catch (error) {
+      this.logger.error('Error processing query:', error.message);
+      throw new Error(`Failed to process query: ${error.message}`);
+    }
+  }
+
+  /**
+   * Same pipeline as queryWithContext, but yields the retrieved sources first,
+   * then answer tokens as the model produces them, then a summary. Aborting
+   * the signal cancels the upstream generation request.
+   */
+  async *streamQueryWithContext(
+    query: string,
+    options: QueryOptions = {},
+    signal?: AbortSignal,
+  ): AsyncGenerator<QueryStreamEvent> {
+    const startedAt = Date.now();
+    this.logger.log(`Processing streaming query: "${query}"`);
+    this.promptTemplatesService.get(options.template);
 
-      // Extract context text
-      const contextTexts = similarChunks
-        .map((chunk) => chunk.text || '')
-        .filter((text) => text.length > 0);
-
-      let context = contextTexts.join('\n\n');
-
-      this.logger.log(`Found ${contextTexts.length} relevant context chunks`);
-      this.logger.log(`Context preview: "${context.substring(0, 200)}..."`);
-
-      // If no context found, try to get all chunks as fallback
-      if (context.length === 0) {
-        this.logger.warn('No similar chunks found, trying fallback approach');
-        const allChunks = await this.milvusService.getAllChunks();
-        const allTexts = allChunks
-          .map((chunk) => chunk.text || '')
-          .filter((text) => text.length > 0);
-        context = allTexts.join('\n\n');
-        this.logger.log(
-          `Fallback: Using ${allTexts.length} total chunks as context`,
-        );
+    const { sources, context, stats, standaloneQuestion } =
+      await this.retrieveContext(query, options);
+    const retrievalMs = Date.now() - startedAt;
+    const prompt = this.buildPrompt(query, context, sources, options);
+    yield {
+      type: 'sources',
+      sources,
+      context: stats,
+      ...(standaloneQuestion && { standaloneQuestion }),
+      prompt: { template: prompt.template, generation: prompt.generation },
+    };
+
+    let answer = '';
+    let firstTokenMs: number | null = null;
+
+    const tokens = this.llmProvider.generateStream(
+      prompt.prompt,
+      prompt.generation,
+      signal,
+    );
+    for await (const token of tokens) {
+      if (firstTokenMs === null) {
+        firstTokenMs = Date.now() - startedAt;
       }
+      answer += token;
+      yield { type: 'token', token };
+    }
+
+    const result = this.buildResult(answer.trim(), sources, stats, options);
+    const totalMs = Date.now() - startedAt;
+    yield {
+      type: 'done',
+      answer: result.answer,
+      citations: result.citations,
+      timing: {
+        retrievalMs,
+        firstTokenMs,
+        generationMs: totalMs - retrievalMs,
+        totalMs,
+      },
+    };
+  }
+
+  private async retrieveContext(
+    query: string,
+    options: QueryOptions,
+  ): Promise<RetrievedContext> {
+    // Follow-ups like "what about his certifications?" find nothing on their own
+    const standaloneQuestion = options.history?.length
+      ? await this.rewriteQuestion(query, options.history)
+      : undefined;
+    if (standaloneQuestion) {
+      query = standaloneQuestion;
+    }
+
+    // Over-fetch so the reranker has candidates to choose from
+    const topK = options.topK ?? this.retrievalService.topK;
+    const { chunks } = await this.retrievalService.retrieve(query, {
+      topK: Math.max(topK, this.rerankingService.candidates),
+      filter: options.filter,
+      principal: options.principal,
+    });
+    const usedChunks: ContextChunk[] = await this.rerankingService.rerank(
+      query,
+      chunks,
+      topK,
+    );
 
-      // Generate response using local Llama model
-      const response = await this.generateResponseWithLlama(query, context);
+    this.logger.log(`Found ${usedChunks.length} relevant context chunks`);
 
-      return response;
+    // Chunks are in rank order, so the budget keeps the most relevant ones
+    const {
+      chunks: included,
+      context,
+      stats,
+    } = this.contextBuilderService.build(usedChunks, (chunk, index) =>
+      options.citations
+        ? `[${index + 1}] (${this.describeSource(this.toSourceChunk(chunk, index + 1))}) ${chunk.text}`
+        : chunk.text,
+    );
+    const sources = included.map((chunk, index) =>
+      this.toSourceChunk(chunk, index + 1),
+    );
+
+    this.logger.log(`Context preview: "${context.substring(0, 200)}..."`);
+    return { sources, context, stats, standaloneQuestion };
+  }
+
+  /**
+   * Asks the model to restate a follow-up question so it can be understood
+   * without the conversation. Returns undefined when the question is kept
+   * as it is, including when rewriting fails.
+   */
+  private async rewriteQuestion(
+    query: string,
+    history: ConversationTurn[],
+  ): Promise<string | undefined> {
+    const prompt = `Rewrite the follow-up question so that it can be understood without the conversation, replacing pronouns and references with what they refer to. If it already stands on its own, repeat it unchanged. Reply with the question only.
+
+Conversation:
+${this.contextBuilderService.buildHistory(history)}
+
+Follow-up question: ${query}
+
+Standalone question:`;
+
+    try {
+      const rewritten = (
+        await this.llmProvider.generate(prompt, {
+          temperature: 0,
+          maxTokens: 100,
+          stop: ['\n'],
+        })
+      )
+        .trim()
+        .replace(/^["']|["']$/g, '');
+      if (!rewritten || rewritten === query) {
+        return undefined;
+      }
+      this.logger.log(`Rewrote follow-up question as: "${rewritten}"`);
+      return rewritten;
     } catch (error) {
-      this.logger.error('Error processing query:', error.message);
-      throw new Error(`Failed to process query: ${error.message}`);
+      this.logger.warn(
+        `Could not rewrite follow-up question (${error.message}); retrieving with it as asked`,
+      );
+      return undefined;
     }
   }
 
-  private async generateResponseWithLlama(
+  // e.g. "handbook.pdf, pages 3-4", so the model can cite page numbers
+  private describeSource(source: SourceChunk): string {
+    if (!source.pageNumber) {
+      return source.filename;
+    }
+    return source.pageEnd > source.pageNumber
+      ? `${source.filename}, pages ${source.pageNumber}-${source.pageEnd}`
+      : `${source.filename}, page ${source.pageNumber}`;
+  }
+
+  private buildResult(
+    answer: string,
+    sources: SourceChunk[],
+    context: ContextStats,
+    options: QueryOptions,
+  ): Omit<QueryResult, 'prompt'> {
+    const { answer: cleaned, citations } = options.citations
+      ? this.validateCitations(answer, sources)
+      : { answer, citations: [] };
+    return { answer: cleaned, sources, citations, context };
+  }
+
+  private toSourceChunk(chunk: ContextChunk, index: number): SourceChunk {
+    const { metadata } = chunk;
+    return {
+      index,
+      chunkId: chunk.id,
+      documentId: metadata.documentId ?? '',
+      filename: metadata.filename ?? '',
+      sourceType: metadata.sourceType ?? 'text',
+      pageNumber: metadata.pageNumber ?? 0,
+      pageEnd: metadata.pageEnd ?? metadata.pageNumber ?? 0,
+      score: chunk.score,
+      rerankScore: chunk.rerankScore,
+      snippet: String(chunk.text).substring(0, SNIPPET_LENGTH),
+    };
+  }
+
+  /**
+   * Keeps only [n] markers that point at a supplied source and strips the
+   * rest, so every citation in the answer can be resolved by the caller.
+   */
+  private validateCitations(
+    answer: string,
+    sources: SourceChunk[],
+  ): { answer: string; citations: number[] } {
+    const citations: number[] = [];
+    const cleaned = answer
+      .replace(/( ?)\[(\d+)\]/g, (marker, space, value) => {
+        const index = Number(value);
+        if (index < 1 || index > sources.length) {
+          this.logger.warn(`Dropping invalid citation marker [${value}]`);
+          return '';
+        }
+        if (!citations.includes(index)) {
+          citations.push(index);
+        }
+        return marker;
+      })
+      .trim();
+
+    return { answer: cleaned, citations };
+  }
+
+  /**
+   * Renders the selected prompt template and resolves the generation options
+   * for it.
+   */
+  private buildPrompt(
     query: string,
     context: string,
+    sources: SourceChunk[],
+    options: QueryOptions,
+  ): BuiltPrompt {
+    const template = this.promptTemplatesService.get(options.template);
+    const prompt = this.promptTemplatesService.render(template, {
+      context,
+      question: query,
+      history: options.history?.length
+        ? this.contextBuilderService.buildHistory(options.history)
+        : '',
+      sources: sources
+        .map((source) => `[${source.index}] ${this.describeSource(source)}`)
+        .join('\n'),
+      citations: options.citations ? 'true' : '',
+    });
+    return {
+      prompt,
+      template: template.name,
+      generation: this.promptTemplatesService.resolveGeneration(
+        template,
+        options.generation,
+      ),
+    };
+  }
+
+  private async generateResponse(
+    query: string,
+    context: string,
+    prompt: BuiltPrompt,
   ): Promise<string> {
     try {
       // Debug: Log the context being used
       this.logger.log(`Context being used: "${context.substring(0, 200)}..."`);
 
-      const prompt = `Answer the question directly using the provided context. Be concise and straightforward.
-
-Context: ${context}
-
-Question: ${query}
-
-Answer directly:`;
-
-      this.logger.log('Sending request to local Llama model...');
+      this.logger.log(
+        `Sending request to ${this.llmProvider.name} model ${this.llmProvider.model} with prompt template "${prompt.template}"...`,
+      );
       this.logger.log(`Query: ${query}`);
       this.logger.log(`Context length: ${context.length} characters`);
 
-      const response = await axios.post(
-        `${this.baseUrl}/api/generate`,
-        {
-          model: this.localLlmModel,
-          prompt: prompt,
-          stream: false,
-          options: {
-            temperature: 0.1, // Very low temperature for consistent, direct responses
-            num_predict: 100, // Shorter responses
-            top_p: 0.9,
-            stop: ['Question:', 'Context:', '\n\n'],
-          },
-        },
-        {
-          timeout: 120000,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        },
+      const answer = await this.llmProvider.generate(
+        prompt.prompt,
+        prompt.generation,
       );
-
-      if (response.data?.response) {
-        const answer = response.data.response.trim();
-        this.logger.log('Successfully generated response with Llama model');
-        return answer;
-      } else {
-        throw new Error('No response received from Llama model');
-      }
+      this.logger.log(
+        `Successfully generated response with ${this.llmProvider.name}`,
+      );
+      return answer;
     } catch (error) {
-      this.logger.error('Error generating response with Llama:', error.message);
+      this.logger.error('Error generating response:', error.message);
       throw new Error(`Failed to generate response: ${error.message}`);
     }
   }
 
-  async testConnection(): Promise<boolean> {
-    try {
-      const response = await axios.get(`${this.baseUrl}/api/tags`, {
-        timeout: 5000,
-      });
+  get llmProviderName(): string {
+    return this.llmProvider.name;
+  }
 
-      this.logger.log('Successfully connected to Llama server');
-      this.logger.log(`Available models: ${JSON.stringify(response.data)}`);
-      return true;
-    } catch (error) {
-      this.logger.error(
-        `Failed to connect to Llama server at ${this.baseUrl}:`,
-        error.message,
-      );
-      return false;
-    }
+  async testConnection(): Promise<boolean> {
+    return this.llmProvider.testConnection();
   }
 }
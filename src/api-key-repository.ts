@@ -0,0 +1,144 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import type { Role } from './auth.decorator';
+import { JsonFileStore } from './json-file-store';
+
+export const API_KEY_REPOSITORY = 'API_KEY_REPOSITORY';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  role: Role;
+  // Groups for document access
+  groups?: string[];
+  // SHA-256 of the key; the key itself is only shown when it is created
+  keyHash: string;
+  // Start of the key, so it can be recognized in lists
+  prefix: string;
+  createdAt: Date;
+  // Id of the principal that created the key
+  createdBy: string;
+  revokedAt?: Date;
+}
+
+/**
+ * Storage for API keys.
+ */
+export interface ApiKeyRepository {
+  findAll(): Promise<ApiKey[]>;
+  findById(id: string): Promise<ApiKey | undefined>;
+  findByHash(keyHash: string): Promise<ApiKey | undefined>;
+  save(apiKey: ApiKey): Promise<void>;
+}
+
+export class InMemoryApiKeyRepository implements ApiKeyRepository {
+  private readonly apiKeys: Map<string, ApiKey> = new Map();
+
+  async findAll(): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values());
+  }
+
+  async findById(id: string): Promise<ApiKey | undefined> {
+    return this.apiKeys.get(id);
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(
+      (apiKey) => apiKey.keyHash === keyHash,
+    );
+  }
+
+  async save(apiKey: ApiKey): Promise<void> {
+    this.apiKeys.set(apiKey.id, apiKey);
+  }
+}
+
+/**
+ * Keeps API keys in memory and writes them all to a JSON file after every
+ * change, like FileKnowledgeBaseRepository.
+ */
+export class FileApiKeyRepository implements ApiKeyRepository {
+  private readonly logger = new Logger(FileApiKeyRepository.name);
+  private apiKeys: Map<string, ApiKey>;
+  private loading: Promise<void>;
+  private readonly store: JsonFileStore<ApiKey[]>;
+
+  constructor(private readonly filePath: string) {
+    // Hashes only, but still not for other users of the machine
+    this.store = new JsonFileStore(filePath, 2, 0o600);
+  }
+
+  async findAll(): Promise<ApiKey[]> {
+    await this.load();
+    return Array.from(this.apiKeys.values());
+  }
+
+  async findById(id: string): Promise<ApiKey | undefined> {
+    await this.load();
+    return this.apiKeys.get(id);
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKey | undefined> {
+    await this.load();
+    return Array.from(this.apiKeys.values()).find(
+      (apiKey) => apiKey.keyHash === keyHash,
+    );
+  }
+
+  async save(apiKey: ApiKey): Promise<void> {
+    await this.load();
+    this.apiKeys.set(apiKey.id, apiKey);
+    await this.persist();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    this.apiKeys = new Map();
+
+    if (!this.store.exists()) {
+      this.logger.log(`No API key store found at ${this.filePath}`);
+      return;
+    }
+
+    const records = (await this.store.read()) ?? [];
+
+    for (const record of records) {
+      this.apiKeys.set(record.id, {
+        ...record,
+        createdAt: new Date(record.createdAt),
+        revokedAt: record.revokedAt ? new Date(record.revokedAt) : undefined,
+      });
+    }
+
+    this.logger.log(
+      `Loaded ${this.apiKeys.size} API keys from ${this.filePath}`,
+    );
+  }
+
+  private persist(): Promise<void> {
+    return this.store.write(Array.from(this.apiKeys.values()));
+  }
+}
+
+export function createApiKeyRepository(
+  configService: ConfigService,
+): ApiKeyRepository {
+  const store = configService.get<string>('API_KEY_STORE', 'file');
+
+  if (store === 'memory') {
+    return new InMemoryApiKeyRepository();
+  }
+
+  const filePath = configService.get<string>(
+    'API_KEY_STORE_PATH',
+    path.join(process.cwd(), 'data', 'api-keys.json'),
+  );
+  return new FileApiKeyRepository(filePath);
+}
@@ -1,14 +1,29 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { AiQueryService } from './ai-query.service';
+import { TextContextService } from './text-context.service';
+import { AuditLogService } from './audit-log.service';
+import { Principal } from './auth.service';
+import {
+  KnowledgeBaseContext,
+  KnowledgeBasesService,
+} from './knowledge-bases.service';
 
 describe('AppController', () => {
   let appController: AppController;
+  const aiQueryService = { queryWithContext: jest.fn() };
 
   beforeEach(async () => {
     const app: TestingModule = await Test.createTestingModule({
       controllers: [AppController],
-      providers: [AppService],
+      providers: [
+        AppService,
+        { provide: AiQueryService, useValue: aiQueryService },
+        { provide: TextContextService, useValue: {} },
+        { provide: KnowledgeBasesService, useValue: {} },
+        { provide: AuditLogService, useValue: {} },
+      ],
     }).compile();
 
     appController = app.get<AppController>(AppController);
@@ -19,4 +34,52 @@ describe('AppController', () => {
       expect(appController.getHello()).toBe('Hello World!');
     });
   });
+
+  describe('query', () => {
+    it('should return the answer with its sources and citations', async () => {
+      const source = {
+        index: 1,
+        chunkId: 'doc_1_chunk_0',
+        documentId: 'doc_1',
+        filename: 'guide.pdf',
+        sourceType: 'pdf',
+        pageNumber: 2,
+        score: 0.82,
+        snippet: 'The guide says...',
+      };
+      aiQueryService.queryWithContext.mockResolvedValue({
+        answer: 'It says so [1].',
+        sources: [source],
+        citations: [1],
+      });
+
+      const principal: Principal = {
+        id: 'key_1',
+        name: 'UI',
+        role: 'reader',
+        type: 'api-key',
+        groups: [],
+      };
+      const response = await appController.query(
+        { question: 'What does the guide say?', citations: true },
+        {
+          knowledgeBase: { id: 'default' },
+          aiQueryService,
+        } as unknown as KnowledgeBaseContext,
+        principal,
+      );
+
+      // The caller's principal limits which documents the answer may use
+      expect(aiQueryService.queryWithContext).toHaveBeenCalledWith(
+        'What does the guide say?',
+        { citations: true, principal },
+      );
+      expect(response).toMatchObject({
+        knowledgeBase: 'default',
+        answer: 'It says so [1].',
+        sources: [source],
+        citations: [1],
+      });
+    });
+  });
 });
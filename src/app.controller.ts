@@ -1,10 +1,24 @@
-import { Controller, Get, Post, Body, Query } from '@nestjs/common';
+import { Controller, Get, Post, Body, Query, Res } from '@nestjs/common';
+import { Response } from 'express';
 import { AppService } from './app.service';
 import { AiQueryService } from './ai-query.service';
 import { TextContextService } from './text-context.service';
+import { parseSearchFilter } from './search-filter';
+import { parseGenerationOverrides } from './prompt-templates.service';
+import { KnowledgeBaseContext } from './knowledge-bases.service';
+import { CurrentKnowledgeBase } from './knowledge-base.decorator';
+import { CurrentPrincipal, Public, Roles } from './auth.decorator';
+import { Principal } from './auth.service';
+import { AuditLogService } from './audit-log.service';
 
 export class QueryDto {
   question: string;
+  citations?: boolean;
+  // See SearchFilter; dates as ISO strings
+  filter?: Record<string, unknown>;
+  // Prompt template name and generation option overrides, see GET /prompts
+  template?: string;
+  generation?: Record<string, unknown>;
 }
 
 @Controller()
@@ -13,34 +27,57 @@ export class AppController {
     private readonly appService: AppService,
     private readonly aiQueryService: AiQueryService,
     private readonly textContextService: TextContextService,
+    private readonly auditLogService: AuditLogService,
   ) {}
 
   @Get()
+  @Public()
   getHello(): string {
     return this.appService.getHello();
   }
 
   @Get('health')
+  @Public()
   async getHealth() {
-    const llamaConnection = await this.aiQueryService.testConnection();
+    const llmConnection = await this.aiQueryService.testConnection();
     return {
       status: 'ok',
-      llamaConnected: llamaConnection,
+      llmProvider: this.aiQueryService.llmProviderName,
+      llamaConnected: llmConnection,
       timestamp: new Date().toISOString(),
     };
   }
 
-  @Post('query')
-  async query(@Body('question') question: string) {
+  @Post(['query', 'knowledge-bases/:knowledgeBaseId/query'])
+  async query(
+    @Body() queryDto: QueryDto,
+    @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    const { question, citations } = queryDto;
     if (!question) {
       return { error: 'Question is required' };
     }
 
     try {
-      const answer = await this.aiQueryService.queryWithContext(question);
+      const result = await knowledgeBase.aiQueryService.queryWithContext(
+        question,
+        {
+          citations,
+          filter: parseSearchFilter(queryDto.filter),
+          template: queryDto.template,
+          generation: parseGenerationOverrides(queryDto.generation),
+          principal,
+        },
+      );
       return {
         question,
-        answer,
+        knowledgeBase: knowledgeBase.knowledgeBase.id,
+        answer: result.answer,
+        sources: result.sources,
+        citations: result.citations,
+        context: result.context,
+        prompt: result.prompt,
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
@@ -52,10 +89,99 @@ export class AppController {
     }
   }
 
+  @Get(['query/stream', 'knowledge-bases/:knowledgeBaseId/query/stream'])
+  async streamQueryGet(
+    @Query('question') question: string,
+    @Query('citations') citations: string,
+    @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+    @CurrentPrincipal() principal: Principal,
+    @Res() res: Response,
+  ) {
+    await this.streamQuery(
+      { question, citations: citations === 'true' },
+      knowledgeBase,
+      principal,
+      res,
+    );
+  }
+
+  @Post(['query/stream', 'knowledge-bases/:knowledgeBaseId/query/stream'])
+  async streamQueryPost(
+    @Body() queryDto: QueryDto,
+    @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+    @CurrentPrincipal() principal: Principal,
+    @Res() res: Response,
+  ) {
+    await this.streamQuery(queryDto, knowledgeBase, principal, res);
+  }
+
+  /**
+   * Relays the answer as Server-Sent Events: `sources`, then one `token`
+   * event per generated token, then `done` (or `error`). Closing the
+   * connection aborts the upstream model request.
+   */
+  private async streamQuery(
+    queryDto: QueryDto,
+    knowledgeBase: KnowledgeBaseContext,
+    principal: Principal,
+    res: Response,
+  ) {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    if (!queryDto.question) {
+      send('error', { error: 'Question is required' });
+      res.end();
+      return;
+    }
+
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    try {
+      const events = knowledgeBase.aiQueryService.streamQueryWithContext(
+        queryDto.question,
+        {
+          citations: queryDto.citations,
+          filter: parseSearchFilter(queryDto.filter),
+          template: queryDto.template,
+          generation: parseGenerationOverrides(queryDto.generation),
+          principal,
+        },
+        abortController.signal,
+      );
+      for await (const { type, ...data } of events) {
+        send(type, data);
+      }
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        send('error', { error: error.message });
+      }
+    } finally {
+      res.end();
+    }
+  }
+
   @Post('reprocess')
-  async reprocessText() {
+  @Roles('admin')
+  async reprocessText(@CurrentPrincipal() principal: Principal) {
     try {
       await this.textContextService.reprocessTextFile();
+      await this.auditLogService.record(
+        principal,
+        'text.reprocess',
+        'about_me.txt',
+      );
       return {
         message: 'Text file reprocessed successfully',
         timestamp: new Date().toISOString(),
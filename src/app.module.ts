@@ -1,14 +1,66 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { APP_GUARD } from '@nestjs/core';
 import { MulterModule } from '@nestjs/platform-express';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
-import { MilvusService } from './milvus.service';
 import { EmbeddingsService } from './embeddings.service';
 import { TextContextService } from './text-context.service';
 import { AiQueryService } from './ai-query.service';
 import { PdfController } from './pdf.controller';
 import { PdfService } from './pdf.service';
+import { DocumentsController } from './documents.controller';
+import { DocumentExtractorRegistry } from './document-extractor';
+import { KeywordIndexService } from './keyword-index.service';
+import { DocumentAccessService } from './document-access.service';
+import { RetrievalService } from './retrieval.service';
+import { RetrievalController } from './retrieval.controller';
+import { RerankingService } from './reranking.service';
+import { ContextBuilderService } from './context-builder.service';
+import { ConversationsController } from './conversations.controller';
+import { ConversationsService } from './conversations.service';
+import { PromptsController } from './prompts.controller';
+import { PromptTemplatesService } from './prompt-templates.service';
+import { IngestionJobsService } from './ingestion-jobs.service';
+import { ChunkingService } from './chunking.service';
+import { KnowledgeBasesController } from './knowledge-bases.controller';
+import { KnowledgeBasesService } from './knowledge-bases.service';
+import { KnowledgeBasePipe } from './knowledge-base.decorator';
+import { EvaluationController } from './evaluation.controller';
+import { EvaluationService } from './evaluation.service';
+import { SearchController } from './search.controller';
+import { SearchService } from './search.service';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { AuthGuard } from './auth.guard';
+import { AuditLogService } from './audit-log.service';
+import { LLM_PROVIDER, createLlmProvider } from './llm-provider';
+import { RERANKER, createReranker } from './reranker';
+import {
+  EMBEDDING_PROVIDER,
+  createEmbeddingProvider,
+} from './embedding-provider';
+import {
+  DOCUMENT_REPOSITORY,
+  createDocumentRepository,
+} from './document-repository';
+import {
+  CONVERSATION_REPOSITORY,
+  createConversationRepository,
+} from './conversation-repository';
+import {
+  KNOWLEDGE_BASE_REPOSITORY,
+  createKnowledgeBaseRepository,
+} from './knowledge-base-repository';
+import {
+  EVAL_RUN_REPOSITORY,
+  createEvalRunRepository,
+} from './eval-run-repository';
+import {
+  API_KEY_REPOSITORY,
+  createApiKeyRepository,
+} from './api-key-repository';
+import { VECTOR_STORE, createVectorStore } from './vector-store';
 import * as multer from 'multer';
 
 @Module({
@@ -24,14 +76,89 @@ import * as multer from 'multer';
       },
     }),
   ],
-  controllers: [AppController, PdfController],
+  controllers: [
+    AppController,
+    PdfController,
+    DocumentsController,
+    RetrievalController,
+    SearchController,
+    ConversationsController,
+    PromptsController,
+    KnowledgeBasesController,
+    EvaluationController,
+    AuthController,
+  ],
   providers: [
     AppService,
-    MilvusService,
+    AuthService,
+    AuditLogService,
+    {
+      provide: APP_GUARD,
+      useClass: AuthGuard,
+    },
     EmbeddingsService,
+    ChunkingService,
+    DocumentExtractorRegistry,
+    KeywordIndexService,
+    DocumentAccessService,
+    RetrievalService,
+    RerankingService,
+    SearchService,
+    ContextBuilderService,
+    PromptTemplatesService,
     TextContextService,
     AiQueryService,
     PdfService,
+    IngestionJobsService,
+    ConversationsService,
+    KnowledgeBasesService,
+    KnowledgeBasePipe,
+    EvaluationService,
+    {
+      provide: DOCUMENT_REPOSITORY,
+      useFactory: createDocumentRepository,
+      inject: [ConfigService],
+    },
+    {
+      provide: KNOWLEDGE_BASE_REPOSITORY,
+      useFactory: createKnowledgeBaseRepository,
+      inject: [ConfigService],
+    },
+    {
+      provide: API_KEY_REPOSITORY,
+      useFactory: createApiKeyRepository,
+      inject: [ConfigService],
+    },
+    {
+      provide: EVAL_RUN_REPOSITORY,
+      useFactory: createEvalRunRepository,
+      inject: [ConfigService],
+    },
+    {
+      provide: CONVERSATION_REPOSITORY,
+      useFactory: createConversationRepository,
+      inject: [ConfigService],
+    },
+    {
+      provide: LLM_PROVIDER,
+      useFactory: createLlmProvider,
+      inject: [ConfigService],
+    },
+    {
+      provide: RERANKER,
+      useFactory: createReranker,
+      inject: [ConfigService, LLM_PROVIDER],
+    },
+    {
+      provide: VECTOR_STORE,
+      useFactory: createVectorStore,
+      inject: [ConfigService, EmbeddingsService],
+    },
+    {
+      provide: EMBEDDING_PROVIDER,
+      useFactory: createEmbeddingProvider,
+      inject: [ConfigService],
+    },
   ],
 })
 export class AppModule {}
@@ -0,0 +1,109 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { Principal } from './auth.service';
+import { JsonFileStore } from './json-file-store';
+
+export interface AuditEntry {
+  at: Date;
+  actor: Pick<Principal, 'id' | 'name' | 'role' | 'type'>;
+  // For example document.upload, document.delete, api-key.create
+  action: string;
+  // Id or name of what the action was applied to
+  target: string;
+  knowledgeBase?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Records who uploaded, deleted or changed what. Entries go to the
+ * application log and, with AUDIT_LOG=file (the default), are appended as
+ * JSON lines to AUDIT_LOG_PATH; AUDIT_LOG=memory keeps them in process.
+ */
+@Injectable()
+export class AuditLogService {
+  private readonly logger = new Logger(AuditLogService.name);
+  private readonly mode: 'file' | 'memory' | 'none';
+  private readonly store: JsonFileStore;
+  private readonly entries: AuditEntry[] = [];
+
+  constructor(private readonly configService: ConfigService) {
+    const mode = this.configService.get<string>('AUDIT_LOG', 'file');
+    if (mode !== 'file' && mode !== 'memory' && mode !== 'none') {
+      throw new Error(
+        `Unknown AUDIT_LOG "${mode}"; expected file, memory or none`,
+      );
+    }
+    this.mode = mode;
+    this.store = new JsonFileStore(
+      this.configService.get<string>(
+        'AUDIT_LOG_PATH',
+        path.join(process.cwd(), 'data', 'audit.log'),
+      ),
+    );
+  }
+
+  /**
+   * Records an action. Failing to write the entry is logged rather than
+   * failing the request it belongs to, since the action has already
+   * happened.
+   */
+  async record(
+    principal: Principal,
+    action: string,
+    target: string,
+    extra: Pick<AuditEntry, 'knowledgeBase' | 'details'> = {},
+  ): Promise<void> {
+    const entry: AuditEntry = {
+      at: new Date(),
+      actor: {
+        id: principal.id,
+        name: principal.name,
+        role: principal.role,
+        type: principal.type,
+      },
+      action,
+      target,
+      ...extra,
+    };
+    this.logger.log(
+      `${entry.actor.name} (${entry.actor.id}) ${action} ${target}${entry.knowledgeBase ? ` in ${entry.knowledgeBase}` : ''}`,
+    );
+
+    if (this.mode === 'memory') {
+      this.entries.push(entry);
+    } else if (this.mode === 'file') {
+      await this.store
+        .appendLine(entry)
+        .catch((error) =>
+          this.logger.error(`Failed to write audit entry: ${error.message}`),
+        );
+    }
+  }
+
+  /**
+   * The most recent entries, newest first, optionally of one action or by
+   * one actor.
+   */
+  async recent(
+    limit: number = 100,
+    filter: { action?: string; actorId?: string } = {},
+  ): Promise<AuditEntry[]> {
+    let entries = this.entries;
+    if (this.mode === 'file') {
+      entries = (await this.store.readLines<AuditEntry>()).map((entry) => ({
+        ...entry,
+        at: new Date(entry.at),
+      }));
+    }
+
+    return entries
+      .filter(
+        (entry) =>
+          (!filter.action || entry.action === filter.action) &&
+          (!filter.actorId || entry.actor.id === filter.actorId),
+      )
+      .slice(-limit)
+      .reverse();
+  }
+}
@@ -0,0 +1,98 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { AuthService, Principal, parseApiKeyInput } from './auth.service';
+import { AuditLogService } from './audit-log.service';
+import { CurrentPrincipal, Roles } from './auth.decorator';
+
+/**
+ * The caller's identity, and API key management and the audit log for
+ * admins. New keys are returned once, in the creation response.
+ */
+@Controller('auth')
+export class AuthController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  @Get('me')
+  me(@CurrentPrincipal() principal: Principal): Principal {
+    return principal;
+  }
+
+  @Post('keys')
+  @Roles('admin')
+  async createKey(
+    @Body() body: Record<string, unknown>,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    let input: ReturnType<typeof parseApiKeyInput>;
+    try {
+      input = parseApiKeyInput(body);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    const created = await this.authService.createKey(
+      input.name,
+      input.role,
+      principal,
+      input.groups,
+    );
+    await this.auditLogService.record(principal, 'api-key.create', created.id, {
+      details: {
+        name: created.name,
+        role: created.role,
+        groups: created.groups,
+      },
+    });
+    return created;
+  }
+
+  @Get('keys')
+  @Roles('admin')
+  async listKeys() {
+    return { keys: await this.authService.listKeys() };
+  }
+
+  @Delete('keys/:id')
+  @Roles('admin')
+  async revokeKey(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    const revoked = await this.authService.revokeKey(id);
+    if (!revoked) {
+      throw new NotFoundException(`API key ${id} not found`);
+    }
+    await this.auditLogService.record(principal, 'api-key.revoke', id, {
+      details: { name: revoked.name },
+    });
+    return { message: 'API key revoked', key: revoked };
+  }
+
+  @Get('audit')
+  @Roles('admin')
+  async audit(
+    @Query('limit') limit?: string,
+    @Query('action') action?: string,
+    @Query('actor') actorId?: string,
+  ) {
+    const count = limit === undefined ? 100 : Number(limit);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new BadRequestException('limit must be a positive integer');
+    }
+    return {
+      entries: await this.auditLogService.recent(count, { action, actorId }),
+    };
+  }
+}
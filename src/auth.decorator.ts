@@ -0,0 +1,39 @@
+import {
+  ExecutionContext,
+  SetMetadata,
+  createParamDecorator,
+} from '@nestjs/common';
+import { Request } from 'express';
+import type { Principal } from './auth.service';
+
+// Ordered from least to most privileged; each role can do what those before it can
+export type Role = 'reader' | 'uploader' | 'admin';
+
+export const ROLES: Role[] = ['reader', 'uploader', 'admin'];
+
+export const ROLE_KEY = 'role';
+export const IS_PUBLIC_KEY = 'isPublic';
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * The least role a controller or handler needs; a handler's role overrides
+ * its controller's. Routes without one need `reader`.
+ */
+export const Roles = (role: Role) => SetMetadata(ROLE_KEY, role);
+
+/**
+ * Marks a route as reachable without credentials.
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+/**
+ * The caller, as authenticated by AuthGuard.
+ */
+export const CurrentPrincipal = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): Principal =>
+    ctx.switchToHttp().getRequest<Request & { principal?: Principal }>()
+      .principal,
+);
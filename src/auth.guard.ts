@@ -0,0 +1,60 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { API_KEY_HEADER, AuthService, Principal } from './auth.service';
+import { IS_PUBLIC_KEY, ROLE_KEY, Role, hasRole } from './auth.decorator';
+
+/**
+ * Applied to every route. Authenticates the request, stores the principal
+ * on it for CurrentPrincipal, and checks the role set with @Roles.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+    const required =
+      this.reflector.getAllAndOverride<Role>(ROLE_KEY, targets) ?? 'reader';
+
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { principal?: Principal }>();
+    const apiKey = request.headers[API_KEY_HEADER];
+    const authorization = request.headers.authorization;
+    const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+
+    let principal: Principal | undefined;
+    try {
+      principal = await this.authService.authenticate({
+        apiKey: Array.isArray(apiKey) ? apiKey[0] : apiKey,
+        bearer,
+      });
+    } catch (error) {
+      throw new UnauthorizedException(error.message);
+    }
+    if (!principal) {
+      throw new UnauthorizedException(
+        'Authentication required: send an X-API-Key header or a bearer token',
+      );
+    }
+    if (!hasRole(principal.role, required)) {
+      throw new ForbiddenException(`This requires the ${required} role`);
+    }
+
+    request.principal = principal;
+    return true;
+  }
+}
@@ -0,0 +1,122 @@
+import { createHmac } from 'crypto';
+import { AuthService, Principal, verifyJwt } from './auth.service';
+import {
+  API_KEY_REPOSITORY,
+  InMemoryApiKeyRepository,
+} from './api-key-repository';
+import { createTestingService } from '../test/create-testing-service';
+
+describe('AuthService', () => {
+  const secret = 'test-secret';
+  const admin: Principal = {
+    id: 'admin-key',
+    name: 'AUTH_ADMIN_KEY',
+    role: 'admin',
+    type: 'api-key',
+    groups: [],
+  };
+
+  const sign = (claims: Record<string, unknown>, key = secret) => {
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString('base64url');
+    const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+    const signature = createHmac('sha256', key)
+      .update(unsigned)
+      .digest('base64url');
+    return `${unsigned}.${signature}`;
+  };
+
+  const createService = (config: Record<string, string> = {}) =>
+    createTestingService(AuthService, config, [
+      { provide: API_KEY_REPOSITORY, useClass: InMemoryApiKeyRepository },
+    ]);
+
+  it('should verify JWT signatures, expiry and roles', () => {
+    const options = {
+      secret,
+      roleClaim: 'role',
+      groupsClaim: 'groups',
+      audience: 'rag',
+    };
+    const now = 1_700_000_000_000;
+
+    expect(
+      verifyJwt(
+        sign({
+          sub: 'u1',
+          name: 'Ada',
+          role: 'uploader',
+          groups: ['finance'],
+          aud: 'rag',
+        }),
+        options,
+        now,
+      ),
+    ).toEqual({
+      id: 'u1',
+      name: 'Ada',
+      role: 'uploader',
+      type: 'jwt',
+      groups: ['finance'],
+    });
+    expect(() =>
+      verifyJwt(sign({ sub: 'u1', role: 'admin' }, 'other'), options, now),
+    ).toThrow('Invalid token signature');
+    expect(() =>
+      verifyJwt(
+        sign({ sub: 'u1', role: 'admin', aud: 'rag', exp: now / 1000 - 1 }),
+        options,
+        now,
+      ),
+    ).toThrow('Token has expired');
+    expect(() =>
+      verifyJwt(sign({ sub: 'u1', role: 'owner', aud: 'rag' }), options, now),
+    ).toThrow('Token claim "role" must be one of reader, uploader, admin');
+    expect(() =>
+      verifyJwt(sign({ sub: 'u1', role: 'admin', aud: 'other' }), options, now),
+    ).toThrow('Token has the wrong audience');
+  });
+
+  it('should authenticate created keys until they are revoked', async () => {
+    const service = await createService({ AUTH_ADMIN_KEY: 'bootstrap' });
+
+    expect(await service.authenticate({ apiKey: 'bootstrap' })).toEqual(admin);
+    expect(await service.authenticate({})).toBeUndefined();
+
+    const created = await service.createKey('UI', 'reader', admin, ['hr']);
+    expect(created.key.startsWith(created.prefix)).toBe(true);
+    expect(await service.authenticate({ bearer: created.key })).toEqual({
+      id: created.id,
+      name: 'UI',
+      role: 'reader',
+      type: 'api-key',
+      groups: ['hr'],
+    });
+    expect(await service.listKeys()).toEqual([
+      expect.not.objectContaining({ keyHash: expect.anything() }),
+    ]);
+
+    await service.revokeKey(created.id);
+    await expect(service.authenticate({ apiKey: created.key })).rejects.toThrow(
+      'Invalid API key',
+    );
+  });
+
+  it('should accept JWTs only with a secret, and anyone when disabled', async () => {
+    const token = sign({ sub: 'u1', role: 'reader' });
+
+    const withoutSecret = await createService();
+    const withSecret = await createService({ AUTH_JWT_SECRET: secret });
+    const disabled = await createService({ AUTH_ENABLED: 'false' });
+
+    await expect(withoutSecret.authenticate({ bearer: token })).rejects.toThrow(
+      'Bearer tokens are not accepted',
+    );
+    expect(await withSecret.authenticate({ bearer: token })).toEqual(
+      expect.objectContaining({ id: 'u1', type: 'jwt' }),
+    );
+    expect(await disabled.authenticate({})).toEqual(
+      expect.objectContaining({ role: 'admin', type: 'anonymous' }),
+    );
+  });
+});
@@ -0,0 +1,315 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import {
+  API_KEY_REPOSITORY,
+  ApiKey,
+  ApiKeyRepository,
+} from './api-key-repository';
+import { ROLES, Role } from './auth.decorator';
+
+export interface Principal {
+  // API key id, JWT subject, or a fixed id for the admin key and anonymous access
+  id: string;
+  name: string;
+  role: Role;
+  type: 'api-key' | 'jwt' | 'anonymous';
+  // Groups for document access; see DocumentAccessService
+  groups: string[];
+}
+
+// API key records as listed, without the hash
+export type ApiKeySummary = Omit<ApiKey, 'keyHash'>;
+
+export interface CreatedApiKey extends ApiKeySummary {
+  // The key itself; it cannot be retrieved again
+  key: string;
+}
+
+export interface JwtOptions {
+  secret: string;
+  roleClaim: string;
+  groupsClaim: string;
+  issuer?: string;
+  audience?: string;
+}
+
+export const API_KEY_HEADER = 'x-api-key';
+
+const API_KEY_PREFIX = 'rag_';
+
+/**
+ * Verifies an HS256 JSON Web Token signed with the shared secret and turns
+ * its claims into a principal. Throws if the signature, expiry, issuer,
+ * audience or role is not acceptable. A missing groups claim means no
+ * groups.
+ */
+export function verifyJwt(
+  token: string,
+  options: JwtOptions,
+  now: number = Date.now(),
+): Principal {
+  const [header, payload, signature] = token.split('.');
+  const decode = (part: string) => {
+    try {
+      return JSON.parse(Buffer.from(part, 'base64url').toString('utf-8'));
+    } catch {
+      throw new Error('Malformed token');
+    }
+  };
+
+  if (decode(header).alg !== 'HS256') {
+    throw new Error('Unsupported token algorithm; expected HS256');
+  }
+  const expected = createHmac('sha256', options.secret)
+    .update(`${header}.${payload}`)
+    .digest();
+  const actual = Buffer.from(signature ?? '', 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new Error('Invalid token signature');
+  }
+
+  const claims = decode(payload);
+  const seconds = now / 1000;
+  if (typeof claims.exp === 'number' && seconds >= claims.exp) {
+    throw new Error('Token has expired');
+  }
+  if (typeof claims.nbf === 'number' && seconds < claims.nbf) {
+    throw new Error('Token is not valid yet');
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new Error('Token has the wrong issuer');
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (options.audience && !audiences.includes(options.audience)) {
+    throw new Error('Token has the wrong audience');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new Error('Token has no subject');
+  }
+  const role = claims[options.roleClaim];
+  if (!ROLES.includes(role)) {
+    throw new Error(
+      `Token claim "${options.roleClaim}" must be one of ${ROLES.join(', ')}`,
+    );
+  }
+  const groups = claims[options.groupsClaim] ?? [];
+  if (
+    !Array.isArray(groups) ||
+    groups.some((group) => typeof group !== 'string')
+  ) {
+    throw new Error(
+      `Token claim "${options.groupsClaim}" must be a list of group names`,
+    );
+  }
+
+  return {
+    id: claims.sub,
+    name: typeof claims.name === 'string' ? claims.name : claims.sub,
+    role,
+    type: 'jwt',
+    groups,
+  };
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Authenticates requests by API key (X-API-Key header, or a bearer token)
+ * and, when AUTH_JWT_SECRET is set, by JWT bearer token. Keys are created
+ * and revoked by admins and stored hashed; AUTH_ADMIN_KEY is an admin key
+ * from the environment for setting up the first ones. With AUTH_ENABLED
+ * set to false, every request acts as an anonymous admin.
+ */
+@Injectable()
+export class AuthService implements OnModuleInit {
+  private readonly logger = new Logger(AuthService.name);
+  readonly enabled: boolean;
+  private readonly adminKeyHash?: string;
+  private readonly jwt?: JwtOptions;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(API_KEY_REPOSITORY)
+    private readonly repository: ApiKeyRepository,
+  ) {
+    this.enabled =
+      String(this.configService.get('AUTH_ENABLED', 'true')) !== 'false';
+    const adminKey = this.configService.get<string>('AUTH_ADMIN_KEY');
+    this.adminKeyHash = adminKey ? hashKey(adminKey) : undefined;
+
+    const secret = this.configService.get<string>('AUTH_JWT_SECRET');
+    if (secret) {
+      this.jwt = {
+        secret,
+        roleClaim: this.configService.get<string>(
+          'AUTH_JWT_ROLE_CLAIM',
+          'role',
+        ),
+        groupsClaim: this.configService.get<string>(
+          'AUTH_JWT_GROUPS_CLAIM',
+          'groups',
+        ),
+        issuer: this.configService.get<string>('AUTH_JWT_ISSUER'),
+        audience: this.configService.get<string>('AUTH_JWT_AUDIENCE'),
+      };
+    }
+  }
+
+  async onModuleInit() {
+    if (!this.enabled) {
+      this.logger.warn('AUTH_ENABLED is false; every request has admin access');
+      return;
+    }
+    const keys = await this.repository.findAll();
+    if (
+      !this.adminKeyHash &&
+      !this.jwt &&
+      !keys.some((key) => !key.revokedAt)
+    ) {
+      this.logger.warn(
+        'Authentication is enabled but no API keys exist; set AUTH_ADMIN_KEY to create the first ones',
+      );
+    }
+  }
+
+  /**
+   * The principal for an API key or bearer token, or undefined if the
+   * request has no credentials. Throws for credentials that are not valid.
+   */
+  async authenticate(credentials: {
+    apiKey?: string;
+    bearer?: string;
+  }): Promise<Principal | undefined> {
+    if (!this.enabled) {
+      return {
+        id: 'anonymous',
+        name: 'anonymous',
+        role: 'admin',
+        type: 'anonymous',
+        groups: [],
+      };
+    }
+
+    const { apiKey, bearer } = credentials;
+    // Anything shaped like a JWT is one; other bearer tokens are API keys
+    if (bearer && !apiKey && bearer.split('.').length === 3) {
+      if (!this.jwt) {
+        throw new Error('Bearer tokens are not accepted');
+      }
+      return verifyJwt(bearer, this.jwt);
+    }
+
+    const key = apiKey ?? bearer;
+    if (!key) {
+      return undefined;
+    }
+    const keyHash = hashKey(key);
+    if (this.adminKeyHash && keyHash === this.adminKeyHash) {
+      return {
+        id: 'admin-key',
+        name: 'AUTH_ADMIN_KEY',
+        role: 'admin',
+        type: 'api-key',
+        groups: [],
+      };
+    }
+    const record = await this.repository.findByHash(keyHash);
+    if (!record || record.revokedAt) {
+      throw new Error('Invalid API key');
+    }
+    return {
+      id: record.id,
+      name: record.name,
+      role: record.role,
+      type: 'api-key',
+      // Keys created before groups existed have none
+      groups: record.groups ?? [],
+    };
+  }
+
+  async createKey(
+    name: string,
+    role: Role,
+    createdBy: Principal,
+    groups: string[] = [],
+  ): Promise<CreatedApiKey> {
+    const key = `${API_KEY_PREFIX}${randomBytes(24).toString('hex')}`;
+    const record: ApiKey = {
+      id: `key_${randomBytes(8).toString('hex')}`,
+      name,
+      role,
+      groups,
+      keyHash: hashKey(key),
+      prefix: key.substring(0, API_KEY_PREFIX.length + 6),
+      createdAt: new Date(),
+      createdBy: createdBy.id,
+    };
+    await this.repository.save(record);
+    return { ...toSummary(record), key };
+  }
+
+  async listKeys(): Promise<ApiKeySummary[]> {
+    const keys = await this.repository.findAll();
+    return keys
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(toSummary);
+  }
+
+  /**
+   * Revokes a key; it stays listed with its revocation date. Returns
+   * undefined for unknown keys.
+   */
+  async revokeKey(id: string): Promise<ApiKeySummary | undefined> {
+    const record = await this.repository.findById(id);
+    if (!record) {
+      return undefined;
+    }
+    if (!record.revokedAt) {
+      record.revokedAt = new Date();
+      await this.repository.save(record);
+    }
+    return toSummary(record);
+  }
+}
+
+function toSummary(record: ApiKey): ApiKeySummary {
+  const summary: Partial<ApiKey> = { ...record };
+  delete summary.keyHash;
+  return summary as ApiKeySummary;
+}
+
+/**
+ * Validates a key creation request.
+ */
+export function parseApiKeyInput(raw: Record<string, unknown>): {
+  name: string;
+  role: Role;
+  groups: string[];
+} {
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) {
+    throw new Error('name is required');
+  }
+  if (name.length > 100) {
+    throw new Error('name must be at most 100 characters');
+  }
+  const role = raw.role as Role;
+  if (!ROLES.includes(role)) {
+    throw new Error(`role must be one of ${ROLES.join(', ')}`);
+  }
+  const groups = raw.groups ?? [];
+  if (
+    !Array.isArray(groups) ||
+    groups.some((group) => typeof group !== 'string' || !group.trim())
+  ) {
+    throw new Error('groups must be a list of group names');
+  }
+  return {
+    name,
+    role,
+    groups: Array.from(new Set(groups.map((group) => group.trim()))),
+  };
+}
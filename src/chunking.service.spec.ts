@@ -0,0 +1,110 @@
+import { ChunkingService } from './chunking.service';
+import { createTestingService } from '../test/create-testing-service';
+
+describe('ChunkingService', () => {
+  it('should keep abbreviations, decimals and punctuation inside sentences', async () => {
+    const service = await createTestingService(ChunkingService);
+    const text =
+      'Use a mild solvent, e.g. water. The ratio is 3.5 parts per liter! Dr. Smith agrees.';
+
+    const sentences = service
+      .splitSentences(text)
+      .map((span) => text.slice(span.start, span.end));
+
+    expect(sentences).toEqual([
+      'Use a mild solvent, e.g. water.',
+      'The ratio is 3.5 parts per liter!',
+      'Dr. Smith agrees.',
+    ]);
+  });
+
+  it('should return chunks that are exact slices of the text', async () => {
+    const service = await createTestingService(ChunkingService);
+    const text = Array.from(
+      { length: 40 },
+      (_, i) => `Sentence number ${i} ends here.`,
+    ).join(' ');
+
+    const chunks = service.chunk(text, { chunkSize: 120, chunkOverlap: 40 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk, index) => {
+      expect(chunk.index).toBe(index);
+      expect(chunk.text).toBe(text.slice(chunk.start, chunk.end));
+      expect(chunk.text.length).toBeLessThanOrEqual(120);
+    });
+    // Consecutive chunks share the overlapping sentence
+    expect(chunks[1].start).toBeLessThan(chunks[0].end);
+  });
+
+  it('should limit token chunks by token count', async () => {
+    const service = await createTestingService(ChunkingService);
+    const text = 'one two three four five six seven eight nine ten';
+
+    const chunks = service.chunk(text, {
+      strategy: 'token',
+      chunkSize: 4,
+      chunkOverlap: 1,
+    });
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      'one two three four',
+      'four five six seven',
+      'seven eight nine ten',
+    ]);
+  });
+
+  it('should split long text at paragraph breaks with the recursive strategy', async () => {
+    const service = await createTestingService(ChunkingService);
+    const text = 'First paragraph here.\n\nSecond paragraph is here.';
+
+    const chunks = service.chunk(text, {
+      strategy: 'recursive',
+      chunkSize: 30,
+      chunkOverlap: 0,
+    });
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      'First paragraph here.',
+      'Second paragraph is here.',
+    ]);
+  });
+
+  it('should not merge sections and should tag chunks with their heading', async () => {
+    const service = await createTestingService(ChunkingService);
+    const text =
+      'Intro text.\n\n# Setup\n\nInstall it.\n\n# Usage\n\nRun it.\n\nThen stop it.';
+
+    const chunks = service.chunk(text, {
+      strategy: 'heading',
+      chunkSize: 200,
+      chunkOverlap: 0,
+    });
+
+    expect(chunks.map(({ text, heading }) => ({ text, heading }))).toEqual([
+      { text: 'Intro text.', heading: undefined },
+      { text: '# Setup\n\nInstall it.', heading: 'Setup' },
+      { text: '# Usage\n\nRun it.\n\nThen stop it.', heading: 'Usage' },
+    ]);
+  });
+
+  it('should use configured defaults and reject invalid settings', async () => {
+    const service = await createTestingService(ChunkingService, {
+      CHUNK_STRATEGY: 'token',
+      CHUNK_SIZE: '100',
+      CHUNK_OVERLAP: '10',
+    });
+
+    expect(service.getDefaults()).toEqual({
+      strategy: 'token',
+      chunkSize: 100,
+      chunkOverlap: 10,
+    });
+    expect(() => service.resolveOptions({ chunkOverlap: 100 })).toThrow(
+      'Chunk overlap must be at least 0 and below the chunk size',
+    );
+    await expect(
+      createTestingService(ChunkingService, { CHUNK_STRATEGY: 'words' }),
+    ).rejects.toThrow('Unknown chunking strategy "words"');
+  });
+});
@@ -0,0 +1,386 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+export type ChunkingStrategy = 'sentence' | 'recursive' | 'token' | 'heading';
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = [
+  'sentence',
+  'recursive',
+  'token',
+  'heading',
+];
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategy;
+  // Characters per chunk, or tokens for the token strategy
+  chunkSize: number;
+  // Amount of the previous chunk repeated at the start of the next one
+  chunkOverlap: number;
+}
+
+export interface TextChunk {
+  // Always the exact slice text.slice(start, end) of the source
+  text: string;
+  start: number;
+  end: number;
+  index: number;
+  // Nearest heading above the chunk, for the heading strategy
+  heading?: string;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Words ending in a period that don't end a sentence
+const ABBREVIATIONS = new Set([
+  'e.g',
+  'i.e',
+  'etc',
+  'vs',
+  'mr',
+  'mrs',
+  'ms',
+  'dr',
+  'prof',
+  'sr',
+  'jr',
+  'st',
+  'no',
+  'fig',
+  'inc',
+  'ltd',
+  'co',
+  'approx',
+  'dept',
+  'est',
+]);
+
+const RECURSIVE_SEPARATORS = [/\n\s*\n/g, /\n/g, /(?<=[.!?])\s+/g, /\s+/g];
+
+/**
+ * Splits extracted text into chunks for embedding. Every strategy returns
+ * chunks as exact slices of the input with their character offsets, so
+ * chunks can be traced back to the source text.
+ */
+@Injectable()
+export class ChunkingService {
+  private readonly defaults: ChunkingOptions;
+
+  constructor(private configService: ConfigService) {
+    this.defaults = {
+      strategy: this.configService.get<ChunkingStrategy>(
+        'CHUNK_STRATEGY',
+        'sentence',
+      ),
+      chunkSize: Number(this.configService.get('CHUNK_SIZE', 500)),
+      chunkOverlap: Number(this.configService.get('CHUNK_OVERLAP', 50)),
+    };
+    this.validateOptions(this.defaults);
+  }
+
+  getDefaults(): ChunkingOptions {
+    return { ...this.defaults };
+  }
+
+  /**
+   * Fills unset options from config and checks the result, throwing on an
+   * unknown strategy or an overlap that would keep chunks from advancing.
+   */
+  resolveOptions(options: Partial<ChunkingOptions> = {}): ChunkingOptions {
+    const resolved: ChunkingOptions = {
+      strategy: options.strategy ?? this.defaults.strategy,
+      chunkSize: options.chunkSize ?? this.defaults.chunkSize,
+      chunkOverlap: options.chunkOverlap ?? this.defaults.chunkOverlap,
+    };
+    this.validateOptions(resolved);
+    return resolved;
+  }
+
+  /**
+   * Reads chunking overrides from upload form fields. Fields left out fall
+   * back to the configured defaults; invalid values throw.
+   */
+  parseFormFields(fields: {
+    chunkStrategy?: string;
+    chunkSize?: string;
+    chunkOverlap?: string;
+  }): Partial<ChunkingOptions> {
+    const options: Partial<ChunkingOptions> = {};
+    if (fields.chunkStrategy) {
+      options.strategy = fields.chunkStrategy as ChunkingStrategy;
+    }
+    if (fields.chunkSize) {
+      options.chunkSize = Number(fields.chunkSize);
+    }
+    if (fields.chunkOverlap) {
+      options.chunkOverlap = Number(fields.chunkOverlap);
+    }
+    this.resolveOptions(options);
+    return options;
+  }
+
+  chunk(text: string, options: Partial<ChunkingOptions> = {}): TextChunk[] {
+    const { strategy, chunkSize, chunkOverlap } = this.resolveOptions(options);
+
+    let chunks: (Span & { heading?: string })[];
+    switch (strategy) {
+      case 'sentence':
+        chunks = this.pack(
+          this.splitOversized(text, this.splitSentences(text), chunkSize),
+          chunkSize,
+          chunkOverlap,
+        );
+        break;
+      case 'recursive':
+        chunks = this.pack(
+          this.splitRecursive(text, { start: 0, end: text.length }, chunkSize),
+          chunkSize,
+          chunkOverlap,
+        );
+        break;
+      case 'token':
+        chunks = this.pack(
+          this.splitTokens(text),
+          chunkSize,
+          chunkOverlap,
+          (first, last, count) => count,
+        );
+        break;
+      case 'heading':
+        chunks = this.chunkBySections(text, chunkSize, chunkOverlap);
+        break;
+    }
+
+    return chunks
+      .map((span) => this.trim(text, span))
+      .filter((span) => span.end > span.start)
+      .map((span, index) => ({
+        text: text.slice(span.start, span.end),
+        start: span.start,
+        end: span.end,
+        index,
+        ...(span.heading !== undefined && { heading: span.heading }),
+      }));
+  }
+
+  private validateOptions(options: ChunkingOptions) {
+    if (!CHUNKING_STRATEGIES.includes(options.strategy)) {
+      throw new Error(
+        `Unknown chunking strategy "${options.strategy}"; expected one of ${CHUNKING_STRATEGIES.join(', ')}`,
+      );
+    }
+    if (!(options.chunkSize > 0)) {
+      throw new Error('Chunk size must be a positive number');
+    }
+    if (
+      !(options.chunkOverlap >= 0 && options.chunkOverlap < options.chunkSize)
+    ) {
+      throw new Error(
+        'Chunk overlap must be at least 0 and below the chunk size',
+      );
+    }
+  }
+
+  /**
+   * Sentence spans ending after their punctuation. A terminator only ends a
+   * sentence when followed by whitespace, the next word doesn't start in
+   * lowercase, and the word before it isn't an abbreviation or initial, so
+   * "e.g.", "Dr." and decimals like 3.14 stay inside their sentence. Blank
+   * lines always end a sentence.
+   */
+  splitSentences(text: string): Span[] {
+    const sentences: Span[] = [];
+    const boundary = /[.!?]+["')\]]*(?=\s|$)|\n\s*\n/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = boundary.exec(text)) !== null) {
+      const end = match.index + match[0].length;
+      const isParagraphBreak = match[0].trim().length === 0;
+
+      if (!isParagraphBreak) {
+        const word = /\S*$/.exec(text.slice(start, match.index))[0];
+        const normalized = word.toLowerCase().replace(/^["'(\[]+/, '');
+        const next = /\S/.exec(text.slice(end));
+        const isAbbreviation =
+          match[0].startsWith('.') &&
+          (ABBREVIATIONS.has(normalized) || /^[a-z]$/i.test(normalized));
+        if (isAbbreviation || (next && /[a-z]/.test(next[0]))) {
+          continue;
+        }
+      }
+
+      sentences.push({ start, end: isParagraphBreak ? match.index : end });
+      start = end;
+    }
+
+    if (start < text.length) {
+      sentences.push({ start, end: text.length });
+    }
+    return sentences
+      .map((span) => this.trim(text, span))
+      .filter((span) => span.end > span.start);
+  }
+
+  private splitRecursive(
+    text: string,
+    span: Span,
+    chunkSize: number,
+    level: number = 0,
+  ): Span[] {
+    if (span.end - span.start <= chunkSize) {
+      return [span];
+    }
+    if (level >= RECURSIVE_SEPARATORS.length) {
+      return this.splitFixed(span, chunkSize);
+    }
+
+    const pieces = this.splitOn(text, span, RECURSIVE_SEPARATORS[level]);
+    if (pieces.length <= 1) {
+      return this.splitRecursive(text, span, chunkSize, level + 1);
+    }
+    return pieces.flatMap((piece) =>
+      this.splitRecursive(text, piece, chunkSize, level + 1),
+    );
+  }
+
+  // Word-ish tokens: runs of word characters or single punctuation marks
+  private splitTokens(text: string): Span[] {
+    return Array.from(text.matchAll(/\w+|[^\s\w]/g)).map((match) => ({
+      start: match.index,
+      end: match.index + match[0].length,
+    }));
+  }
+
+  /**
+   * Splits on Markdown headings (or underlined headings), then packs the
+   * paragraphs of each section separately so no chunk spans two sections.
+   */
+  private chunkBySections(
+    text: string,
+    chunkSize: number,
+    chunkOverlap: number,
+  ): (Span & { heading?: string })[] {
+    const headings = Array.from(
+      text.matchAll(/^(#{1,6})[ \t]+(.+)$|^(.+)\n(=+|-+)[ \t]*$/gm),
+    );
+    const sections: (Span & { heading?: string })[] = [];
+
+    if (headings.length === 0 || headings[0].index > 0) {
+      sections.push({ start: 0, end: headings[0]?.index ?? text.length });
+    }
+    headings.forEach((match, i) => {
+      sections.push({
+        start: match.index,
+        end: headings[i + 1]?.index ?? text.length,
+        heading: (match[2] ?? match[3]).trim(),
+      });
+    });
+
+    return sections.flatMap((section) => {
+      const paragraphs = this.splitOversized(
+        text,
+        this.splitOn(text, section, /\n\s*\n/g),
+        chunkSize,
+      );
+      return this.pack(paragraphs, chunkSize, chunkOverlap).map((span) => ({
+        ...span,
+        heading: section.heading,
+      }));
+    });
+  }
+
+  /**
+   * Greedily merges consecutive units into chunks no larger than chunkSize,
+   * starting each new chunk with the trailing units of the previous one that
+   * fit within chunkOverlap.
+   */
+  private pack(
+    units: Span[],
+    chunkSize: number,
+    chunkOverlap: number,
+    measure: (first: Span, last: Span, count: number) => number = (
+      first,
+      last,
+    ) => last.end - first.start,
+  ): Span[] {
+    const chunks: Span[] = [];
+    let first = 0;
+
+    while (first < units.length) {
+      let last = first;
+      while (
+        last + 1 < units.length &&
+        measure(units[first], units[last + 1], last + 2 - first) <= chunkSize
+      ) {
+        last++;
+      }
+      chunks.push({ start: units[first].start, end: units[last].end });
+
+      if (last + 1 >= units.length) {
+        break;
+      }
+
+      let next = last + 1;
+      while (
+        next - 1 > first &&
+        measure(units[next - 1], units[last], last - next + 2) <= chunkOverlap
+      ) {
+        next--;
+      }
+      first = next;
+    }
+
+    return chunks;
+  }
+
+  // Breaks units longer than chunkSize at line breaks, sentences or words
+  private splitOversized(text: string, units: Span[], chunkSize: number) {
+    return units.flatMap((unit) =>
+      unit.end - unit.start <= chunkSize
+        ? [unit]
+        : this.pack(
+            this.splitRecursive(text, unit, chunkSize, 1),
+            chunkSize,
+            0,
+          ),
+    );
+  }
+
+  private splitOn(text: string, span: Span, separator: RegExp): Span[] {
+    const pieces: Span[] = [];
+    const pattern = new RegExp(separator.source, 'g');
+    const slice = text.slice(span.start, span.end);
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(slice)) !== null) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      pieces.push({ start: span.start + start, end: span.start + match.index });
+      start = match.index + match[0].length;
+    }
+    pieces.push({ start: span.start + start, end: span.end });
+
+    return pieces.filter((piece) => piece.end > piece.start);
+  }
+
+  private splitFixed(span: Span, chunkSize: number): Span[] {
+    const pieces: Span[] = [];
+    for (let start = span.start; start < span.end; start += chunkSize) {
+      pieces.push({ start, end: Math.min(start + chunkSize, span.end) });
+    }
+    return pieces;
+  }
+
+  private trim<T extends Span>(text: string, span: T): T {
+    let { start, end } = span;
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    return { ...span, start, end };
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Runs async tasks with at most `maxConcurrent` in flight and, when
+ * `requestsPerSecond` is above zero, spaces task starts evenly to stay
+ * under that rate.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private readonly queue: (() => void)[] = [];
+  private nextStartAt = 0;
+
+  constructor(
+    private readonly maxConcurrent: number,
+    private readonly requestsPerSecond: number = 0,
+  ) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      await this.throttle();
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.queue.push(resolve));
+  }
+
+  private release() {
+    const next = this.queue.shift();
+    if (next) {
+      // Hand the slot straight to the next waiting task
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async throttle() {
+    if (this.requestsPerSecond <= 0) {
+      return;
+    }
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextStartAt);
+    this.nextStartAt = startAt + 1000 / this.requestsPerSecond;
+    if (startAt > now) {
+      await new Promise((resolve) => setTimeout(resolve, startAt - now));
+    }
+  }
+}
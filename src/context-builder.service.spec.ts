@@ -0,0 +1,90 @@
+import { ContextBuilderService } from './context-builder.service';
+import { LLM_PROVIDER } from './llm-provider';
+import { TokenCounter } from './token-counter';
+import { createTestingService } from '../test/create-testing-service';
+
+describe('ContextBuilderService', () => {
+  const counter = new TokenCounter('gpt-4');
+  const sentence = 'The warranty covers parts and labour for two years. ';
+  const chunks = ['a', 'b', 'c', 'd'].map((id) => ({
+    id,
+    text: sentence.repeat(5).trim(),
+  }));
+  const chunkTokens = counter.count(chunks[0].text);
+
+  const createService = (config: Record<string, string> = {}) =>
+    createTestingService(ContextBuilderService, config, [
+      { provide: LLM_PROVIDER, useValue: { model: 'gpt-4' } },
+    ]);
+
+  it('should keep every chunk that fits the budget', async () => {
+    const service = await createService({ CONTEXT_MAX_TOKENS: '10000' });
+
+    const { chunks: included, stats } = service.build(chunks);
+
+    expect(included).toEqual(chunks);
+    expect(stats).toMatchObject({
+      included: 4,
+      dropped: 0,
+      truncated: false,
+    });
+  });
+
+  it('should truncate the first chunk that does not fit and drop the rest', async () => {
+    const service = await createService({
+      CONTEXT_MAX_TOKENS: String(chunkTokens * 2 + 40),
+      CONTEXT_MIN_CHUNK_TOKENS: '10',
+    });
+
+    const {
+      chunks: included,
+      context,
+      stats,
+    } = service.build(chunks, (chunk, index) => `[${index + 1}] ${chunk.text}`);
+
+    expect(included.map((chunk) => chunk.id)).toEqual(['a', 'b', 'c']);
+    expect(included[2].text).toMatch(/years\.…$/);
+    expect(context).toContain('[3] The warranty');
+    expect(stats).toMatchObject({ included: 3, dropped: 1, truncated: true });
+    expect(stats.tokens).toBeLessThanOrEqual(stats.budget);
+    expect(counter.count(context)).toBeLessThanOrEqual(stats.budget);
+  });
+
+  it('should drop a chunk when too little of it would remain', async () => {
+    const service = await createService({
+      CONTEXT_MAX_TOKENS: String(chunkTokens + 5),
+      CONTEXT_MIN_CHUNK_TOKENS: '50',
+    });
+
+    const { stats } = service.build(chunks);
+
+    expect(stats).toMatchObject({ included: 1, dropped: 3, truncated: false });
+  });
+
+  it('should fill the room a dropped chunk leaves with later ones', async () => {
+    const service = await createService({
+      CONTEXT_MAX_TOKENS: String(chunkTokens + 20),
+      CONTEXT_MIN_CHUNK_TOKENS: '50',
+    });
+    const short = { id: 'e', text: 'Batteries are not covered.' };
+
+    const { chunks: included, stats } = service.build([...chunks, short]);
+
+    expect(included.map((chunk) => chunk.id)).toEqual(['a', 'e']);
+    expect(stats).toMatchObject({ included: 2, dropped: 3, truncated: false });
+  });
+
+  it('should keep the most recent history within its limits', async () => {
+    const service = await createService({ CONVERSATION_HISTORY_MESSAGES: '2' });
+
+    const history = service.buildHistory([
+      { role: 'user', content: 'Who is Sam?' },
+      { role: 'assistant', content: 'A backend developer.' },
+      { role: 'user', content: 'Where does\nSam work?' },
+    ]);
+
+    expect(history).toBe(
+      'Assistant: A backend developer.\nUser: Where does Sam work?',
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LLM_PROVIDER, LlmProvider } from './llm-provider';
+import { TokenCounter } from './token-counter';
+
+export interface ContextStats {
+  // Chunks in the context, including a truncated last one
+  included: number;
+  dropped: number;
+  truncated: boolean;
+  tokens: number;
+  budget: number;
+}
+
+export interface HistoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface BuiltContext<T> {
+  // The chunks that made it into the context, with their text as used
+  chunks: T[];
+  context: string;
+  stats: ContextStats;
+}
+
+const SEPARATOR = '\n\n';
+
+/**
+ * Assembles the prompt context from ranked chunks within a token budget
+ * (CONTEXT_MAX_TOKENS) counted for the configured model. Chunks are taken
+ * in rank order. One that doesn't fit is cut to the remaining budget if at
+ * least CONTEXT_MIN_CHUNK_TOKENS of it would remain, which fills the
+ * context; otherwise it is dropped and shorter chunks after it may still
+ * fit.
+ */
+@Injectable()
+export class ContextBuilderService {
+  private readonly logger = new Logger(ContextBuilderService.name);
+  private readonly tokenCounter: TokenCounter;
+  readonly budget: number;
+  private readonly minChunkTokens: number;
+  private readonly historyMessages: number;
+  private readonly historyTokens: number;
+
+  constructor(
+    private configService: ConfigService,
+    @Inject(LLM_PROVIDER) llmProvider: LlmProvider,
+  ) {
+    this.budget = Number(this.configService.get('CONTEXT_MAX_TOKENS', 1500));
+    this.minChunkTokens = Number(
+      this.configService.get('CONTEXT_MIN_CHUNK_TOKENS', 50),
+    );
+    this.historyMessages = Number(
+      this.configService.get('CONVERSATION_HISTORY_MESSAGES', 6),
+    );
+    this.historyTokens = Number(
+      this.configService.get('CONVERSATION_HISTORY_TOKENS', 400),
+    );
+    this.tokenCounter = new TokenCounter(llmProvider.model);
+    if (!this.tokenCounter.exact) {
+      this.logger.log(
+        `No tokenizer known for ${llmProvider.model}; estimating context tokens with cl100k_base`,
+      );
+    }
+  }
+
+  build<T extends { text: string }>(
+    ranked: T[],
+    format: (chunk: T, index: number) => string = (chunk) => chunk.text,
+    budget: number = this.budget,
+  ): BuiltContext<T> {
+    const chunks: T[] = [];
+    const entries: string[] = [];
+    let tokens = 0;
+    let truncated = false;
+    const separatorTokens = this.tokenCounter.count(SEPARATOR);
+
+    for (const chunk of ranked) {
+      const cost = entries.length > 0 ? separatorTokens : 0;
+      const entry = format(chunk, chunks.length);
+      const entryTokens = this.tokenCounter.count(entry);
+      if (tokens + cost + entryTokens <= budget) {
+        chunks.push(chunk);
+        entries.push(entry);
+        tokens += cost + entryTokens;
+        continue;
+      }
+
+      // Cut the chunk's text to whatever room the label leaves
+      const overhead = this.tokenCounter.count(
+        format({ ...chunk, text: '' }, chunks.length),
+      );
+      const room = budget - tokens - cost - overhead;
+      if (room >= this.minChunkTokens) {
+        const shortened = {
+          ...chunk,
+          text: this.tokenCounter.truncate(chunk.text, room),
+        };
+        const shortenedEntry = format(shortened, chunks.length);
+        chunks.push(shortened);
+        entries.push(shortenedEntry);
+        tokens += cost + this.tokenCounter.count(shortenedEntry);
+        truncated = true;
+        break;
+      }
+    }
+
+    const stats: ContextStats = {
+      included: chunks.length,
+      dropped: ranked.length - chunks.length,
+      truncated,
+      tokens,
+      budget,
+    };
+    this.logger.log(
+      `Context uses ${tokens}/${budget} tokens: ${stats.included} chunks included${truncated ? ' (last one truncated)' : ''}, ${stats.dropped} dropped`,
+    );
+    return { chunks, context: entries.join(SEPARATOR), stats };
+  }
+
+  /**
+   * Formats the most recent turns of a conversation, at most
+   * CONVERSATION_HISTORY_MESSAGES of them within CONVERSATION_HISTORY_TOKENS.
+   * Older turns go first; the latest turn is cut rather than left out.
+   */
+  buildHistory(turns: HistoryTurn[]): string {
+    const lines: string[] = [];
+    let tokens = 0;
+
+    for (const turn of turns.slice(-this.historyMessages).reverse()) {
+      const speaker = turn.role === 'user' ? 'User' : 'Assistant';
+      const line = `${speaker}: ${turn.content.replace(/\s+/g, ' ').trim()}`;
+      const lineTokens = this.tokenCounter.count(line) + 1;
+      if (tokens + lineTokens > this.historyTokens) {
+        if (lines.length === 0) {
+          lines.push(this.tokenCounter.truncate(line, this.historyTokens));
+        }
+        break;
+      }
+      lines.push(line);
+      tokens += lineTokens;
+    }
+
+    return lines.reverse().join('\n');
+  }
+}
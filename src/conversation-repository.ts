@@ -0,0 +1,156 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import type { SourceChunk } from './ai-query.service';
+import { JsonFileStore } from './json-file-store';
+
+export const CONVERSATION_REPOSITORY = 'CONVERSATION_REPOSITORY';
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: Date;
+  // User messages: the question as rewritten for retrieval, if it changed
+  standaloneQuestion?: string;
+  // Assistant messages: the sources the answer was generated from
+  sources?: SourceChunk[];
+  citations?: number[];
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Knowledge base questions are answered from; missing on older records,
+  // which use the default one
+  knowledgeBaseId?: string;
+  // Principal id of the creator; missing on older records, which anyone may
+  // open
+  owner?: string;
+  messages: ConversationMessage[];
+}
+
+/**
+ * Storage for conversation sessions and their message history.
+ */
+export interface ConversationRepository {
+  findAll(): Promise<Conversation[]>;
+  findById(id: string): Promise<Conversation | undefined>;
+  save(conversation: Conversation): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+export class InMemoryConversationRepository implements ConversationRepository {
+  private readonly conversations: Map<string, Conversation> = new Map();
+
+  async findAll(): Promise<Conversation[]> {
+    return Array.from(this.conversations.values());
+  }
+
+  async findById(id: string): Promise<Conversation | undefined> {
+    return this.conversations.get(id);
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    this.conversations.set(conversation.id, conversation);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.conversations.delete(id);
+  }
+}
+
+/**
+ * Keeps conversations in memory and writes the whole set to a JSON file
+ * after every change, like FileDocumentRepository.
+ */
+export class FileConversationRepository implements ConversationRepository {
+  private readonly logger = new Logger(FileConversationRepository.name);
+  private conversations: Map<string, Conversation>;
+  private loading: Promise<void>;
+  private readonly store: JsonFileStore<Conversation[]>;
+
+  constructor(private readonly filePath: string) {
+    this.store = new JsonFileStore(filePath, 2);
+  }
+
+  async findAll(): Promise<Conversation[]> {
+    await this.load();
+    return Array.from(this.conversations.values());
+  }
+
+  async findById(id: string): Promise<Conversation | undefined> {
+    await this.load();
+    return this.conversations.get(id);
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    await this.load();
+    this.conversations.set(conversation.id, conversation);
+    await this.persist();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.load();
+    const deleted = this.conversations.delete(id);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    this.conversations = new Map();
+
+    if (!this.store.exists()) {
+      this.logger.log(`No conversation store found at ${this.filePath}`);
+      return;
+    }
+
+    const records = (await this.store.read()) ?? [];
+
+    for (const record of records) {
+      this.conversations.set(record.id, {
+        ...record,
+        createdAt: new Date(record.createdAt),
+        updatedAt: new Date(record.updatedAt),
+        messages: record.messages.map((message) => ({
+          ...message,
+          createdAt: new Date(message.createdAt),
+        })),
+      });
+    }
+
+    this.logger.log(
+      `Loaded ${this.conversations.size} conversations from ${this.filePath}`,
+    );
+  }
+
+  private persist(): Promise<void> {
+    return this.store.write(Array.from(this.conversations.values()));
+  }
+}
+
+export function createConversationRepository(
+  configService: ConfigService,
+): ConversationRepository {
+  const store = configService.get<string>('CONVERSATION_STORE', 'file');
+
+  if (store === 'memory') {
+    return new InMemoryConversationRepository();
+  }
+
+  const filePath = configService.get<string>(
+    'CONVERSATION_STORE_PATH',
+    path.join(process.cwd(), 'data', 'conversations.json'),
+  );
+  return new FileConversationRepository(filePath);
+}
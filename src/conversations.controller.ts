@@ -0,0 +1,127 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ConversationsService } from './conversations.service';
+import { SearchFilter, parseSearchFilter } from './search-filter';
+import { GenerationOptions } from './llm-provider';
+import {
+  PromptTemplatesService,
+  parseGenerationOverrides,
+} from './prompt-templates.service';
+import { KnowledgeBaseContext } from './knowledge-bases.service';
+import { CurrentKnowledgeBase } from './knowledge-base.decorator';
+import { CurrentPrincipal } from './auth.decorator';
+import { Principal } from './auth.service';
+
+export class CreateConversationDto {
+  title?: string;
+}
+
+export class ConversationMessageDto {
+  question: string;
+  citations?: boolean;
+  filter?: Record<string, unknown>;
+  template?: string;
+  generation?: Record<string, unknown>;
+}
+
+/**
+ * Multi-turn question answering. Questions posted to a conversation are
+ * answered with its earlier messages as history, from the knowledge base
+ * named by the X-Knowledge-Base header when the conversation was created.
+ * Callers see only the conversations they created; admins see all.
+ */
+@Controller('conversations')
+export class ConversationsController {
+  constructor(
+    private readonly conversationsService: ConversationsService,
+    private readonly promptTemplatesService: PromptTemplatesService,
+  ) {}
+
+  @Post()
+  create(
+    @Body() dto: CreateConversationDto = {},
+    @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    return this.conversationsService.create(
+      dto.title,
+      knowledgeBase.knowledgeBase.id,
+      principal,
+    );
+  }
+
+  @Get()
+  async list(@CurrentPrincipal() principal: Principal) {
+    return { conversations: await this.conversationsService.list(principal) };
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string, @CurrentPrincipal() principal: Principal) {
+    const conversation = await this.conversationsService.get(id, principal);
+    if (!conversation) {
+      throw new NotFoundException(`Conversation with ID ${id} not found`);
+    }
+    return conversation;
+  }
+
+  @Delete(':id')
+  async delete(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    if (!(await this.conversationsService.delete(id, principal))) {
+      throw new NotFoundException(`Conversation with ID ${id} not found`);
+    }
+    return { message: 'Conversation deleted successfully', deleted: true };
+  }
+
+  @Post(':id/messages')
+  async ask(
+    @Param('id') id: string,
+    @Body() dto: ConversationMessageDto,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    if (!dto.question || dto.question.trim().length === 0) {
+      throw new BadRequestException('Question is required');
+    }
+    let filter: SearchFilter | undefined;
+    let generation: GenerationOptions | undefined;
+    try {
+      filter = parseSearchFilter(dto.filter);
+      generation = parseGenerationOverrides(dto.generation);
+      this.promptTemplatesService.get(dto.template);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    const result = await this.conversationsService.ask(id, dto.question, {
+      citations: dto.citations,
+      filter,
+      template: dto.template,
+      generation,
+      principal,
+    });
+    if (!result) {
+      throw new NotFoundException(`Conversation with ID ${id} not found`);
+    }
+    return {
+      conversationId: id,
+      question: dto.question,
+      standaloneQuestion: result.standaloneQuestion ?? dto.question,
+      answer: result.answer,
+      sources: result.sources,
+      citations: result.citations,
+      context: result.context,
+      prompt: result.prompt,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,146 @@
+import { ConversationsService } from './conversations.service';
+import { KnowledgeBasesService } from './knowledge-bases.service';
+import {
+  CONVERSATION_REPOSITORY,
+  InMemoryConversationRepository,
+} from './conversation-repository';
+import { createTestingService } from '../test/create-testing-service';
+
+describe('ConversationsService', () => {
+  const createService = (
+    queryWithContext: jest.Mock,
+    resolve = jest.fn().mockResolvedValue({
+      aiQueryService: { queryWithContext },
+    }),
+  ) =>
+    createTestingService(ConversationsService, {}, [
+      { provide: KnowledgeBasesService, useValue: { resolve } },
+      {
+        provide: CONVERSATION_REPOSITORY,
+        useClass: InMemoryConversationRepository,
+      },
+    ]);
+
+  const answer = (text: string, standaloneQuestion?: string) => ({
+    answer: text,
+    sources: [],
+    citations: [],
+    context: { included: 0, dropped: 0, truncated: false, tokens: 0 },
+    ...(standaloneQuestion && { standaloneQuestion }),
+  });
+
+  it('should answer follow-ups with the earlier messages as history', async () => {
+    const queryWithContext = jest
+      .fn()
+      .mockResolvedValueOnce(answer('He works with NestJS.'))
+      .mockResolvedValueOnce(
+        answer('He is AWS certified.', 'What certifications does Sam have?'),
+      );
+    const service = await createService(queryWithContext);
+    const { id } = await service.create();
+
+    await service.ask(id, 'What does Sam work on?');
+    const result = await service.ask(id, 'What about his certifications?', {
+      citations: true,
+    });
+
+    expect(queryWithContext).toHaveBeenLastCalledWith(
+      'What about his certifications?',
+      {
+        citations: true,
+        history: [
+          { role: 'user', content: 'What does Sam work on?' },
+          { role: 'assistant', content: 'He works with NestJS.' },
+        ],
+      },
+    );
+    expect(result.standaloneQuestion).toBe(
+      'What certifications does Sam have?',
+    );
+
+    const conversation = await service.get(id);
+    expect(conversation.title).toBe('What does Sam work on?');
+    expect(conversation.messages).toHaveLength(4);
+    expect(conversation.messages[2]).toMatchObject({
+      role: 'user',
+      standaloneQuestion: 'What certifications does Sam have?',
+    });
+  });
+
+  it('should answer questions asked at once in turn', async () => {
+    const queryWithContext = jest
+      .fn()
+      .mockResolvedValueOnce(answer('First.'))
+      .mockResolvedValueOnce(answer('Second.'));
+    const service = await createService(queryWithContext);
+    const { id } = await service.create();
+
+    await Promise.all([service.ask(id, 'One?'), service.ask(id, 'Two?')]);
+
+    expect(queryWithContext).toHaveBeenLastCalledWith('Two?', {
+      history: [
+        { role: 'user', content: 'One?' },
+        { role: 'assistant', content: 'First.' },
+      ],
+    });
+    expect((await service.get(id)).messages).toHaveLength(4);
+  });
+
+  it('should list conversations without their messages', async () => {
+    const service = await createService(
+      jest.fn().mockResolvedValue(answer('Hi.')),
+    );
+    const { id } = await service.create('Greetings');
+    await service.ask(id, 'Hello?');
+
+    expect(await service.list()).toEqual([
+      expect.objectContaining({ id, title: 'Greetings', messageCount: 2 }),
+    ]);
+  });
+
+  it('should not answer in an unknown conversation', async () => {
+    const queryWithContext = jest.fn();
+    const service = await createService(queryWithContext);
+
+    expect(await service.ask('conv_missing', 'Hello?')).toBeUndefined();
+    expect(queryWithContext).not.toHaveBeenCalled();
+  });
+
+  it('should not bring back a conversation deleted while answering', async () => {
+    let finish: (result: ReturnType<typeof answer>) => void;
+    const queryWithContext = jest.fn(
+      () => new Promise((resolve) => (finish = resolve)),
+    );
+    const service = await createService(queryWithContext);
+    const { id } = await service.create();
+
+    const asking = service.ask(id, 'Hello?');
+    await new Promise(setImmediate);
+    await service.delete(id);
+    finish(answer('Hi.'));
+
+    expect(await asking).toBeUndefined();
+    expect(await service.get(id)).toBeUndefined();
+  });
+
+  it('should answer from the knowledge base the conversation started in', async () => {
+    const queryWithContext = jest.fn().mockResolvedValue(answer('Hi.'));
+    const resolve = jest.fn().mockResolvedValue({
+      aiQueryService: { queryWithContext },
+    });
+    const service = await createService(queryWithContext, resolve);
+    const { id } = await service.create(undefined, 'hr');
+
+    await service.ask(id, 'Hello?');
+
+    expect(resolve).toHaveBeenCalledWith('hr');
+    expect(await service.list()).toEqual([
+      expect.objectContaining({ id, knowledgeBaseId: 'hr' }),
+    ]);
+
+    resolve.mockResolvedValue(undefined);
+    await expect(service.ask(id, 'Still there?')).rejects.toThrow(
+      'Knowledge base hr no longer exists',
+    );
+  });
+});
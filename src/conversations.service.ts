@@ -0,0 +1,195 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { QueryOptions, QueryResult } from './ai-query.service';
+import {
+  DEFAULT_KNOWLEDGE_BASE_ID,
+  KnowledgeBasesService,
+} from './knowledge-bases.service';
+import {
+  CONVERSATION_REPOSITORY,
+  Conversation,
+  ConversationRepository,
+} from './conversation-repository';
+import type { Principal } from './auth.service';
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  knowledgeBaseId: string;
+  owner?: string;
+  messageCount: number;
+}
+
+const TITLE_LENGTH = 60;
+
+/**
+ * Conversation sessions. Each question is answered with the earlier
+ * messages as history, so follow-ups are rewritten into standalone queries
+ * before retrieval, and both sides of the exchange are stored. A
+ * conversation stays in the knowledge base it was started in. Answers are
+ * limited to the documents its creator may see, so only the creator and
+ * admins may open it; methods given a principal treat other conversations
+ * as missing.
+ */
+@Injectable()
+export class ConversationsService {
+  private readonly logger = new Logger(ConversationsService.name);
+  // Latest ask per conversation; each waits for the one before so none of
+  // them saves over another's exchange
+  private readonly asking: Map<string, Promise<unknown>> = new Map();
+
+  constructor(
+    private knowledgeBasesService: KnowledgeBasesService,
+    @Inject(CONVERSATION_REPOSITORY)
+    private conversationRepository: ConversationRepository,
+  ) {}
+
+  async create(
+    title?: string,
+    knowledgeBaseId: string = DEFAULT_KNOWLEDGE_BASE_ID,
+    owner?: Principal,
+  ): Promise<Conversation> {
+    const now = new Date();
+    const conversation: Conversation = {
+      id: `conv_${randomBytes(8).toString('hex')}`,
+      title: title?.trim() ?? '',
+      createdAt: now,
+      updatedAt: now,
+      knowledgeBaseId,
+      owner: owner?.id,
+      messages: [],
+    };
+    await this.conversationRepository.save(conversation);
+    this.logger.log(`Created conversation ${conversation.id}`);
+    return conversation;
+  }
+
+  async list(principal?: Principal): Promise<ConversationSummary[]> {
+    const conversations = await this.conversationRepository.findAll();
+    return conversations
+      .filter((conversation) => isVisibleTo(conversation, principal))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(({ messages, ...conversation }) => ({
+        ...conversation,
+        knowledgeBaseId:
+          conversation.knowledgeBaseId ?? DEFAULT_KNOWLEDGE_BASE_ID,
+        messageCount: messages.length,
+      }));
+  }
+
+  async get(
+    id: string,
+    principal?: Principal,
+  ): Promise<Conversation | undefined> {
+    const conversation = await this.conversationRepository.findById(id);
+    return conversation && isVisibleTo(conversation, principal)
+      ? conversation
+      : undefined;
+  }
+
+  async delete(id: string, principal?: Principal): Promise<boolean> {
+    if (!(await this.get(id, principal))) {
+      return false;
+    }
+    return this.conversationRepository.delete(id);
+  }
+
+  /**
+   * Answers a question in the context of a conversation and appends the
+   * question and answer to it. Returns undefined if the conversation does
+   * not exist, is not visible to `options.principal` or is deleted before
+   * the answer is ready, and throws if its knowledge base has been deleted.
+   */
+  async ask(
+    id: string,
+    question: string,
+    options: Omit<QueryOptions, 'history'> = {},
+  ): Promise<QueryResult | undefined> {
+    const asking = (this.asking.get(id) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.answer(id, question, options));
+    this.asking.set(id, asking);
+    try {
+      return await asking;
+    } finally {
+      if (this.asking.get(id) === asking) {
+        this.asking.delete(id);
+      }
+    }
+  }
+
+  private async answer(
+    id: string,
+    question: string,
+    options: Omit<QueryOptions, 'history'>,
+  ): Promise<QueryResult | undefined> {
+    const conversation = await this.get(id, options.principal);
+    if (!conversation) {
+      return undefined;
+    }
+
+    const knowledgeBaseId =
+      conversation.knowledgeBaseId ?? DEFAULT_KNOWLEDGE_BASE_ID;
+    const knowledgeBase =
+      await this.knowledgeBasesService.resolve(knowledgeBaseId);
+    if (!knowledgeBase) {
+      throw new Error(`Knowledge base ${knowledgeBaseId} no longer exists`);
+    }
+
+    const history = conversation.messages.map(({ role, content }) => ({
+      role,
+      content,
+    }));
+    const result = await knowledgeBase.aiQueryService.queryWithContext(
+      question,
+      {
+        ...options,
+        history,
+      },
+    );
+
+    const askedAt = new Date();
+    conversation.messages.push(
+      {
+        role: 'user',
+        content: question,
+        createdAt: askedAt,
+        ...(result.standaloneQuestion && {
+          standaloneQuestion: result.standaloneQuestion,
+        }),
+      },
+      {
+        role: 'assistant',
+        content: result.answer,
+        createdAt: new Date(),
+        sources: result.sources,
+        citations: result.citations,
+      },
+    );
+    if (!conversation.title) {
+      conversation.title = question.trim().substring(0, TITLE_LENGTH);
+    }
+    conversation.updatedAt = new Date();
+    // Deleted while the answer was generated; saving would bring it back
+    if (!(await this.conversationRepository.findById(id))) {
+      return undefined;
+    }
+    await this.conversationRepository.save(conversation);
+
+    return result;
+  }
+}
+
+function isVisibleTo(
+  conversation: Conversation,
+  principal: Principal | undefined,
+): boolean {
+  return (
+    !principal ||
+    !conversation.owner ||
+    principal.role === 'admin' ||
+    conversation.owner === principal.id
+  );
+}
@@ -0,0 +1,97 @@
+import { DocumentExtractor, ExtractedDocument } from './document-extractor';
+import { decodeText } from './text.extractor';
+
+/**
+ * Parses delimited text with quoted fields, where quotes are escaped by
+ * doubling them and quoted fields may span lines.
+ */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+/**
+ * Writes each data row as one line of "column: value" pairs so values keep
+ * their column names once chunked. Every row is a section numbered by its
+ * position after the header.
+ */
+export class CsvExtractor implements DocumentExtractor {
+  readonly format = 'csv';
+  readonly extensions = ['.csv', '.tsv'];
+  readonly mimeTypes = ['text/csv', 'text/tab-separated-values'];
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const content = decodeText(buffer);
+    const [header = [], ...records] = parseCsv(
+      content,
+      this.detectDelimiter(content),
+    );
+
+    let text = '';
+    const sections: ExtractedDocument['sections'] = [];
+    records.forEach((record, index) => {
+      const line = record
+        .map((value, column) => {
+          const name = header[column]?.trim() || `column ${column + 1}`;
+          return `${name}: ${value.trim()}`;
+        })
+        .join('; ');
+      const start = text.length;
+      text += line + '\n';
+      sections.push({
+        start,
+        end: start + line.length,
+        sectionNumber: index + 1,
+      });
+    });
+
+    return { text, sections };
+  }
+
+  // The candidate that appears most often on the header line
+  private detectDelimiter(content: string): string {
+    const firstLine = content.split(/\r?\n/, 1)[0];
+    return [',', ';', '\t', '|'].reduce((best, candidate) =>
+      firstLine.split(candidate).length > firstLine.split(best).length
+        ? candidate
+        : best,
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  DocumentAccess,
+  DocumentAccessService,
+  canAccessDocument,
+  canManageDocument,
+} from './document-access.service';
+import {
+  DOCUMENT_REPOSITORY,
+  InMemoryDocumentRepository,
+} from './document-repository';
+import { PdfDocument } from './pdf.service';
+import { Principal } from './auth.service';
+import { createTestingService } from '../test/create-testing-service';
+
+describe('DocumentAccessService', () => {
+  const principal = (
+    id: string,
+    role: Principal['role'] = 'reader',
+    groups: string[] = [],
+  ): Principal => ({ id, name: id, role, type: 'api-key', groups });
+  const ada = principal('ada', 'uploader');
+  const bob = principal('bob', 'reader', ['finance']);
+  const eve = principal('eve');
+  const admin = principal('root', 'admin');
+
+  const restricted: DocumentAccess = {
+    owner: 'ada',
+    visibility: 'restricted',
+    groups: ['finance'],
+  };
+
+  const document = (id: string, access?: DocumentAccess): PdfDocument => ({
+    id,
+    filename: `${id}.pdf`,
+    uploadDate: new Date(),
+    textContent: 'text',
+    chunkCount: 1,
+    contentHash: id,
+    access,
+  });
+
+  const createService = async (
+    documents: PdfDocument[],
+    config: Record<string, string> = {},
+  ) => {
+    const repository = new InMemoryDocumentRepository();
+    for (const doc of documents) {
+      await repository.save(doc);
+    }
+    return createTestingService(DocumentAccessService, config, [
+      { provide: DOCUMENT_REPOSITORY, useValue: repository },
+    ]);
+  };
+
+  it('should let owners, group members and admins see restricted documents', () => {
+    expect(canAccessDocument(ada, restricted)).toBe(true);
+    expect(canAccessDocument(bob, restricted)).toBe(true);
+    expect(canAccessDocument(admin, restricted)).toBe(true);
+    expect(canAccessDocument(eve, restricted)).toBe(false);
+    expect(canAccessDocument(eve, undefined)).toBe(true);
+    expect(
+      canAccessDocument(eve, { ...restricted, visibility: 'public' }),
+    ).toBe(true);
+
+    expect(canManageDocument(ada, restricted)).toBe(true);
+    expect(canManageDocument(bob, restricted)).toBe(false);
+    expect(canManageDocument(bob, undefined)).toBe(false);
+  });
+
+  it('should restrict uploads with groups, and default to the configured visibility', async () => {
+    const service = await createService([], {
+      DOCUMENT_DEFAULT_VISIBILITY: 'public',
+    });
+
+    expect(service.forUpload(ada, { groups: 'finance, hr,finance' })).toEqual({
+      owner: 'ada',
+      visibility: 'restricted',
+      groups: ['finance', 'hr'],
+    });
+    expect(service.forUpload(ada, {})).toEqual({
+      owner: 'ada',
+      visibility: 'public',
+      groups: [],
+    });
+    expect(() => service.forUpload(ada, { visibility: 'secret' })).toThrow(
+      'visibility must be one of public, restricted',
+    );
+    await expect(
+      createService([], { DOCUMENT_DEFAULT_VISIBILITY: 'hidden' }),
+    ).rejects.toThrow('Unknown DOCUMENT_DEFAULT_VISIBILITY "hidden"');
+  });
+
+  it('should exclude documents the principal may not see from searches', async () => {
+    const service = await createService([
+      document('doc_public'),
+      document('doc_restricted', restricted),
+    ]);
+    service.track('doc_pending', { ...restricted, groups: [] });
+    service.hideUnrecorded(['doc_orphan', 'doc_public']);
+
+    expect(await service.restrictFilter({ sourceTypes: ['pdf'] }, eve)).toEqual(
+      {
+        sourceTypes: ['pdf'],
+        excludeDocumentIds: ['doc_restricted', 'doc_pending', 'doc_orphan'],
+      },
+    );
+    expect(await service.restrictFilter(undefined, bob)).toEqual({
+      excludeDocumentIds: ['doc_pending', 'doc_orphan'],
+    });
+    expect(await service.restrictFilter(undefined, admin)).toBeUndefined();
+    expect(await service.restrictFilter(undefined, undefined)).toBeUndefined();
+
+    service.release('doc_pending');
+    service.hideUnrecorded([]);
+    expect(await service.restrictFilter(undefined, bob)).toBeUndefined();
+  });
+
+  it('should read the document records again only after a change', async () => {
+    const repository = new InMemoryDocumentRepository();
+    const findAll = jest.spyOn(repository, 'findAll');
+    const service = await createTestingService(DocumentAccessService, {}, [
+      { provide: DOCUMENT_REPOSITORY, useValue: repository },
+    ]);
+
+    await repository.save(document('doc_restricted', restricted));
+    expect(await service.restrictFilter(undefined, eve)).toEqual({
+      excludeDocumentIds: ['doc_restricted'],
+    });
+    await repository.delete('doc_restricted');
+    expect(await service.restrictFilter(undefined, eve)).toEqual({
+      excludeDocumentIds: ['doc_restricted'],
+    });
+    expect(findAll).toHaveBeenCalledTimes(1);
+
+    service.invalidate();
+    expect(await service.restrictFilter(undefined, eve)).toBeUndefined();
+    expect(findAll).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,228 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DOCUMENT_REPOSITORY, DocumentRepository } from './document-repository';
+import { SearchFilter, combineFilters } from './search-filter';
+import type { Principal } from './auth.service';
+import type { PdfDocument } from './pdf.service';
+
+export type DocumentVisibility = 'public' | 'restricted';
+
+export const DOCUMENT_VISIBILITIES: DocumentVisibility[] = [
+  'public',
+  'restricted',
+];
+
+/**
+ * Who may see a document. Restricted documents are visible to their owner,
+ * to admins and to members of any of the groups.
+ */
+export interface DocumentAccess {
+  // Principal id of the uploader; missing when access was set on a document
+  // uploaded before access control
+  owner?: string;
+  visibility: DocumentVisibility;
+  groups: string[];
+}
+
+/**
+ * Whether a principal may see a document. Documents without an access
+ * record, uploaded before access control, are public.
+ */
+export function canAccessDocument(
+  principal: Principal,
+  access: DocumentAccess | undefined,
+): boolean {
+  return (
+    !access ||
+    access.visibility === 'public' ||
+    principal.role === 'admin' ||
+    (access.owner !== undefined && access.owner === principal.id) ||
+    access.groups.some((group) => principal.groups.includes(group))
+  );
+}
+
+/**
+ * Whether a principal may change a document's access or replace it: its
+ * owner and admins.
+ */
+export function canManageDocument(
+  principal: Principal,
+  access: DocumentAccess | undefined,
+): boolean {
+  return (
+    principal.role === 'admin' ||
+    (access?.owner !== undefined && access.owner === principal.id)
+  );
+}
+
+/**
+ * Validates the `visibility` and `groups` fields of an upload or access
+ * change. Groups may be a list or a comma-separated string.
+ */
+export function parseAccessFields(fields: {
+  visibility?: unknown;
+  groups?: unknown;
+}): Partial<Pick<DocumentAccess, 'visibility' | 'groups'>> {
+  const access: Partial<Pick<DocumentAccess, 'visibility' | 'groups'>> = {};
+  if (fields.visibility !== undefined && fields.visibility !== '') {
+    if (
+      !DOCUMENT_VISIBILITIES.includes(fields.visibility as DocumentVisibility)
+    ) {
+      throw new Error(
+        `visibility must be one of ${DOCUMENT_VISIBILITIES.join(', ')}`,
+      );
+    }
+    access.visibility = fields.visibility as DocumentVisibility;
+  }
+  if (fields.groups !== undefined) {
+    const groups =
+      typeof fields.groups === 'string'
+        ? fields.groups.split(',')
+        : fields.groups;
+    if (
+      !Array.isArray(groups) ||
+      groups.some((group) => typeof group !== 'string')
+    ) {
+      throw new Error('groups must be a list of group names');
+    }
+    access.groups = Array.from(
+      new Set(groups.map((group: string) => group.trim()).filter(Boolean)),
+    );
+  }
+  return access;
+}
+
+// Ids of the recorded documents, and the records of those that are not public
+interface RecordedDocuments {
+  ids: Set<string>;
+  restricted: PdfDocument[];
+}
+
+/**
+ * Enforces document access at retrieval time. Access is kept on the
+ * document records, and each search excludes the documents the caller may
+ * not see, so a change of access applies to the next query. The records are
+ * read once and cached until `invalidate` reports a change. Documents that
+ * are still being ingested have chunks but no record yet; their access is
+ * tracked here until the record is saved. Chunks left without a record, as
+ * found by reconciliation, are hidden from everyone but admins.
+ */
+@Injectable()
+export class DocumentAccessService {
+  readonly defaultVisibility: DocumentVisibility;
+  private readonly pending: Map<string, DocumentAccess> = new Map();
+  private unrecorded: Set<string> = new Set();
+  private records: Promise<RecordedDocuments> | undefined;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(DOCUMENT_REPOSITORY)
+    private readonly documentRepository: DocumentRepository,
+  ) {
+    this.defaultVisibility = this.configService.get<DocumentVisibility>(
+      'DOCUMENT_DEFAULT_VISIBILITY',
+      'public',
+    );
+    if (!DOCUMENT_VISIBILITIES.includes(this.defaultVisibility)) {
+      throw new Error(
+        `Unknown DOCUMENT_DEFAULT_VISIBILITY "${this.defaultVisibility}"; expected one of ${DOCUMENT_VISIBILITIES.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * The access of a new upload by a principal, from its form fields.
+   */
+  forUpload(
+    principal: Principal,
+    fields: { visibility?: unknown; groups?: unknown },
+  ): DocumentAccess {
+    const parsed = parseAccessFields(fields);
+    return {
+      owner: principal.id,
+      visibility:
+        parsed.visibility ??
+        (parsed.groups?.length ? 'restricted' : this.defaultVisibility),
+      groups: parsed.groups ?? [],
+    };
+  }
+
+  /**
+   * Narrows a filter to the documents a principal may see. Without a
+   * principal, for internal callers such as the evaluation CLI, the filter
+   * is returned unchanged.
+   */
+  async restrictFilter(
+    filter: SearchFilter | undefined,
+    principal: Principal | undefined,
+  ): Promise<SearchFilter | undefined> {
+    if (!principal || principal.role === 'admin') {
+      return filter;
+    }
+    const { ids: recorded, restricted } = await this.loadRecords();
+    const hidden = restricted
+      .filter((document) => !canAccessDocument(principal, document.access))
+      .map((document) => document.id);
+    for (const [documentId, access] of this.pending) {
+      if (!canAccessDocument(principal, access)) {
+        hidden.push(documentId);
+      }
+    }
+    // A document may have been saved since it was found without a record
+    for (const documentId of this.unrecorded) {
+      if (!recorded.has(documentId) && !this.pending.has(documentId)) {
+        hidden.push(documentId);
+      }
+    }
+    return hidden.length > 0
+      ? combineFilters(filter, { excludeDocumentIds: hidden })
+      : filter;
+  }
+
+  /**
+   * Drops the cached records; called whenever a document record is saved or
+   * deleted.
+   */
+  invalidate(): void {
+    this.records = undefined;
+  }
+
+  private loadRecords(): Promise<RecordedDocuments> {
+    if (!this.records) {
+      this.records = this.documentRepository.findAll().then(
+        (documents) => ({
+          ids: new Set(documents.map((document) => document.id)),
+          restricted: documents.filter(
+            (document) =>
+              document.access && document.access.visibility !== 'public',
+          ),
+        }),
+        (error) => {
+          this.records = undefined;
+          throw error;
+        },
+      );
+    }
+    return this.records;
+  }
+
+  /**
+   * Records the access of a document whose chunks are being stored, until
+   * `release` is called once its record is saved or ingestion fails.
+   */
+  track(documentId: string, access: DocumentAccess): void {
+    this.pending.set(documentId, access);
+  }
+
+  release(documentId: string): void {
+    this.pending.delete(documentId);
+  }
+
+  /**
+   * Sets the documents that have chunks but no record, replacing the ones
+   * from the previous reconciliation.
+   */
+  hideUnrecorded(documentIds: string[]): void {
+    this.unrecorded = new Set(documentIds);
+  }
+}
@@ -0,0 +1,100 @@
+import { DocumentExtractorRegistry } from './document-extractor';
+
+describe('DocumentExtractorRegistry', () => {
+  const registry = new DocumentExtractorRegistry();
+
+  it('should detect formats from content, filename and MIME type', () => {
+    expect(
+      registry.detectFormat(Buffer.from('%PDF-1.7 ...'), 'upload.bin'),
+    ).toBe('pdf');
+    expect(registry.detectFormat(Buffer.from('# Notes'), 'notes.md')).toBe(
+      'markdown',
+    );
+    expect(
+      registry.detectFormat(Buffer.from('a,b\n1,2'), 'data', 'text/csv'),
+    ).toBe('csv');
+    expect(registry.detectFormat(Buffer.from('{"a": 1}'), 'export')).toBe(
+      'json',
+    );
+    expect(
+      registry.detectFormat(Buffer.from('<!DOCTYPE html><p>Hi</p>'), 'page'),
+    ).toBe('html');
+  });
+
+  it('should reject binary content and files that do not match their extension', () => {
+    expect(
+      registry.detectFormat(Buffer.from([0x00, 0x01, 0x02]), 'image.png'),
+    ).toBeUndefined();
+    expect(
+      registry.detectFormat(Buffer.from('not a pdf'), 'report.pdf'),
+    ).toBeUndefined();
+  });
+
+  it('should split Markdown into heading sections, ignoring code fences', async () => {
+    const markdown =
+      'Intro\n\n# Setup\nInstall it.\n```\n# not a heading\n```\n## Usage\nRun it.';
+
+    const { text, sections } = await registry.extract(
+      Buffer.from(markdown),
+      'markdown',
+    );
+
+    expect(text).toBe(markdown);
+    expect(
+      sections.map(({ sectionNumber, heading }) => ({
+        sectionNumber,
+        heading,
+      })),
+    ).toEqual([
+      { sectionNumber: 1, heading: undefined },
+      { sectionNumber: 2, heading: 'Setup' },
+      { sectionNumber: 3, heading: 'Usage' },
+    ]);
+  });
+
+  it('should turn HTML headings into sections and drop markup', async () => {
+    const html =
+      '<html><head><title>x</title></head><body><h1>Guide</h1><p>Read &amp; follow.</p><script>alert(1)</script><ul><li>One</li></ul></body></html>';
+
+    const { text, sections } = await registry.extract(
+      Buffer.from(html),
+      'html',
+    );
+
+    expect(text).toBe('# Guide\n\nRead & follow.\n\n- One');
+    expect(sections).toEqual([
+      { start: 0, end: text.length, heading: 'Guide', sectionNumber: 1 },
+    ]);
+  });
+
+  it('should write CSV rows as column-value lines, one section per row', async () => {
+    const csv = 'name,city\n"Smith, Jo",Oslo\nLee,"Rio ""de"" Janeiro"\n';
+
+    const { text, sections } = await registry.extract(Buffer.from(csv), 'csv');
+
+    expect(text).toBe(
+      'name: Smith, Jo; city: Oslo\nname: Lee; city: Rio "de" Janeiro\n',
+    );
+    expect(sections.map((section) => section.sectionNumber)).toEqual([1, 2]);
+  });
+
+  it('should flatten JSON with top-level keys as section headings', async () => {
+    const json = JSON.stringify({
+      owner: { name: 'Jo', tags: ['a', 'b'] },
+      version: 2,
+    });
+
+    const { text, sections } = await registry.extract(
+      Buffer.from(json),
+      'json',
+    );
+
+    expect(text).toBe(
+      'owner.name: Jo\nowner.tags[0]: a\nowner.tags[1]: b\n\nversion: 2',
+    );
+    expect(sections.map((section) => section.heading)).toEqual([
+      'owner',
+      'version',
+    ]);
+  });
+});
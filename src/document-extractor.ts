@@ -0,0 +1,145 @@
+import { Injectable } from '@nestjs/common';
+import * as path from 'path';
+import { SourceType } from './vector-store';
+import { PdfExtractor } from './pdf.extractor';
+import { MarkdownExtractor } from './markdown.extractor';
+import { TextExtractor } from './text.extractor';
+import { HtmlExtractor } from './html.extractor';
+import { DocxExtractor } from './docx.extractor';
+import { CsvExtractor } from './csv.extractor';
+import { JsonExtractor } from './json.extractor';
+
+/**
+ * A structural part of an extracted document, such as a Markdown section, a
+ * CSV row or a top-level JSON key. Offsets index into the extracted text.
+ */
+export interface DocumentSection {
+  start: number;
+  end: number;
+  // 1-based position among the document's sections
+  sectionNumber: number;
+  heading?: string;
+  // 1-based page number, for sources with pages
+  pageNumber?: number;
+}
+
+// Document properties read from the file itself, where the format has them
+export interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  createdAt?: Date;
+  pageCount?: number;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  // Ordered, non-overlapping; empty when the source has no structure
+  sections: DocumentSection[];
+  metadata?: DocumentMetadata;
+}
+
+/**
+ * Turns an uploaded file of one format into plain text for chunking.
+ * Detection uses the extensions and MIME types, plus `sniff` when defined.
+ */
+export interface DocumentExtractor {
+  readonly format: SourceType;
+  readonly extensions: string[];
+  readonly mimeTypes: string[];
+  sniff?(buffer: Buffer): boolean;
+  extract(buffer: Buffer): Promise<ExtractedDocument>;
+}
+
+/**
+ * Builds sections from heading positions: each section runs from its
+ * heading to the next one, and text before the first heading becomes an
+ * untitled section.
+ */
+export function sectionsFromHeadings(
+  text: string,
+  headings: { index: number; heading: string }[],
+): DocumentSection[] {
+  const bounds: { index: number; heading?: string }[] =
+    headings.length > 0 && headings[0].index === 0
+      ? headings
+      : [{ index: 0 }, ...headings];
+
+  return bounds
+    .map((bound, i) => ({
+      start: bound.index,
+      end: bounds[i + 1]?.index ?? text.length,
+      heading: bound.heading,
+    }))
+    .filter((section) => text.slice(section.start, section.end).trim())
+    .map((section, i) => ({ ...section, sectionNumber: i + 1 }));
+}
+
+/**
+ * Detects the format of an upload and extracts its text. PDF and DOCX are
+ * recognised by their content; text formats by the file extension, then the
+ * MIME type the client sent, then the content.
+ */
+@Injectable()
+export class DocumentExtractorRegistry {
+  private readonly extractors: DocumentExtractor[] = [
+    new PdfExtractor(),
+    new DocxExtractor(),
+    new HtmlExtractor(),
+    new MarkdownExtractor(),
+    new CsvExtractor(),
+    new JsonExtractor(),
+    new TextExtractor(),
+  ];
+
+  getSupportedFormats(): {
+    format: SourceType;
+    extensions: string[];
+    mimeTypes: string[];
+  }[] {
+    return this.extractors.map(({ format, extensions, mimeTypes }) => ({
+      format,
+      extensions,
+      mimeTypes,
+    }));
+  }
+
+  detectFormat(
+    buffer: Buffer,
+    filename: string,
+    mimeType?: string,
+  ): SourceType | undefined {
+    const extension = path.extname(filename).toLowerCase();
+    const byExtension = this.extractors.find((extractor) =>
+      extractor.extensions.includes(extension),
+    );
+    const byMimeType = this.extractors.find((extractor) =>
+      extractor.mimeTypes.includes(mimeType?.split(';')[0].trim()),
+    );
+
+    const sniffed = this.extractors.find((extractor) =>
+      extractor.sniff?.(buffer),
+    );
+    if (sniffed?.format === 'pdf' || sniffed?.format === 'docx') {
+      return sniffed.format;
+    }
+    // A binary format whose content doesn't match, or content that isn't text
+    const claimed = byExtension ?? byMimeType ?? sniffed;
+    if (!sniffed || claimed.format === 'pdf' || claimed.format === 'docx') {
+      return undefined;
+    }
+    return claimed.format;
+  }
+
+  async extract(
+    buffer: Buffer,
+    format: SourceType,
+  ): Promise<ExtractedDocument> {
+    const extractor = this.extractors.find(
+      (candidate) => candidate.format === format,
+    );
+    if (!extractor) {
+      throw new Error(`No extractor for format "${format}"`);
+    }
+    return extractor.extract(buffer);
+  }
+}
@@ -0,0 +1,161 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import type { PdfDocument } from './pdf.service';
+import { JsonFileStore } from './json-file-store';
+
+export const DOCUMENT_REPOSITORY = 'DOCUMENT_REPOSITORY';
+
+/**
+ * Storage for document metadata. Chunks and vectors live in Milvus; this only
+ * keeps the records that describe where those chunks came from.
+ */
+export interface DocumentRepository {
+  findAll(): Promise<PdfDocument[]>;
+  findById(id: string): Promise<PdfDocument | undefined>;
+  findByContentHash(contentHash: string): Promise<PdfDocument | undefined>;
+  findByFilename(filename: string): Promise<PdfDocument[]>;
+  save(document: PdfDocument): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+export class InMemoryDocumentRepository implements DocumentRepository {
+  private readonly documents: Map<string, PdfDocument> = new Map();
+
+  async findAll(): Promise<PdfDocument[]> {
+    return Array.from(this.documents.values());
+  }
+
+  async findById(id: string): Promise<PdfDocument | undefined> {
+    return this.documents.get(id);
+  }
+
+  async findByContentHash(
+    contentHash: string,
+  ): Promise<PdfDocument | undefined> {
+    return (await this.findAll()).find(
+      (doc) => doc.contentHash === contentHash,
+    );
+  }
+
+  async findByFilename(filename: string): Promise<PdfDocument[]> {
+    return (await this.findAll()).filter((doc) => doc.filename === filename);
+  }
+
+  async save(document: PdfDocument): Promise<void> {
+    this.documents.set(document.id, document);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.documents.delete(id);
+  }
+}
+
+/**
+ * Keeps documents in memory and writes the whole set to a JSON file after
+ * every change, so records survive restarts without an extra database.
+ */
+export class FileDocumentRepository implements DocumentRepository {
+  private readonly logger = new Logger(FileDocumentRepository.name);
+  private documents: Map<string, PdfDocument>;
+  private loading: Promise<void>;
+  private readonly store: JsonFileStore<PdfDocument[]>;
+
+  constructor(private readonly filePath: string) {
+    this.store = new JsonFileStore(filePath, 2);
+  }
+
+  async findAll(): Promise<PdfDocument[]> {
+    await this.load();
+    return Array.from(this.documents.values());
+  }
+
+  async findById(id: string): Promise<PdfDocument | undefined> {
+    await this.load();
+    return this.documents.get(id);
+  }
+
+  async findByContentHash(
+    contentHash: string,
+  ): Promise<PdfDocument | undefined> {
+    return (await this.findAll()).find(
+      (doc) => doc.contentHash === contentHash,
+    );
+  }
+
+  async findByFilename(filename: string): Promise<PdfDocument[]> {
+    return (await this.findAll()).filter((doc) => doc.filename === filename);
+  }
+
+  async save(document: PdfDocument): Promise<void> {
+    await this.load();
+    this.documents.set(document.id, document);
+    await this.persist();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.load();
+    const deleted = this.documents.delete(id);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    this.documents = new Map();
+
+    if (!this.store.exists()) {
+      this.logger.log(`No document store found at ${this.filePath}`);
+      return;
+    }
+
+    const records = (await this.store.read()) ?? [];
+
+    for (const record of records) {
+      this.documents.set(record.id, {
+        ...record,
+        uploadDate: new Date(record.uploadDate),
+        ...(record.metadata && {
+          metadata: {
+            ...record.metadata,
+            createdAt: record.metadata.createdAt
+              ? new Date(record.metadata.createdAt)
+              : undefined,
+          },
+        }),
+      });
+    }
+
+    this.logger.log(
+      `Loaded ${this.documents.size} documents from ${this.filePath}`,
+    );
+  }
+
+  private persist(): Promise<void> {
+    return this.store.write(Array.from(this.documents.values()));
+  }
+}
+
+export function createDocumentRepository(
+  configService: ConfigService,
+): DocumentRepository {
+  const store = configService.get<string>('DOCUMENT_STORE', 'file');
+
+  if (store === 'memory') {
+    return new InMemoryDocumentRepository();
+  }
+
+  const filePath = configService.get<string>(
+    'DOCUMENT_STORE_PATH',
+    path.join(process.cwd(), 'data', 'documents.json'),
+  );
+  return new FileDocumentRepository(filePath);
+}
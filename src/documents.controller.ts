@@ -0,0 +1,168 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+  Res,
+  UnsupportedMediaTypeException,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { PdfDocument } from './pdf.service';
+import { IngestionJob } from './ingestion-jobs.service';
+import { ChunkingOptions } from './chunking.service';
+import { DocumentExtractorRegistry } from './document-extractor';
+import { SourceType } from './vector-store';
+import { KnowledgeBaseContext } from './knowledge-bases.service';
+import { CurrentKnowledgeBase } from './knowledge-base.decorator';
+import { CurrentPrincipal, Roles } from './auth.decorator';
+import { Principal } from './auth.service';
+import { AuditLogService } from './audit-log.service';
+import {
+  DocumentAccess,
+  DocumentAccessService,
+  canAccessDocument,
+} from './document-access.service';
+
+interface UploadDocumentDto {
+  replace?: string;
+  chunkStrategy?: string;
+  chunkSize?: string;
+  chunkOverlap?: string;
+  // 'public' or 'restricted', and a comma-separated list of groups
+  visibility?: string;
+  groups?: string;
+}
+
+/**
+ * Uploads of any supported format. Documents go through the same ingestion
+ * jobs and document store as PDF uploads, so they are listed and deleted
+ * with the /pdf/documents endpoints. Like those, uploads can target a
+ * knowledge base by path or by X-Knowledge-Base header.
+ */
+@Controller(['documents', 'knowledge-bases/:knowledgeBaseId/documents'])
+export class DocumentsController {
+  private readonly logger = new Logger(DocumentsController.name);
+
+  constructor(
+    private readonly extractorRegistry: DocumentExtractorRegistry,
+    private readonly auditLogService: AuditLogService,
+    private readonly documentAccessService: DocumentAccessService,
+  ) {}
+
+  @Post('upload')
+  @Roles('uploader')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(FileInterceptor('file'))
+  async uploadDocument(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: UploadDocumentDto,
+    @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+    @CurrentPrincipal() principal: Principal,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<{
+    message: string;
+    format?: SourceType;
+    job?: IngestionJob;
+    document?: PdfDocument;
+    duplicate?: boolean;
+  }> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const format = this.extractorRegistry.detectFormat(
+      file.buffer,
+      file.originalname,
+      file.mimetype,
+    );
+    if (!format) {
+      throw new UnsupportedMediaTypeException(
+        `Unsupported document format: ${file.originalname}`,
+      );
+    }
+
+    let chunking: Partial<ChunkingOptions>;
+    let access: DocumentAccess;
+    try {
+      chunking = knowledgeBase.chunkingService.parseFormFields(body);
+      access = this.documentAccessService.forUpload(principal, body);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    this.logger.log(
+      `Received ${format} upload: ${file.originalname} (${file.size} bytes)`,
+    );
+
+    // Identical content is answered right away instead of queueing a job
+    const existing = await knowledgeBase.pdfService.findByContent(file.buffer);
+    if (existing) {
+      await this.auditLogService.record(
+        principal,
+        'document.upload',
+        file.originalname,
+        {
+          knowledgeBase: knowledgeBase.knowledgeBase.id,
+          details: { format, duplicateOf: existing.id },
+        },
+      );
+      res.status(HttpStatus.OK);
+      // Someone else's restricted document is not shown, only that it exists
+      if (!canAccessDocument(principal, existing.access)) {
+        return { message: 'Document was already uploaded', duplicate: true };
+      }
+      return {
+        message: 'Document was already uploaded',
+        document: {
+          ...existing,
+          textContent: existing.textContent.substring(0, 200) + '...', // Truncate for response
+        },
+        duplicate: true,
+      };
+    }
+
+    const job = knowledgeBase.ingestionJobsService.enqueue(
+      file.buffer,
+      file.originalname,
+      {
+        replace: body.replace === 'true',
+        format,
+        chunking,
+        access,
+        uploadedBy: principal,
+      },
+    );
+    await this.auditLogService.record(
+      principal,
+      'document.upload',
+      file.originalname,
+      {
+        knowledgeBase: knowledgeBase.knowledgeBase.id,
+        details: {
+          format,
+          size: file.size,
+          jobId: job.id,
+          visibility: access.visibility,
+        },
+      },
+    );
+
+    return {
+      message: 'Document queued for processing',
+      format,
+      job,
+    };
+  }
+
+  @Get('formats')
+  getSupportedFormats() {
+    return { formats: this.extractorRegistry.getSupportedFormats() };
+  }
+}
@@ -0,0 +1,29 @@
+import * as mammoth from 'mammoth';
+import { DocumentExtractor, ExtractedDocument } from './document-extractor';
+import { htmlToText } from './html.extractor';
+import { markdownSections } from './markdown.extractor';
+
+export class DocxExtractor implements DocumentExtractor {
+  readonly format = 'docx';
+  readonly extensions = ['.docx'];
+  readonly mimeTypes = [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ];
+
+  // A ZIP archive containing the main Word document part
+  sniff(buffer: Buffer): boolean {
+    return (
+      buffer.subarray(0, 4).toString('latin1') === 'PK\x03\x04' &&
+      buffer.includes('word/document.xml')
+    );
+  }
+
+  /**
+   * Converts through HTML so Word heading styles become section headings.
+   */
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const { value } = await mammoth.convertToHtml({ buffer });
+    const text = htmlToText(value);
+    return { text, sections: markdownSections(text) };
+  }
+}
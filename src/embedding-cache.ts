@@ -0,0 +1,166 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Embeddings keyed by a SHA-256 of model and text, so identical chunks are
+ * only embedded once per model. Entries live in a bounded in-memory map and,
+ * when a directory is given, in one JSON file per entry on disk. Disk
+ * entries are capped at maxDiskEntries too; the least recently used files
+ * are deleted first, going by their modification times across restarts.
+ */
+export class EmbeddingCache {
+  private readonly logger = new Logger(EmbeddingCache.name);
+  private readonly entries: Map<string, number[]> = new Map();
+  // Keys of the files on disk, least recently used first
+  private diskEntries: Map<string, true>;
+  private loading: Promise<void>;
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly directory?: string,
+    private readonly maxDiskEntries: number = Infinity,
+  ) {}
+
+  async get(model: string, text: string): Promise<number[] | undefined> {
+    const key = this.key(model, text);
+    const cached = this.entries.get(key);
+    if (cached) {
+      // Re-insert to mark the entry as recently used
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return cached;
+    }
+
+    if (!this.directory) {
+      return undefined;
+    }
+
+    await this.loadDiskIndex();
+    if (!this.diskEntries.has(key)) {
+      return undefined;
+    }
+    try {
+      const filePath = this.filePath(key);
+      const raw = await fs.promises.readFile(filePath, 'utf-8');
+      const embedding: number[] = JSON.parse(raw);
+      this.remember(key, embedding);
+      this.touchDiskEntry(key);
+      const now = new Date();
+      await fs.promises.utimes(filePath, now, now).catch(() => undefined);
+      return embedding;
+    } catch {
+      this.diskEntries.delete(key);
+      return undefined;
+    }
+  }
+
+  async set(model: string, text: string, embedding: number[]): Promise<void> {
+    const key = this.key(model, text);
+    this.remember(key, embedding);
+
+    if (!this.directory) {
+      return;
+    }
+
+    await this.loadDiskIndex();
+    try {
+      const filePath = this.filePath(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, JSON.stringify(embedding));
+      this.touchDiskEntry(key);
+    } catch (error) {
+      this.logger.warn(
+        `Could not write embedding cache entry: ${error.message}`,
+      );
+    }
+    await this.evictDiskEntries();
+  }
+
+  private remember(key: string, embedding: number[]) {
+    this.entries.set(key, embedding);
+    if (this.entries.size > this.maxEntries) {
+      // Maps iterate in insertion order, so the first key is the oldest
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  private touchDiskEntry(key: string) {
+    this.diskEntries.delete(key);
+    this.diskEntries.set(key, true);
+  }
+
+  private async evictDiskEntries(): Promise<void> {
+    while (this.diskEntries.size > this.maxDiskEntries) {
+      const oldest: string = this.diskEntries.keys().next().value;
+      this.diskEntries.delete(oldest);
+      await fs.promises.unlink(this.filePath(oldest)).catch(() => undefined);
+    }
+  }
+
+  private loadDiskIndex(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readDiskIndex();
+    }
+    return this.loading;
+  }
+
+  private async readDiskIndex(): Promise<void> {
+    this.diskEntries = new Map();
+    const files: { key: string; mtimeMs: number }[] = [];
+    try {
+      for (const prefix of await fs.promises.readdir(this.directory)) {
+        const folder = path.join(this.directory, prefix);
+        for (const name of await fs.promises.readdir(folder)) {
+          if (name.endsWith('.json')) {
+            const stat = await fs.promises.stat(path.join(folder, name));
+            files.push({
+              key: name.slice(0, -'.json'.length),
+              mtimeMs: stat.mtimeMs,
+            });
+          }
+        }
+      }
+    } catch {
+      // No cache directory yet
+    }
+    files
+      .sort((a, b) => a.mtimeMs - b.mtimeMs)
+      .forEach(({ key }) => this.diskEntries.set(key, true));
+    await this.evictDiskEntries();
+  }
+
+  private key(model: string, text: string): string {
+    return createHash('sha256').update(`${model}\0${text}`).digest('hex');
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, key.substring(0, 2), `${key}.json`);
+  }
+}
+
+export function createEmbeddingCache(
+  configService: ConfigService,
+): EmbeddingCache | undefined {
+  const mode = configService.get<string>('EMBEDDING_CACHE', 'disk');
+  if (mode === 'none') {
+    return undefined;
+  }
+
+  const maxEntries = Number(
+    configService.get('EMBEDDING_CACHE_MAX_ENTRIES', 10000),
+  );
+  const maxDiskEntries = Number(
+    configService.get('EMBEDDING_CACHE_MAX_DISK_ENTRIES', 100000),
+  );
+  const directory =
+    mode === 'disk'
+      ? configService.get<string>(
+          'EMBEDDING_CACHE_DIR',
+          path.join(process.cwd(), 'data', 'embedding-cache'),
+        )
+      : undefined;
+  return new EmbeddingCache(maxEntries, directory, maxDiskEntries);
+}
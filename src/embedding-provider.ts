@@ -0,0 +1,39 @@
+import { ConfigService } from '@nestjs/config';
+import { OllamaEmbeddingProvider } from './ollama-embedding.provider';
+import { OpenAiEmbeddingProvider } from './openai-embedding.provider';
+import { HashEmbeddingProvider } from './hash-embedding.provider';
+
+export const EMBEDDING_PROVIDER = 'EMBEDDING_PROVIDER';
+
+/**
+ * A source of embedding vectors. Providers return vectors at their native
+ * size; EmbeddingsService checks that size against the collection instead of
+ * reshaping vectors.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  getDimension(): Promise<number>;
+  embed(text: string): Promise<number[]>;
+  // Embeds several texts in one request, returning vectors in input order
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
+
+export function createEmbeddingProvider(
+  configService: ConfigService,
+): EmbeddingProvider {
+  const provider = configService.get<string>('EMBEDDING_PROVIDER', 'ollama');
+
+  switch (provider) {
+    case 'ollama':
+      return new OllamaEmbeddingProvider(configService);
+    case 'openai':
+      return new OpenAiEmbeddingProvider(configService);
+    case 'hash':
+      return new HashEmbeddingProvider(
+        Number(configService.get('HASH_EMBEDDING_DIMENSION', 384)),
+      );
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}"`);
+  }
+}
@@ -0,0 +1,104 @@
+import { EmbeddingsService } from './embeddings.service';
+import { EMBEDDING_PROVIDER } from './embedding-provider';
+import { HashEmbeddingProvider } from './hash-embedding.provider';
+import { EmbeddingCache } from './embedding-cache';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createTestingService } from '../test/create-testing-service';
+
+describe('EmbeddingsService', () => {
+  const createService = (
+    config: Record<string, string> = {},
+    provider = new HashEmbeddingProvider(384),
+  ) =>
+    createTestingService(
+      EmbeddingsService,
+      { EMBEDDING_CACHE: 'memory', ...config },
+      [{ provide: EMBEDDING_PROVIDER, useValue: provider }],
+    );
+
+  it('should use the native dimension of the provider', async () => {
+    const service = await createService();
+
+    await expect(service.getDimension()).resolves.toBe(384);
+    const embedding = await service.generateEmbedding('hello world');
+    expect(embedding).toHaveLength(384);
+  });
+
+  it('should reject a VECTOR_DIMENSION that does not match the provider', async () => {
+    const service = await createService({ VECTOR_DIMENSION: '768' });
+
+    await expect(service.getDimension()).rejects.toThrow(
+      'produces 384-dimensional vectors but VECTOR_DIMENSION is 768',
+    );
+  });
+
+  it('should ask the provider again after a failed dimension probe', async () => {
+    const provider = new HashEmbeddingProvider(384);
+    jest
+      .spyOn(provider, 'getDimension')
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+    const service = await createService({}, provider);
+
+    await expect(service.getDimension()).rejects.toThrow('ECONNREFUSED');
+    await expect(service.getDimension()).resolves.toBe(384);
+  });
+
+  it('should tag embeddings with the model that produced them', async () => {
+    const service = await createService();
+
+    const [result] = await service.generateEmbeddingsWithInfo(['hello']);
+    expect(result).toMatchObject({ model: 'hash-384', fallback: false });
+  });
+
+  it('should embed repeated texts only once', async () => {
+    const provider = new HashEmbeddingProvider(384);
+    const embedBatch = jest.spyOn(provider, 'embedBatch');
+    const service = await createService({}, provider);
+
+    const first = await service.generateEmbeddings(['a', 'b', 'a']);
+    await service.generateEmbeddings(['b', 'a']);
+
+    expect(first[0]).toEqual(first[2]);
+    expect(embedBatch).toHaveBeenCalledTimes(1);
+    expect(embedBatch).toHaveBeenCalledWith(['a', 'b']);
+  });
+
+  it('should stop embedding batches once the signal is aborted', async () => {
+    const provider = new HashEmbeddingProvider(384);
+    const embedBatch = jest.spyOn(provider, 'embedBatch');
+    const service = await createService(
+      { EMBEDDING_BATCH_SIZE: '1', EMBEDDING_CONCURRENCY: '1' },
+      provider,
+    );
+    const controller = new AbortController();
+
+    await expect(
+      service.generateEmbeddingsWithInfo(
+        ['a', 'b', 'c'],
+        () => embedBatch.mock.calls.length === 1 && controller.abort(),
+        controller.signal,
+      ),
+    ).rejects.toThrow('aborted');
+    expect(embedBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep at most the configured number of cache files', async () => {
+    const directory = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), 'embedding-cache-'),
+    );
+    // No in-memory entries, so every read goes to disk
+    const cache = new EmbeddingCache(0, directory, 2);
+
+    await cache.set('m', 'a', [1]);
+    await cache.set('m', 'b', [2]);
+    await cache.get('m', 'a');
+    await cache.set('m', 'c', [3]);
+
+    expect(await cache.get('m', 'a')).toEqual([1]);
+    expect(await cache.get('m', 'b')).toBeUndefined();
+    expect(await cache.get('m', 'c')).toEqual([3]);
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+});
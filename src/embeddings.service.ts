@@ -1,86 +1,207 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import axios from 'axios';
+import { EMBEDDING_PROVIDER, EmbeddingProvider } from './embedding-provider';
+import { HashEmbeddingProvider } from './hash-embedding.provider';
+import { EmbeddingCache, createEmbeddingCache } from './embedding-cache';
+import { ConcurrencyLimiter } from './concurrency';
+
+export interface EmbeddedText {
+  embedding: number[];
+  // Model that produced the vector, stored on the chunk as embedding_model
+  model: string;
+  fallback: boolean;
+}
+
+// Chunks tagged with this model were embedded while the provider was down
+export const FALLBACK_EMBEDDING_MODEL = 'hash-fallback';
 
 @Injectable()
-export class EmbeddingsService {
+export class EmbeddingsService implements OnModuleInit {
   private readonly logger = new Logger(EmbeddingsService.name);
-  private readonly localLlmHost: string;
-  private readonly localLlmPort: string;
-  private readonly embeddingModel: string;
-  private readonly baseUrl: string;
-
-  constructor(private configService: ConfigService) {
-    this.localLlmHost = this.configService.get<string>(
-      'LOCAL_LLM_HOST',
-      'localhost',
+  private readonly fallbackEnabled: boolean;
+  private readonly batchSize: number;
+  private readonly limiter: ConcurrencyLimiter;
+  private readonly cache: EmbeddingCache | undefined;
+  private dimension: Promise<number>;
+
+  constructor(
+    private configService: ConfigService,
+    @Inject(EMBEDDING_PROVIDER) private embeddingProvider: EmbeddingProvider,
+  ) {
+    this.fallbackEnabled =
+      this.configService.get<string>('EMBEDDING_FALLBACK', 'none') === 'hash';
+    this.batchSize = Number(this.configService.get('EMBEDDING_BATCH_SIZE', 32));
+    this.limiter = new ConcurrencyLimiter(
+      Number(this.configService.get('EMBEDDING_CONCURRENCY', 2)),
+      Number(this.configService.get('EMBEDDING_REQUESTS_PER_SECOND', 0)),
     );
-    this.localLlmPort = this.configService.get<string>(
-      'LOCAL_LLM_PORT',
-      '11434',
+    this.cache = createEmbeddingCache(this.configService);
+  }
+
+  async onModuleInit() {
+    const dimension = await this.getDimension();
+    this.logger.log(
+      `Using ${this.embeddingProvider.name} embeddings (${this.embeddingProvider.model}, ${dimension} dimensions)`,
     );
-    // Use a proper embedding model instead of text generation model
-    this.embeddingModel = this.configService.get<string>(
-      'EMBEDDING_MODEL',
-      'nomic-embed-text:latest',
+    if (this.fallbackEnabled) {
+      this.logger.warn(
+        `EMBEDDING_FALLBACK=hash: chunks will get non-semantic hash vectors tagged '${FALLBACK_EMBEDDING_MODEL}' when the provider fails`,
+      );
+    }
+  }
+
+  // Model the provider embeds with, which chunks are tagged with
+  get model(): string {
+    return this.embeddingProvider.model;
+  }
+
+  /**
+   * The vector size every embedding must have. Taken from the provider and
+   * checked against VECTOR_DIMENSION when that is set; a mismatch fails
+   * startup rather than reshaping vectors.
+   */
+  getDimension(): Promise<number> {
+    if (!this.dimension) {
+      // Forget a failed probe so the next call asks the provider again
+      this.dimension = this.resolveDimension().catch((error) => {
+        this.dimension = undefined;
+        throw error;
+      });
+    }
+    return this.dimension;
+  }
+
+  private async resolveDimension(): Promise<number> {
+    const configured = this.configService.get('VECTOR_DIMENSION');
+    const expected = configured ? Number(configured) : undefined;
+
+    let native: number;
+    try {
+      native = await this.embeddingProvider.getDimension();
+    } catch (error) {
+      if (expected) {
+        this.logger.warn(
+          `Could not read the native dimension of ${this.embeddingProvider.model} (${error.message}); assuming VECTOR_DIMENSION=${expected}`,
+        );
+        return expected;
+      }
+      throw new Error(
+        `Could not determine embedding dimension for ${this.embeddingProvider.model} and VECTOR_DIMENSION is not set: ${error.message}`,
+      );
+    }
+
+    if (expected && expected !== native) {
+      throw new Error(
+        `Embedding model ${this.embeddingProvider.model} produces ${native}-dimensional vectors but VECTOR_DIMENSION is ${expected}`,
+      );
+    }
+    return native;
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [result] = await this.generateEmbeddingsWithInfo([text]);
+    return result.embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    return (await this.generateEmbeddingsWithInfo(texts)).map(
+      (result) => result.embedding,
     );
-    this.baseUrl = `http://${this.localLlmHost}:${this.localLlmPort}`;
   }
 
-  async generateEmbedding(
-    text: string,
-    retries: number = 3,
-  ): Promise<number[]> {
-    for (let attempt = 1; attempt <= retries; attempt++) {
-      try {
-        // Try using dedicated embedding model first
-        try {
-          this.logger.log(
-            `Generating embedding using embedding model (attempt ${attempt}) for text: "${text.substring(0, 50)}..."`,
-          );
+  /**
+   * Embeds texts in provider batches, skipping any text already in the
+   * cache. Batches run through the limiter, so EMBEDDING_CONCURRENCY and
+   * EMBEDDING_REQUESTS_PER_SECOND bound the load on the provider.
+   * `onProgress` receives the number of input texts embedded so far;
+   * aborting `signal` stops before the next batch or retry.
+   */
+  async generateEmbeddingsWithInfo(
+    texts: string[],
+    onProgress?: (embedded: number) => void,
+    signal?: AbortSignal,
+  ): Promise<EmbeddedText[]> {
+    const model = this.embeddingProvider.model;
+    const results = new Map<string, EmbeddedText>();
+
+    for (const text of new Set(texts)) {
+      const cached = await this.cache?.get(model, text);
+      if (cached) {
+        results.set(text, { embedding: cached, model, fallback: false });
+      }
+    }
 
-          const response = await axios.post(
-            `${this.baseUrl}/api/embeddings`,
-            {
-              model: this.embeddingModel,
-              prompt: text,
-            },
-            {
-              timeout: 30000,
-              headers: {
-                'Content-Type': 'application/json',
-              },
-            },
-          );
+    const missing = Array.from(new Set(texts)).filter(
+      (text) => !results.has(text),
+    );
+    this.logger.log(
+      `Embedding ${missing.length} texts (${texts.length - missing.length} from cache) with ${model}`,
+    );
+    const reportProgress = () =>
+      onProgress?.(texts.filter((text) => results.has(text)).length);
+    reportProgress();
+
+    const batches: string[][] = [];
+    for (let i = 0; i < missing.length; i += this.batchSize) {
+      batches.push(missing.slice(i, i + this.batchSize));
+    }
 
-          if (response.data?.embedding) {
-            this.logger.log('Successfully generated embedding using dedicated model');
-            let embedding = response.data.embedding;
-
-            // Ensure we have exactly 384 dimensions
-            if (embedding.length > 384) {
-              embedding = embedding.slice(0, 384);
-            } else if (embedding.length < 384) {
-              // Pad with zeros if needed
-              while (embedding.length < 384) {
-                embedding.push(0);
+    try {
+      await Promise.all(
+        batches.map((batch) =>
+          this.limiter.run(async () => {
+            signal?.throwIfAborted();
+            const embedded = await this.embedBatchWithRetry(batch, signal);
+            for (let i = 0; i < batch.length; i++) {
+              results.set(batch[i], embedded[i]);
+              if (!embedded[i].fallback) {
+                await this.cache?.set(model, batch[i], embedded[i].embedding);
               }
             }
+            reportProgress();
+          }),
+        ),
+      );
+    } catch (error) {
+      this.logger.error('Error generating batch embeddings:', error.message);
+      throw error;
+    }
 
-            return embedding;
+    return texts.map((text) => results.get(text));
+  }
+
+  private async embedBatchWithRetry(
+    texts: string[],
+    signal?: AbortSignal,
+    retries: number = 3,
+  ): Promise<EmbeddedText[]> {
+    const dimension = await this.getDimension();
+
+    for (let attempt = 1; attempt <= retries; attempt++) {
+      signal?.throwIfAborted();
+      try {
+        this.logger.log(
+          `Generating ${texts.length} embeddings with ${this.embeddingProvider.model} (attempt ${attempt})`,
+        );
+
+        const embeddings = await this.embeddingProvider.embedBatch(texts);
+        for (const embedding of embeddings) {
+          if (embedding.length !== dimension) {
+            throw new Error(
+              `Expected a ${dimension}-dimensional embedding but got ${embedding.length}`,
+            );
           }
-        } catch (embeddingError) {
-          this.logger.warn(
-            `Dedicated embedding model not available: ${embeddingError.message}`,
-          );
         }
 
-        // Fallback: Use simple hash-based embedding
-        this.logger.log('Using fallback simple embedding for consistent results');
-        return this.generateSimpleEmbedding(text);
+        return embeddings.map((embedding) => ({
+          embedding,
+          model: this.embeddingProvider.model,
+          fallback: false,
+        }));
       } catch (error) {
+        signal?.throwIfAborted();
         this.logger.error(
-          `Error generating embedding (attempt ${attempt}/${retries}):`,
+          `Error generating embeddings (attempt ${attempt}/${retries}):`,
           error.message,
         );
 
@@ -91,63 +212,20 @@ export class EmbeddingsService {
           continue;
         }
 
-        throw new Error(`Failed to generate embedding: ${error.message}`);
-      }
-    }
-  }
-
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
-    const embeddings: number[][] = [];
-    const batchSize = 5;
-
-    for (let i = 0; i < texts.length; i += batchSize) {
-      const batch = texts.slice(i, i + batchSize);
-      const batchPromises = batch.map((text) => this.generateEmbedding(text));
-
-      try {
-        const batchEmbeddings = await Promise.all(batchPromises);
-        embeddings.push(...batchEmbeddings);
-
-        // Add delay between batches
-        if (i + batchSize < texts.length) {
-          await new Promise((resolve) => setTimeout(resolve, 1000));
+        if (this.fallbackEnabled) {
+          this.logger.warn(
+            `Embedding provider failed; using hash fallback tagged '${FALLBACK_EMBEDDING_MODEL}' for ${texts.length} texts`,
+          );
+          const fallback = new HashEmbeddingProvider(dimension);
+          return (await fallback.embedBatch(texts)).map((embedding) => ({
+            embedding,
+            model: FALLBACK_EMBEDDING_MODEL,
+            fallback: true,
+          }));
         }
-      } catch (error) {
-        this.logger.error('Error generating batch embeddings:', error.message);
-        throw error;
-      }
-    }
 
-    return embeddings;
-  }
-
-  private generateSimpleEmbedding(text: string): number[] {
-    // Simple hash-based embedding for development/testing
-    // This creates a consistent 384-dimensional vector based on text content
-    const hash = this.simpleHash(text);
-    const embedding = new Array(384).fill(0);
-
-    // Use hash to seed pseudo-random values
-    let seed = hash;
-    for (let i = 0; i < 384; i++) {
-      seed = (seed * 9301 + 49297) % 233280;
-      embedding[i] = (seed / 233280) * 2 - 1; // Normalize to [-1, 1]
-    }
-
-    // Normalize the vector
-    const magnitude = Math.sqrt(
-      embedding.reduce((sum, val) => sum + val * val, 0),
-    );
-    return embedding.map((val) => val / magnitude);
-  }
-
-  private simpleHash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32-bit integer
+        throw new Error(`Failed to generate embedding: ${error.message}`);
+      }
     }
-    return Math.abs(hash);
   }
 }
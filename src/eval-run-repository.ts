@@ -0,0 +1,114 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import type { EvalRun } from './evaluation.service';
+import { JsonFileStore } from './json-file-store';
+
+export const EVAL_RUN_REPOSITORY = 'EVAL_RUN_REPOSITORY';
+
+/**
+ * Storage for the history of evaluation runs, so runs made with different
+ * settings can be compared.
+ */
+export interface EvalRunRepository {
+  findAll(): Promise<EvalRun[]>;
+  findById(id: string): Promise<EvalRun | undefined>;
+  save(run: EvalRun): Promise<void>;
+}
+
+export class InMemoryEvalRunRepository implements EvalRunRepository {
+  private readonly runs: Map<string, EvalRun> = new Map();
+
+  async findAll(): Promise<EvalRun[]> {
+    return Array.from(this.runs.values());
+  }
+
+  async findById(id: string): Promise<EvalRun | undefined> {
+    return this.runs.get(id);
+  }
+
+  async save(run: EvalRun): Promise<void> {
+    this.runs.set(run.id, run);
+  }
+}
+
+/**
+ * Keeps evaluation runs in memory and writes the whole history to a JSON
+ * file after every run, like FileConversationRepository.
+ */
+export class FileEvalRunRepository implements EvalRunRepository {
+  private readonly logger = new Logger(FileEvalRunRepository.name);
+  private runs: Map<string, EvalRun>;
+  private loading: Promise<void>;
+  private readonly store: JsonFileStore<EvalRun[]>;
+
+  constructor(private readonly filePath: string) {
+    this.store = new JsonFileStore(filePath, 2);
+  }
+
+  async findAll(): Promise<EvalRun[]> {
+    await this.load();
+    return Array.from(this.runs.values());
+  }
+
+  async findById(id: string): Promise<EvalRun | undefined> {
+    await this.load();
+    return this.runs.get(id);
+  }
+
+  async save(run: EvalRun): Promise<void> {
+    await this.load();
+    this.runs.set(run.id, run);
+    await this.persist();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    this.runs = new Map();
+
+    if (!this.store.exists()) {
+      this.logger.log(`No evaluation history found at ${this.filePath}`);
+      return;
+    }
+
+    const records = (await this.store.read()) ?? [];
+
+    for (const record of records) {
+      this.runs.set(record.id, {
+        ...record,
+        startedAt: new Date(record.startedAt),
+        finishedAt: new Date(record.finishedAt),
+      });
+    }
+
+    this.logger.log(
+      `Loaded ${this.runs.size} evaluation runs from ${this.filePath}`,
+    );
+  }
+
+  private persist(): Promise<void> {
+    return this.store.write(Array.from(this.runs.values()));
+  }
+}
+
+export function createEvalRunRepository(
+  configService: ConfigService,
+): EvalRunRepository {
+  const store = configService.get<string>('EVAL_STORE', 'file');
+
+  if (store === 'memory') {
+    return new InMemoryEvalRunRepository();
+  }
+
+  const filePath = configService.get<string>(
+    'EVAL_STORE_PATH',
+    path.join(process.cwd(), 'data', 'eval-runs.json'),
+  );
+  return new FileEvalRunRepository(filePath);
+}
@@ -0,0 +1,111 @@
+import { NestFactory } from '@nestjs/core';
+import * as fs from 'fs';
+import { AppModule } from './app.module';
+import { KnowledgeBasesService } from './knowledge-bases.service';
+import {
+  EvalCase,
+  EvaluationService,
+  parseEvalSet,
+} from './evaluation.service';
+
+const USAGE =
+  'Usage: yarn eval <set name or .jsonl file> [--knowledge-base <id>] [--name <label>] [--top-k <n>] [--template <name>] [--compare <run id>]';
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, string> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      if (i + 1 >= argv.length) {
+        throw new Error(`${argv[i]} needs a value`);
+      }
+      options[argv[i].substring(2)] = argv[++i];
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+  if (positional.length !== 1) {
+    throw new Error(USAGE);
+  }
+  return { set: positional[0], options };
+}
+
+const format = (value: number | null) =>
+  value === null ? '-' : value.toFixed(3);
+
+/**
+ * Runs a golden set from the command line, prints the summary, and saves the
+ * run to the same history as POST /eval.
+ */
+async function bootstrap() {
+  const { set, options } = parseArgs(process.argv.slice(2));
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+
+  try {
+    const evaluationService = app.get(EvaluationService);
+    const knowledgeBaseId = options['knowledge-base'] ?? 'default';
+    const knowledgeBase = await app
+      .get(KnowledgeBasesService)
+      .resolve(knowledgeBaseId);
+    if (!knowledgeBase) {
+      throw new Error(`Knowledge base ${knowledgeBaseId} not found`);
+    }
+
+    // A path is read as is; a bare name is looked up in EVAL_SETS_DIR
+    const cases: EvalCase[] = fs.existsSync(set)
+      ? parseEvalSet(fs.readFileSync(set, 'utf-8'))
+      : await evaluationService.loadSet(set);
+    const topK = options['top-k'] ? Number(options['top-k']) : undefined;
+    if (topK !== undefined && (!Number.isInteger(topK) || topK < 1)) {
+      throw new Error('--top-k must be a positive integer');
+    }
+
+    const run = await evaluationService.run(knowledgeBase, cases, {
+      name: options.name,
+      set,
+      topK,
+      template: options.template,
+    });
+
+    const { summary, settings } = run;
+    console.log(`Run ${run.id} (${run.name})`);
+    console.log(
+      `Knowledge base ${settings.knowledgeBase}, ${settings.retrievalMode} retrieval, top ${settings.topK}, reranker ${settings.reranker}, template ${settings.template}`,
+    );
+    for (const result of run.results) {
+      console.log(
+        `  ${result.id}: ${result.error ? `failed: ${result.error}` : `recall ${format(result.recallAtK)}, RR ${format(result.reciprocalRank)}, overlap ${format(result.answerOverlap)}, faithfulness ${format(result.faithfulness)}, ${result.latencyMs} ms`}`,
+      );
+    }
+    console.log(
+      `recall@${settings.topK} ${format(summary.recallAtK)}, MRR ${format(summary.mrr)}, answer overlap ${format(summary.answerOverlap)}, faithfulness ${format(summary.faithfulness)}`,
+    );
+    console.log(
+      `latency mean ${summary.latency.meanMs} ms, p50 ${summary.latency.p50Ms} ms, p95 ${summary.latency.p95Ms} ms; ${summary.failed} of ${summary.cases} failed`,
+    );
+
+    if (options.compare) {
+      const comparison = await evaluationService.compare(
+        options.compare,
+        run.id,
+      );
+      if (!comparison) {
+        throw new Error(`Evaluation run ${options.compare} not found`);
+      }
+      const delta = (value: number | null) =>
+        value === null ? '-' : `${value >= 0 ? '+' : ''}${value.toFixed(3)}`;
+      console.log(
+        `Compared with ${options.compare}: recall ${delta(comparison.summary.recallAtK)}, MRR ${delta(comparison.summary.mrr)}, answer overlap ${delta(comparison.summary.answerOverlap)}, faithfulness ${delta(comparison.summary.faithfulness)}, p50 latency ${comparison.summary.latencyP50Ms >= 0 ? '+' : ''}${comparison.summary.latencyP50Ms} ms`,
+      );
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+bootstrap().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
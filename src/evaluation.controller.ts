@@ -0,0 +1,116 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+} from '@nestjs/common';
+import {
+  EvalCase,
+  EvaluationService,
+  parseEvalCase,
+} from './evaluation.service';
+import { parseGenerationOverrides } from './prompt-templates.service';
+import { GenerationOptions } from './llm-provider';
+import { KnowledgeBaseContext } from './knowledge-bases.service';
+import { CurrentKnowledgeBase } from './knowledge-base.decorator';
+import { Roles } from './auth.decorator';
+
+export class EvalRunDto {
+  // Name of a golden set in EVAL_SETS_DIR, or the cases themselves
+  set?: string;
+  cases?: Record<string, unknown>[];
+  name?: string;
+  topK?: number;
+  template?: string;
+  generation?: Record<string, unknown>;
+}
+
+/**
+ * Runs golden question sets against a knowledge base and keeps the results,
+ * so retrieval and prompt changes can be compared run by run. Runs answer
+ * every question before responding; use `yarn eval` for large sets. Runs
+ * see every document, whatever its access, so their results are for admins
+ * only.
+ */
+@Controller()
+export class EvaluationController {
+  constructor(private readonly evaluationService: EvaluationService) {}
+
+  @Get('eval/sets')
+  async listSets() {
+    return { sets: await this.evaluationService.listSets() };
+  }
+
+  @Post(['eval', 'knowledge-bases/:knowledgeBaseId/eval'])
+  @Roles('admin')
+  async run(
+    @Body() body: EvalRunDto,
+    @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+  ) {
+    const inline = Array.isArray(body.cases) && body.cases.length > 0;
+    let cases: EvalCase[];
+    let topK: number | undefined;
+    let generation: GenerationOptions | undefined;
+    try {
+      if (inline) {
+        cases = body.cases.map((raw, index) => parseEvalCase(raw, index + 1));
+      } else if (typeof body.set === 'string' && body.set) {
+        cases = await this.evaluationService.loadSet(body.set);
+      } else {
+        throw new Error('Either set or cases is required');
+      }
+      if (body.topK !== undefined) {
+        topK = Number(body.topK);
+        if (!Number.isInteger(topK) || topK < 1) {
+          throw new Error('topK must be a positive integer');
+        }
+      }
+      generation = parseGenerationOverrides(body.generation);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    try {
+      return await this.evaluationService.run(knowledgeBase, cases, {
+        name: body.name,
+        set: inline ? 'inline' : body.set,
+        topK,
+        template: body.template,
+        generation,
+      });
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  @Get('eval/runs')
+  @Roles('admin')
+  async listRuns() {
+    return { runs: await this.evaluationService.listRuns() };
+  }
+
+  @Get('eval/runs/:id')
+  @Roles('admin')
+  async getRun(@Param('id') id: string) {
+    const run = await this.evaluationService.getRun(id);
+    if (!run) {
+      throw new NotFoundException(`Evaluation run ${id} not found`);
+    }
+    return run;
+  }
+
+  @Get('eval/runs/:id/compare/:otherId')
+  @Roles('admin')
+  async compare(@Param('id') id: string, @Param('otherId') otherId: string) {
+    const comparison = await this.evaluationService.compare(id, otherId);
+    if (!comparison) {
+      throw new NotFoundException(
+        `Evaluation run ${id} or ${otherId} not found`,
+      );
+    }
+    return comparison;
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  EvaluationService,
+  answerOverlap,
+  parseEvalSet,
+  recallAtK,
+  reciprocalRank,
+} from './evaluation.service';
+import {
+  EVAL_RUN_REPOSITORY,
+  InMemoryEvalRunRepository,
+} from './eval-run-repository';
+import { SourceChunk } from './ai-query.service';
+import { KnowledgeBaseContext } from './knowledge-bases.service';
+import { PromptTemplatesService } from './prompt-templates.service';
+import { RerankingService } from './reranking.service';
+import { createTestingService } from '../test/create-testing-service';
+
+describe('EvaluationService', () => {
+  const source = (documentId: string, chunk = 0): SourceChunk => ({
+    index: chunk + 1,
+    chunkId: `${documentId}_chunk_${chunk}`,
+    documentId,
+    filename: `${documentId}.pdf`,
+    sourceType: 'pdf',
+    pageNumber: 1,
+    pageEnd: 1,
+    score: 1,
+    rerankScore: null,
+    snippet: '',
+  });
+
+  it('should parse golden sets and report the line of invalid cases', () => {
+    const cases = parseEvalSet(
+      [
+        '// comment',
+        '{"question": "What is the refund period?", "expectedDocuments": ["policy.pdf"]}',
+        '',
+        '{"id": "q2", "question": "Who approves leave?", "referenceAnswer": "The manager."}',
+      ].join('\n'),
+    );
+
+    expect(cases).toEqual([
+      expect.objectContaining({
+        id: '2',
+        expectedDocuments: ['policy.pdf'],
+        expectedChunks: [],
+      }),
+      expect.objectContaining({ id: 'q2', referenceAnswer: 'The manager.' }),
+    ]);
+    expect(() => parseEvalSet('{"question": "ok"}\n{"expected": 1}')).toThrow(
+      'Line 2: question is required',
+    );
+    expect(() =>
+      parseEvalSet('{"question": "ok", "expectedChunks": "doc_a_chunk_0"}'),
+    ).toThrow('Line 1: expectedChunks must be a list of strings');
+  });
+
+  it('should score retrieval and answers', () => {
+    const evalCase = parseEvalSet(
+      '{"question": "q", "expectedDocuments": ["doc_b.pdf"], "expectedChunks": ["doc_c_chunk_2"]}',
+    )[0];
+    const sources = [source('doc_a'), source('doc_b'), source('doc_b', 1)];
+
+    expect(recallAtK(sources, evalCase)).toBe(0.5);
+    expect(reciprocalRank(sources, evalCase)).toBe(0.5);
+    expect(reciprocalRank([source('doc_a')], evalCase)).toBe(0);
+    expect(
+      answerOverlap(
+        'The refund period is 30 days.',
+        'Refunds are possible within 30 days.',
+      ),
+    ).toBeCloseTo(4 / 9);
+  });
+
+  it('should run each case through the query pipeline and compare runs', async () => {
+    const service = await createTestingService(EvaluationService, {}, [
+      { provide: RerankingService, useValue: { rerankerName: 'none' } },
+      {
+        provide: PromptTemplatesService,
+        useValue: { get: () => ({ name: 'default' }) },
+      },
+      { provide: EVAL_RUN_REPOSITORY, useClass: InMemoryEvalRunRepository },
+    ]);
+    const queryWithContext = jest
+      .fn()
+      .mockResolvedValueOnce({
+        answer: 'Refunds take 30 days.',
+        sources: [source('doc_a'), source('doc_b')],
+        contextText: 'Refunds take 30 days.',
+      })
+      .mockRejectedValueOnce(new Error('Failed to process query: timeout'))
+      .mockResolvedValueOnce({
+        answer: 'Refunds take 30 days.',
+        sources: [source('doc_b')],
+        contextText: 'Refunds take 14 days.',
+      })
+      .mockResolvedValueOnce({
+        answer: 'Unknown.',
+        sources: [],
+        contextText: '',
+      });
+    const knowledgeBase = {
+      knowledgeBase: {
+        id: 'default',
+        embeddingModel: 'test',
+        chunking: { strategy: 'sentence', chunkSize: 500, chunkOverlap: 50 },
+      },
+      retrievalService: { mode: 'hybrid', topK: 5 },
+      aiQueryService: { queryWithContext, llmProviderName: 'mock' },
+    } as unknown as KnowledgeBaseContext;
+    const cases = parseEvalSet(
+      [
+        '{"id": "refunds", "question": "How long do refunds take?", "expectedDocuments": ["doc_b"], "referenceAnswer": "Refunds take 30 days."}',
+        '{"id": "leave", "question": "Who approves leave?", "expectedDocuments": ["doc_c"]}',
+      ].join('\n'),
+    );
+
+    const base = await service.run(knowledgeBase, cases, { topK: 3 });
+
+    expect(queryWithContext).toHaveBeenCalledWith(
+      'How long do refunds take?',
+      expect.objectContaining({ topK: 3, includeContext: true }),
+    );
+    expect(base.results[0]).toMatchObject({
+      recallAtK: 1,
+      reciprocalRank: 0.5,
+      answerOverlap: 1,
+      faithfulness: 1,
+    });
+    expect(base.results[1]).toMatchObject({
+      answer: null,
+      error: 'Failed to process query: timeout',
+    });
+    expect(base.summary).toMatchObject({
+      cases: 2,
+      failed: 1,
+      recallAtK: 1,
+      mrr: 0.5,
+    });
+    expect(base.settings).toMatchObject({ topK: 3, retrievalMode: 'hybrid' });
+
+    const candidate = await service.run(knowledgeBase, cases);
+    const comparison = await service.compare(base.id, candidate.id);
+
+    expect(comparison.summary).toMatchObject({ recallAtK: -0.5, mrr: 0 });
+    expect(comparison.cases[0]).toMatchObject({
+      id: 'refunds',
+      reciprocalRank: 0.5,
+    });
+    expect((await service.listRuns()).map((run) => run.id)).toEqual(
+      expect.arrayContaining([base.id, candidate.id]),
+    );
+    expect(await service.compare(base.id, 'missing')).toBeUndefined();
+  });
+});
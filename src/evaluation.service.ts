@@ -0,0 +1,546 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SourceChunk } from './ai-query.service';
+import { ChunkingOptions } from './chunking.service';
+import { EVAL_RUN_REPOSITORY, EvalRunRepository } from './eval-run-repository';
+import { tokenize } from './keyword-index.service';
+import { KnowledgeBaseContext } from './knowledge-bases.service';
+import { STOPWORDS } from './lexical.reranker';
+import { GenerationOptions } from './llm-provider';
+import { PromptTemplatesService } from './prompt-templates.service';
+import { RerankingService } from './reranking.service';
+import { RetrievalMode } from './retrieval.service';
+import { SearchFilter, parseSearchFilter } from './search-filter';
+
+const SET_NAME = /^[\w-]+$/;
+
+/**
+ * One question of a golden set. Expected documents match a source by
+ * document id or filename, expected chunks by chunk id.
+ */
+export interface EvalCase {
+  id: string;
+  question: string;
+  expectedDocuments: string[];
+  expectedChunks: string[];
+  referenceAnswer?: string;
+  filter?: SearchFilter;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  question: string;
+  answer: string | null;
+  error?: string;
+  // The sources the answer was generated from, in ranked order
+  retrieved: { chunkId: string | null; documentId: string; filename: string }[];
+  // Null where the case has nothing to compare against
+  recallAtK: number | null;
+  reciprocalRank: number | null;
+  answerOverlap: number | null;
+  faithfulness: number | null;
+  latencyMs: number;
+}
+
+export interface EvalSettings {
+  knowledgeBase: string;
+  embeddingModel: string;
+  chunking: ChunkingOptions;
+  retrievalMode: RetrievalMode;
+  topK: number;
+  reranker: string;
+  llmProvider: string;
+  template: string;
+  generation?: GenerationOptions;
+}
+
+export interface EvalSummary {
+  cases: number;
+  failed: number;
+  // Means over the cases each metric applies to, null if none
+  recallAtK: number | null;
+  mrr: number | null;
+  answerOverlap: number | null;
+  faithfulness: number | null;
+  latency: { meanMs: number; p50Ms: number; p95Ms: number };
+}
+
+export interface EvalRun {
+  id: string;
+  name: string;
+  set: string;
+  startedAt: Date;
+  finishedAt: Date;
+  settings: EvalSettings;
+  summary: EvalSummary;
+  results: EvalCaseResult[];
+}
+
+export interface EvalRunOptions {
+  // Label for the run in the history
+  name?: string;
+  // Name of the golden set, or where the cases came from
+  set?: string;
+  topK?: number;
+  template?: string;
+  generation?: GenerationOptions;
+}
+
+/**
+ * Validates one line of a golden set. `id` defaults to the line number.
+ */
+export function parseEvalCase(raw: unknown, line: number): EvalCase {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Line ${line}: expected a JSON object`);
+  }
+  const input = raw as Record<string, unknown>;
+  if (typeof input.question !== 'string' || !input.question.trim()) {
+    throw new Error(`Line ${line}: question is required`);
+  }
+
+  const list = (key: string): string[] => {
+    const value = input[key];
+    if (value === undefined || value === null) {
+      return [];
+    }
+    if (
+      !Array.isArray(value) ||
+      value.some((item) => typeof item !== 'string' || !item)
+    ) {
+      throw new Error(`Line ${line}: ${key} must be a list of strings`);
+    }
+    return value as string[];
+  };
+  if (
+    input.referenceAnswer !== undefined &&
+    typeof input.referenceAnswer !== 'string'
+  ) {
+    throw new Error(`Line ${line}: referenceAnswer must be a string`);
+  }
+
+  let filter: SearchFilter | undefined;
+  try {
+    filter = parseSearchFilter(input.filter);
+  } catch (error) {
+    throw new Error(`Line ${line}: ${error.message}`);
+  }
+
+  return {
+    id: input.id !== undefined ? String(input.id) : String(line),
+    question: input.question.trim(),
+    expectedDocuments: list('expectedDocuments'),
+    expectedChunks: list('expectedChunks'),
+    referenceAnswer: input.referenceAnswer as string | undefined,
+    filter,
+  };
+}
+
+/**
+ * Parses a golden set in JSONL form, one case per line. Blank lines and
+ * lines starting with `//` are skipped.
+ */
+export function parseEvalSet(content: string): EvalCase[] {
+  const cases: EvalCase[] = [];
+  content.split(/\r?\n/).forEach((text, index) => {
+    const trimmed = text.trim();
+    if (!trimmed || trimmed.startsWith('//')) {
+      return;
+    }
+    let raw: unknown;
+    try {
+      raw = JSON.parse(trimmed);
+    } catch {
+      throw new Error(`Line ${index + 1}: invalid JSON`);
+    }
+    cases.push(parseEvalCase(raw, index + 1));
+  });
+  if (cases.length === 0) {
+    throw new Error('The evaluation set has no questions');
+  }
+  return cases;
+}
+
+function isRelevant(source: SourceChunk, evalCase: EvalCase): boolean {
+  return (
+    evalCase.expectedDocuments.includes(source.documentId) ||
+    evalCase.expectedDocuments.includes(source.filename) ||
+    (source.chunkId !== null &&
+      evalCase.expectedChunks.includes(source.chunkId))
+  );
+}
+
+/**
+ * Share of the expected documents and chunks found among the sources.
+ */
+export function recallAtK(
+  sources: SourceChunk[],
+  evalCase: EvalCase,
+): number | null {
+  const expected = [
+    ...evalCase.expectedDocuments.map(
+      (item) => (source: SourceChunk) =>
+        source.documentId === item || source.filename === item,
+    ),
+    ...evalCase.expectedChunks.map(
+      (item) => (source: SourceChunk) => source.chunkId === item,
+    ),
+  ];
+  if (expected.length === 0) {
+    return null;
+  }
+  const found = expected.filter((matches) => sources.some(matches));
+  return found.length / expected.length;
+}
+
+/**
+ * 1/rank of the first relevant source, 0 if none of them is relevant.
+ */
+export function reciprocalRank(
+  sources: SourceChunk[],
+  evalCase: EvalCase,
+): number | null {
+  if (!evalCase.expectedDocuments.length && !evalCase.expectedChunks.length) {
+    return null;
+  }
+  const rank = sources.findIndex((source) => isRelevant(source, evalCase));
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+function contentTerms(text: string): string[] {
+  return tokenize(text).filter((term) => !STOPWORDS.has(term));
+}
+
+/**
+ * Token F1 between the answer and the reference answer, ignoring stopwords.
+ */
+export function answerOverlap(answer: string, reference: string): number {
+  const answerTerms = contentTerms(answer);
+  const referenceCounts = new Map<string, number>();
+  for (const term of contentTerms(reference)) {
+    referenceCounts.set(term, (referenceCounts.get(term) || 0) + 1);
+  }
+  const referenceLength = Array.from(referenceCounts.values()).reduce(
+    (sum, count) => sum + count,
+    0,
+  );
+  if (answerTerms.length === 0 || referenceLength === 0) {
+    return 0;
+  }
+
+  let common = 0;
+  for (const term of answerTerms) {
+    const count = referenceCounts.get(term);
+    if (count) {
+      common++;
+      referenceCounts.set(term, count - 1);
+    }
+  }
+  if (common === 0) {
+    return 0;
+  }
+  const precision = common / answerTerms.length;
+  const recall = common / referenceLength;
+  return (2 * precision * recall) / (precision + recall);
+}
+
+/**
+ * Share of the answer's content terms that occur in the context it was
+ * generated from. A lexical proxy: low values point at answers that bring
+ * in material the sources do not contain.
+ */
+export function faithfulness(answer: string, context: string): number | null {
+  const answerTerms = contentTerms(answer);
+  if (answerTerms.length === 0) {
+    return null;
+  }
+  const contextTerms = new Set(contentTerms(context));
+  return (
+    answerTerms.filter((term) => contextTerms.has(term)).length /
+    answerTerms.length
+  );
+}
+
+function mean(values: number[]): number | null {
+  return values.length
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+}
+
+function percentile(values: number[], fraction: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[
+    Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)
+  ];
+}
+
+function summarize(results: EvalCaseResult[]): EvalSummary {
+  const metric = (key: keyof EvalCaseResult) =>
+    mean(
+      results
+        .filter((result) => !result.error && result[key] !== null)
+        .map((result) => result[key] as number),
+    );
+  const latencies = results.map((result) => result.latencyMs);
+  return {
+    cases: results.length,
+    failed: results.filter((result) => result.error).length,
+    recallAtK: metric('recallAtK'),
+    mrr: metric('reciprocalRank'),
+    answerOverlap: metric('answerOverlap'),
+    faithfulness: metric('faithfulness'),
+    latency: {
+      meanMs: Math.round(mean(latencies) ?? 0),
+      p50Ms: percentile(latencies, 0.5),
+      p95Ms: percentile(latencies, 0.95),
+    },
+  };
+}
+
+/**
+ * Runs golden question sets through a knowledge base's query pipeline (the
+ * same AiQueryService.queryWithContext call as POST /query) and scores
+ * retrieval with recall@k and MRR, and answers by their overlap with the
+ * reference answer and with the retrieved context. Runs are kept with the
+ * settings they were made with, so a change to chunking, retrieval or the
+ * prompt can be compared with an earlier run.
+ */
+@Injectable()
+export class EvaluationService {
+  private readonly logger = new Logger(EvaluationService.name);
+  private readonly setsDir: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly rerankingService: RerankingService,
+    private readonly promptTemplatesService: PromptTemplatesService,
+    @Inject(EVAL_RUN_REPOSITORY)
+    private readonly repository: EvalRunRepository,
+  ) {
+    this.setsDir = this.configService.get<string>(
+      'EVAL_SETS_DIR',
+      path.join(process.cwd(), 'eval'),
+    );
+  }
+
+  /**
+   * Names of the golden sets in EVAL_SETS_DIR, without the .jsonl extension.
+   */
+  async listSets(): Promise<string[]> {
+    if (!fs.existsSync(this.setsDir)) {
+      return [];
+    }
+    const files = await fs.promises.readdir(this.setsDir);
+    return files
+      .filter((file) => file.endsWith('.jsonl'))
+      .map((file) => file.slice(0, -'.jsonl'.length))
+      .sort();
+  }
+
+  async loadSet(name: string): Promise<EvalCase[]> {
+    if (!SET_NAME.test(name)) {
+      throw new Error(`Invalid evaluation set name "${name}"`);
+    }
+    const filePath = path.join(this.setsDir, `${name}.jsonl`);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Evaluation set "${name}" not found`);
+    }
+    try {
+      return parseEvalSet(await fs.promises.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Evaluation set "${name}": ${error.message}`);
+    }
+  }
+
+  /**
+   * Answers the cases one at a time, so latencies are not skewed by
+   * concurrent requests, and saves the run to the history. A failing case
+   * is recorded with its error rather than ending the run.
+   */
+  async run(
+    knowledgeBase: KnowledgeBaseContext,
+    cases: EvalCase[],
+    options: EvalRunOptions = {},
+  ): Promise<EvalRun> {
+    // Fail on an unknown template before running any case
+    const template = this.promptTemplatesService.get(options.template);
+    const settings: EvalSettings = {
+      knowledgeBase: knowledgeBase.knowledgeBase.id,
+      embeddingModel: knowledgeBase.knowledgeBase.embeddingModel,
+      chunking: knowledgeBase.knowledgeBase.chunking,
+      retrievalMode: knowledgeBase.retrievalService.mode,
+      topK: options.topK ?? knowledgeBase.retrievalService.topK,
+      reranker: this.rerankingService.rerankerName,
+      llmProvider: knowledgeBase.aiQueryService.llmProviderName,
+      template: template.name,
+      ...(options.generation && { generation: options.generation }),
+    };
+
+    const id = `eval_${randomBytes(8).toString('hex')}`;
+    const startedAt = new Date();
+    this.logger.log(
+      `Evaluation ${id}: ${cases.length} questions against knowledge base ${settings.knowledgeBase}`,
+    );
+
+    const results: EvalCaseResult[] = [];
+    for (const evalCase of cases) {
+      results.push(await this.runCase(knowledgeBase, evalCase, settings));
+    }
+
+    const run: EvalRun = {
+      id,
+      name: options.name || options.set || id,
+      set: options.set || 'inline',
+      startedAt,
+      finishedAt: new Date(),
+      settings,
+      summary: summarize(results),
+      results,
+    };
+    await this.repository.save(run);
+    this.logger.log(
+      `Evaluation ${id} finished: recall@${settings.topK} ${run.summary.recallAtK}, MRR ${run.summary.mrr}, ${run.summary.failed} failed`,
+    );
+    return run;
+  }
+
+  /**
+   * Runs in the history without their per-case results, newest first.
+   */
+  async listRuns(): Promise<Omit<EvalRun, 'results'>[]> {
+    const runs = await this.repository.findAll();
+    return runs
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .map((run) => ({
+        id: run.id,
+        name: run.name,
+        set: run.set,
+        startedAt: run.startedAt,
+        finishedAt: run.finishedAt,
+        settings: run.settings,
+        summary: run.summary,
+      }));
+  }
+
+  getRun(id: string): Promise<EvalRun | undefined> {
+    return this.repository.findById(id);
+  }
+
+  /**
+   * Metric changes from one run to another (candidate minus base), and the
+   * per-question changes for questions that appear in both.
+   */
+  async compare(baseId: string, candidateId: string) {
+    const [base, candidate] = await Promise.all([
+      this.repository.findById(baseId),
+      this.repository.findById(candidateId),
+    ]);
+    if (!base || !candidate) {
+      return undefined;
+    }
+
+    const delta = (a: number | null, b: number | null) =>
+      a === null || b === null ? null : b - a;
+    const baseResults = new Map(
+      base.results.map((result) => [result.id, result]),
+    );
+    const cases = candidate.results
+      .filter((result) => baseResults.has(result.id))
+      .map((result) => {
+        const previous = baseResults.get(result.id);
+        return {
+          id: result.id,
+          question: result.question,
+          recallAtK: delta(previous.recallAtK, result.recallAtK),
+          reciprocalRank: delta(previous.reciprocalRank, result.reciprocalRank),
+          answerOverlap: delta(previous.answerOverlap, result.answerOverlap),
+          faithfulness: delta(previous.faithfulness, result.faithfulness),
+          latencyMs: result.latencyMs - previous.latencyMs,
+        };
+      });
+
+    return {
+      base: { id: base.id, name: base.name, settings: base.settings },
+      candidate: {
+        id: candidate.id,
+        name: candidate.name,
+        settings: candidate.settings,
+      },
+      summary: {
+        recallAtK: delta(base.summary.recallAtK, candidate.summary.recallAtK),
+        mrr: delta(base.summary.mrr, candidate.summary.mrr),
+        answerOverlap: delta(
+          base.summary.answerOverlap,
+          candidate.summary.answerOverlap,
+        ),
+        faithfulness: delta(
+          base.summary.faithfulness,
+          candidate.summary.faithfulness,
+        ),
+        latencyP50Ms:
+          candidate.summary.latency.p50Ms - base.summary.latency.p50Ms,
+      },
+      cases,
+    };
+  }
+
+  private async runCase(
+    knowledgeBase: KnowledgeBaseContext,
+    evalCase: EvalCase,
+    settings: EvalSettings,
+  ): Promise<EvalCaseResult> {
+    const started = Date.now();
+    try {
+      const result = await knowledgeBase.aiQueryService.queryWithContext(
+        evalCase.question,
+        {
+          filter: evalCase.filter,
+          template: settings.template,
+          generation: settings.generation,
+          topK: settings.topK,
+          includeContext: true,
+        },
+      );
+      const latencyMs = Date.now() - started;
+      return {
+        id: evalCase.id,
+        question: evalCase.question,
+        answer: result.answer,
+        retrieved: result.sources.map(({ chunkId, documentId, filename }) => ({
+          chunkId,
+          documentId,
+          filename,
+        })),
+        recallAtK: recallAtK(result.sources, evalCase),
+        reciprocalRank: reciprocalRank(result.sources, evalCase),
+        answerOverlap:
+          evalCase.referenceAnswer !== undefined
+            ? answerOverlap(result.answer, evalCase.referenceAnswer)
+            : null,
+        faithfulness: faithfulness(result.answer, result.contextText ?? ''),
+        latencyMs,
+      };
+    } catch (error) {
+      this.logger.warn(
+        `Evaluation case ${evalCase.id} failed: ${error.message}`,
+      );
+      return {
+        id: evalCase.id,
+        question: evalCase.question,
+        answer: null,
+        error: error.message,
+        retrieved: [],
+        recallAtK: null,
+        reciprocalRank: null,
+        answerOverlap: null,
+        faithfulness: null,
+        latencyMs: Date.now() - started,
+      };
+    }
+  }
+}
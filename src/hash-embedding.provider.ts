@@ -0,0 +1,50 @@
+import { EmbeddingProvider } from './embedding-provider';
+
+/**
+ * Hash-based vectors for offline tests. They are stable for identical text
+ * but carry no semantic meaning, so similar texts are not close together.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hash';
+  readonly model: string;
+
+  constructor(private readonly dimension: number = 384) {
+    this.model = `hash-${dimension}`;
+  }
+
+  async getDimension(): Promise<number> {
+    return this.dimension;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const hash = this.simpleHash(text);
+    const embedding = new Array(this.dimension).fill(0);
+
+    // Use hash to seed pseudo-random values
+    let seed = hash;
+    for (let i = 0; i < this.dimension; i++) {
+      seed = (seed * 9301 + 49297) % 233280;
+      embedding[i] = (seed / 233280) * 2 - 1; // Normalize to [-1, 1]
+    }
+
+    // Normalize the vector
+    const magnitude = Math.sqrt(
+      embedding.reduce((sum, val) => sum + val * val, 0),
+    );
+    return embedding.map((val) => val / magnitude);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map((text) => this.embed(text)));
+  }
+
+  private simpleHash(str: string): number {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+      const char = str.charCodeAt(i);
+      hash = (hash << 5) - hash + char;
+      hash = hash & hash; // Convert to 32-bit integer
+    }
+    return Math.abs(hash);
+  }
+}
@@ -0,0 +1,76 @@
+import { DocumentExtractor, ExtractedDocument } from './document-extractor';
+import { markdownSections } from './markdown.extractor';
+import { decodeText } from './text.extractor';
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const BLOCK_TAGS =
+  'p|div|section|article|header|footer|main|aside|nav|ul|ol|table|tr|blockquote|pre|figure|form|dl|dt|dd';
+
+/**
+ * Converts HTML to Markdown-like text: headings become "#" lines so they
+ * can be sectioned, block elements become paragraphs and list items become
+ * bullets. Scripts, styles and all other markup are dropped.
+ */
+export function htmlToText(html: string): string {
+  return (
+    html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(
+        /<(script|style|head|noscript|template)\b[\s\S]*?<\/\1\s*>/gi,
+        '',
+      )
+      .replace(
+        /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi,
+        (_, level, content) =>
+          `\n\n${'#'.repeat(Number(level))} ${content
+            .replace(/<[^>]*>/g, '')
+            .replace(/\s+/g, ' ')
+            .trim()}\n\n`,
+      )
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<(td|th)\b[^>]*>/gi, ' ')
+      .replace(new RegExp(`</?(${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n\n')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] === '#') {
+          const code =
+            name[1].toLowerCase() === 'x'
+              ? parseInt(name.slice(2), 16)
+              : parseInt(name.slice(1), 10);
+          return String.fromCodePoint(code);
+        }
+        return ENTITIES[name.toLowerCase()] ?? entity;
+      })
+      // Tidy whitespace left behind by the markup
+      .replace(/[ \t\u00A0]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  );
+}
+
+export class HtmlExtractor implements DocumentExtractor {
+  readonly format = 'html';
+  readonly extensions = ['.html', '.htm', '.xhtml'];
+  readonly mimeTypes = ['text/html', 'application/xhtml+xml'];
+
+  sniff(buffer: Buffer): boolean {
+    return /^\s*(<!doctype html|<html)/i.test(
+      buffer.subarray(0, 1024).toString('utf-8'),
+    );
+  }
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const text = htmlToText(decodeText(buffer));
+    return { text, sections: markdownSections(text) };
+  }
+}
@@ -0,0 +1,118 @@
+import { IngestionJobsService } from './ingestion-jobs.service';
+import { PdfService, ProcessingHooks } from './pdf.service';
+import { createTestingService } from '../test/create-testing-service';
+
+describe('IngestionJobsService', () => {
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  const createService = (
+    processDocument: jest.Mock,
+    config: Record<string, string> = {},
+  ) =>
+    createTestingService(
+      IngestionJobsService,
+      { INGESTION_CONCURRENCY: '1', ...config },
+      [{ provide: PdfService, useValue: { processDocument } }],
+    );
+
+  it('should report stages and progress until the job is done', async () => {
+    const processDocument = jest.fn(
+      async (buffer: Buffer, filename: string, hooks: ProcessingHooks) => {
+        hooks.onStage('embedding', 4);
+        hooks.onProgress({ embeddedChunks: 4 });
+        hooks.onStage('indexing', 4);
+        hooks.onProgress({ indexedChunks: 4 });
+        return {
+          document: { id: 'doc_1' },
+          duplicate: false,
+          replacedDocumentIds: [],
+        };
+      },
+    );
+    const service = await createService(processDocument);
+
+    const job = service.enqueue(Buffer.from('pdf'), 'guide.pdf');
+    await flush();
+
+    expect(service.getJob(job.id)).toMatchObject({
+      state: 'done',
+      documentId: 'doc_1',
+      progress: { totalChunks: 4, embeddedChunks: 4, indexedChunks: 4 },
+    });
+  });
+
+  it('should keep a failed job retryable', async () => {
+    const processDocument = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Milvus is down'))
+      .mockResolvedValueOnce({
+        document: { id: 'doc_2' },
+        duplicate: false,
+        replacedDocumentIds: [],
+      });
+    const service = await createService(processDocument);
+
+    const job = service.enqueue(Buffer.from('pdf'), 'guide.pdf');
+    await flush();
+    expect(service.getJob(job.id)).toMatchObject({
+      state: 'failed',
+      error: 'Milvus is down',
+    });
+
+    service.retry(job.id);
+    await flush();
+    expect(service.getJob(job.id)).toMatchObject({
+      state: 'done',
+      attempts: 2,
+      documentId: 'doc_2',
+    });
+  });
+
+  it('should cancel a job that is still queued', async () => {
+    const processDocument = jest.fn(() => new Promise(() => undefined));
+    const service = await createService(processDocument);
+
+    service.enqueue(Buffer.from('pdf'), 'first.pdf');
+    const queued = service.enqueue(Buffer.from('pdf'), 'second.pdf');
+    service.cancel(queued.id);
+
+    expect(service.getJob(queued.id).state).toBe('cancelled');
+    expect(processDocument).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel running and queued jobs and wait for them to stop', async () => {
+    const processDocument = jest.fn(
+      (buffer: Buffer, filename: string, hooks: ProcessingHooks) =>
+        new Promise((resolve, reject) =>
+          hooks.signal.addEventListener('abort', () =>
+            reject(new Error('aborted')),
+          ),
+        ),
+    );
+    const service = await createService(processDocument);
+
+    const running = service.enqueue(Buffer.from('pdf'), 'first.pdf');
+    const queued = service.enqueue(Buffer.from('pdf'), 'second.pdf');
+    await service.cancelAll();
+
+    expect(service.getJob(running.id).state).toBe('cancelled');
+    expect(service.getJob(queued.id).state).toBe('cancelled');
+    expect(processDocument).toHaveBeenCalledTimes(1);
+  });
+
+  it('should forget the oldest finished jobs beyond the limit', async () => {
+    const processDocument = jest.fn().mockRejectedValue(new Error('bad file'));
+    const service = await createService(processDocument, {
+      INGESTION_MAX_FINISHED_JOBS: '1',
+    });
+
+    const first = service.enqueue(Buffer.from('pdf'), 'first.pdf');
+    await flush();
+    const second = service.enqueue(Buffer.from('pdf'), 'second.pdf');
+    await flush();
+
+    expect(service.getJob(first.id)).toBeUndefined();
+    expect(service.retry(first.id)).toBeUndefined();
+    expect(service.getJob(second.id).state).toBe('failed');
+  });
+});
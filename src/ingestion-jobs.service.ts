@@ -0,0 +1,260 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { PdfService, ProcessingOptions } from './pdf.service';
+import { DocumentAccess } from './document-access.service';
+
+export type IngestionJobState =
+  | 'queued'
+  | 'parsing'
+  | 'embedding'
+  | 'indexing'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+export interface IngestionJob {
+  id: string;
+  filename: string;
+  state: IngestionJobState;
+  attempts: number;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  progress: {
+    totalChunks: number;
+    embeddedChunks: number;
+    indexedChunks: number;
+  };
+  documentId?: string;
+  // Set when the content turned out to be stored already
+  duplicate?: boolean;
+  replacedDocumentIds?: string[];
+  error?: string;
+}
+
+interface JobEntry {
+  job: IngestionJob;
+  buffer: Buffer;
+  // Kept off the job record, which other callers can list
+  options: ProcessingOptions;
+  abortController?: AbortController;
+}
+
+const FINISHED_STATES: IngestionJobState[] = ['done', 'failed', 'cancelled'];
+
+/**
+ * Runs document ingestion in the background. Uploads are queued and picked
+ * up by at most INGESTION_CONCURRENCY workers. Job records are kept in
+ * memory; finished jobs, with the upload a failed one holds for retries,
+ * are dropped after INGESTION_JOB_TTL_MINUTES or once there are more than
+ * INGESTION_MAX_FINISHED_JOBS of them, oldest first.
+ */
+@Injectable()
+export class IngestionJobsService {
+  private readonly logger = new Logger(IngestionJobsService.name);
+  private readonly jobs: Map<string, JobEntry> = new Map();
+  private readonly queue: string[] = [];
+  private readonly concurrency: number;
+  private readonly finishedJobTtlMs: number;
+  private readonly maxFinishedJobs: number;
+  private running = 0;
+  // Runs in progress, so cancelAll can wait for them to stop
+  private readonly active: Set<Promise<void>> = new Set();
+
+  constructor(
+    private configService: ConfigService,
+    private pdfService: PdfService,
+  ) {
+    this.concurrency = Number(
+      this.configService.get('INGESTION_CONCURRENCY', 2),
+    );
+    this.finishedJobTtlMs =
+      Number(this.configService.get('INGESTION_JOB_TTL_MINUTES', 60)) * 60000;
+    this.maxFinishedJobs = Number(
+      this.configService.get('INGESTION_MAX_FINISHED_JOBS', 100),
+    );
+  }
+
+  enqueue(
+    buffer: Buffer,
+    filename: string,
+    options: ProcessingOptions = {},
+  ): IngestionJob {
+    const job: IngestionJob = {
+      id: `job_${randomBytes(8).toString('hex')}`,
+      filename,
+      state: 'queued',
+      attempts: 0,
+      createdAt: new Date(),
+      progress: { totalChunks: 0, embeddedChunks: 0, indexedChunks: 0 },
+    };
+
+    this.pruneFinishedJobs();
+    this.jobs.set(job.id, { job, buffer, options });
+    this.queue.push(job.id);
+    this.logger.log(`Queued ingestion job ${job.id} for ${filename}`);
+
+    this.pump();
+    return job;
+  }
+
+  getJob(id: string): IngestionJob | undefined {
+    return this.jobs.get(id)?.job;
+  }
+
+  /** The access the job's document will get, which also limits the job. */
+  getAccess(id: string): DocumentAccess | undefined {
+    return this.jobs.get(id)?.options.access;
+  }
+
+  getAllJobs(): IngestionJob[] {
+    return Array.from(this.jobs.values()).map((entry) => entry.job);
+  }
+
+  /**
+   * Puts a failed or cancelled job back on the queue. Returns undefined for
+   * unknown jobs and throws if the job is not in a retryable state.
+   */
+  retry(id: string): IngestionJob | undefined {
+    const entry = this.jobs.get(id);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.job.state !== 'failed' && entry.job.state !== 'cancelled') {
+      throw new Error(`Job ${id} is ${entry.job.state} and cannot be retried`);
+    }
+
+    Object.assign(entry.job, {
+      state: 'queued',
+      error: undefined,
+      finishedAt: undefined,
+      progress: { totalChunks: 0, embeddedChunks: 0, indexedChunks: 0 },
+    });
+    this.queue.push(id);
+    this.logger.log(`Retrying ingestion job ${id}`);
+
+    this.pump();
+    return entry.job;
+  }
+
+  /**
+   * Cancels a queued or running job. Running jobs stop at the next
+   * checkpoint and their partially written chunks are removed.
+   */
+  cancel(id: string): IngestionJob | undefined {
+    const entry = this.jobs.get(id);
+    if (!entry) {
+      return undefined;
+    }
+    if (FINISHED_STATES.includes(entry.job.state)) {
+      throw new Error(`Job ${id} is already ${entry.job.state}`);
+    }
+
+    // A job that has just started is still 'queued' until its first stage
+    const queued = this.queue.indexOf(id);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+      this.finish(entry, 'cancelled');
+    } else {
+      entry.abortController?.abort();
+    }
+
+    this.logger.log(`Cancelled ingestion job ${id}`);
+    return entry.job;
+  }
+
+  /**
+   * Cancels every queued and running job and resolves once the running ones
+   * have stopped, for when the store they write to is about to go away.
+   */
+  async cancelAll(): Promise<void> {
+    for (const entry of this.jobs.values()) {
+      if (!FINISHED_STATES.includes(entry.job.state)) {
+        this.cancel(entry.job.id);
+      }
+    }
+    await Promise.all(this.active);
+  }
+
+  private pump() {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const entry = this.jobs.get(this.queue.shift());
+      this.running++;
+      const run = this.run(entry).finally(() => {
+        this.running--;
+        this.active.delete(run);
+        this.pump();
+      });
+      this.active.add(run);
+    }
+  }
+
+  private async run(entry: JobEntry): Promise<void> {
+    const { job } = entry;
+    entry.abortController = new AbortController();
+    job.attempts++;
+    job.startedAt = new Date();
+
+    try {
+      const result = await this.pdfService.processDocument(
+        entry.buffer,
+        job.filename,
+        {
+          signal: entry.abortController.signal,
+          onStage: (stage, totalChunks) => {
+            job.state = stage;
+            if (totalChunks !== undefined) {
+              job.progress.totalChunks = totalChunks;
+            }
+          },
+          onProgress: (progress) => Object.assign(job.progress, progress),
+        },
+        entry.options,
+      );
+
+      job.documentId = result.document.id;
+      job.duplicate = result.duplicate;
+      job.replacedDocumentIds = result.replacedDocumentIds;
+      this.finish(entry, 'done');
+      this.logger.log(
+        `Ingestion job ${job.id} finished (${result.document.id})`,
+      );
+    } catch (error) {
+      if (entry.abortController.signal.aborted) {
+        this.finish(entry, 'cancelled');
+        return;
+      }
+      job.error = error.message;
+      this.finish(entry, 'failed');
+      this.logger.error(`Ingestion job ${job.id} failed:`, error.message);
+    }
+  }
+
+  private finish(entry: JobEntry, state: IngestionJobState) {
+    entry.job.state = state;
+    entry.job.finishedAt = new Date();
+    entry.abortController = undefined;
+    // Only failed or cancelled jobs can be retried, so done jobs drop the file
+    if (state === 'done') {
+      entry.buffer = undefined;
+    }
+    this.pruneFinishedJobs();
+  }
+
+  private pruneFinishedJobs() {
+    const expiredBefore = Date.now() - this.finishedJobTtlMs;
+    // Map order is creation order, which is close enough to finishing order
+    const finished = Array.from(this.jobs.values()).filter((entry) =>
+      FINISHED_STATES.includes(entry.job.state),
+    );
+    finished.forEach((entry, index) => {
+      if (
+        entry.job.finishedAt.getTime() < expiredBefore ||
+        finished.length - index > this.maxFinishedJobs
+      ) {
+        this.jobs.delete(entry.job.id);
+      }
+    });
+  }
+}
@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A JSON file that is rewritten whole on every change, or a JSON Lines file
+ * that is appended to. Writes go to a temp file that is then renamed over
+ * the old one, and are queued so concurrent writes never interleave on disk.
+ */
+export class JsonFileStore<T = unknown> {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly filePath: string,
+    private readonly indent?: number,
+    private readonly mode?: number,
+  ) {}
+
+  exists(): boolean {
+    return fs.existsSync(this.filePath);
+  }
+
+  /** The stored value, or undefined when the file is missing or empty. */
+  async read(): Promise<T | undefined> {
+    if (!this.exists()) {
+      return undefined;
+    }
+    const raw = await fs.promises.readFile(this.filePath, 'utf-8');
+    return raw.trim() ? JSON.parse(raw) : undefined;
+  }
+
+  write(value: T): Promise<void> {
+    const snapshot = JSON.stringify(value, null, this.indent);
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), {
+          recursive: true,
+        });
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tempPath, snapshot, {
+          encoding: 'utf-8',
+          mode: this.mode,
+        });
+        await fs.promises.rename(tempPath, this.filePath);
+      });
+    return this.writing;
+  }
+
+  /** Removes the file once pending writes have finished. */
+  async delete(): Promise<void> {
+    await this.writing.catch(() => undefined);
+    await fs.promises.rm(this.filePath, { force: true });
+  }
+
+  /** Appends one value as a JSON line, after any pending write. */
+  appendLine(value: unknown): Promise<void> {
+    const line = `${JSON.stringify(value)}\n`;
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), {
+          recursive: true,
+        });
+        await fs.promises.appendFile(this.filePath, line, {
+          encoding: 'utf-8',
+          mode: this.mode,
+        });
+      });
+    return this.writing;
+  }
+
+  /** Every JSON line in the file, once pending writes have finished. */
+  async readLines<L>(): Promise<L[]> {
+    await this.writing.catch(() => undefined);
+    if (!this.exists()) {
+      return [];
+    }
+    const raw = await fs.promises.readFile(this.filePath, 'utf-8');
+    return raw
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+  }
+}
@@ -0,0 +1,82 @@
+import {
+  DocumentExtractor,
+  DocumentSection,
+  ExtractedDocument,
+} from './document-extractor';
+import { decodeText } from './text.extractor';
+
+/**
+ * Flattens a JSON value into "path: value" lines, e.g. "address.city: Oslo"
+ * or "tags[0]: blue".
+ */
+export function flattenJson(value: unknown, prefix: string = ''): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) =>
+      flattenJson(item, `${prefix}[${index}]`),
+    );
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) =>
+      flattenJson(item, prefix ? `${prefix}.${key}` : key),
+    );
+  }
+  return [prefix ? `${prefix}: ${value}` : String(value)];
+}
+
+/**
+ * Top-level keys (or array elements) become sections separated by blank
+ * lines, headed by the key or by the element's position.
+ */
+export class JsonExtractor implements DocumentExtractor {
+  readonly format = 'json';
+  readonly extensions = ['.json'];
+  readonly mimeTypes = ['application/json'];
+
+  sniff(buffer: Buffer): boolean {
+    const content = decodeText(buffer).trim();
+    if (!/^[[{]/.test(content)) {
+      return false;
+    }
+    try {
+      JSON.parse(content);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    let data: unknown;
+    try {
+      data = JSON.parse(decodeText(buffer));
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error.message}`);
+    }
+
+    const entries: [string, unknown][] = Array.isArray(data)
+      ? data.map((item, index) => [`[${index}]`, item])
+      : data !== null && typeof data === 'object'
+        ? Object.entries(data)
+        : [['', data]];
+
+    let text = '';
+    const sections: DocumentSection[] = [];
+    for (const [key, item] of entries) {
+      const block = flattenJson(item, Array.isArray(data) ? '' : key).join(
+        '\n',
+      );
+      if (text) {
+        text += '\n\n';
+      }
+      sections.push({
+        start: text.length,
+        end: text.length + block.length,
+        sectionNumber: sections.length + 1,
+        ...(key && { heading: key }),
+      });
+      text += block;
+    }
+
+    return { text, sections };
+  }
+}
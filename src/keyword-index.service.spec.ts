@@ -0,0 +1,69 @@
+import { KeywordIndexService, tokenize } from './keyword-index.service';
+import { VECTOR_STORE, VectorStore } from './vector-store';
+import { createTestingService } from '../test/create-testing-service';
+
+describe('KeywordIndexService', () => {
+  const chunk = (id: string, documentId: string, text: string) => ({
+    id,
+    text,
+    metadata: { documentId },
+  });
+
+  const createService = (vectorStore = {} as VectorStore) =>
+    createTestingService(KeywordIndexService, { KEYWORD_INDEX: 'memory' }, [
+      { provide: VECTOR_STORE, useValue: vectorStore },
+    ]);
+
+  it('should index codes whole and by their parts', () => {
+    expect(tokenize('Order XR-200, see v2.1')).toEqual([
+      'order',
+      'xr-200',
+      'xr',
+      '200',
+      'see',
+      'v2.1',
+      'v2',
+      '1',
+    ]);
+  });
+
+  it('should rank exact code matches first', async () => {
+    const service = await createService();
+    await service.addChunks([
+      chunk('a_chunk_0', 'a', 'The XR-200 pump needs a monthly filter change.'),
+      chunk('b_chunk_0', 'b', 'Pumps need regular maintenance.'),
+      chunk('c_chunk_0', 'c', 'Filters are sold separately.'),
+    ]);
+
+    const hits = service.search('XR-200 filter');
+
+    expect(hits[0].id).toBe('a_chunk_0');
+    expect(hits.map((hit) => hit.id)).not.toContain('b_chunk_0');
+  });
+
+  it('should drop every chunk of a removed document', async () => {
+    const service = await createService();
+    await service.addChunks([
+      chunk('a_chunk_0', 'a', 'alpha beta'),
+      chunk('a_chunk_1', 'a', 'beta gamma'),
+      chunk('b_chunk_0', 'b', 'beta delta'),
+    ]);
+
+    await expect(service.removeDocument('a')).resolves.toBe(2);
+    expect(service.size).toBe(1);
+    expect(service.search('beta').map((hit) => hit.id)).toEqual(['b_chunk_0']);
+  });
+
+  it('should rebuild from the vector store when no index is stored', async () => {
+    const vectorStore = {
+      async *iterateChunks() {
+        yield [chunk('a_chunk_0', 'a', 'stored in milvus')];
+      },
+    } as unknown as VectorStore;
+    const service = await createService(vectorStore);
+
+    await service.onModuleInit();
+
+    expect(service.search('milvus')[0].id).toBe('a_chunk_0');
+  });
+});
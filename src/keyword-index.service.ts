@@ -0,0 +1,231 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { ChunkMetadata, VECTOR_STORE, VectorStore } from './vector-store';
+import { SearchFilter, matchesFilter } from './search-filter';
+import { JsonFileStore } from './json-file-store';
+
+export interface IndexedChunk {
+  id: string;
+  text: string;
+  metadata: Partial<ChunkMetadata>;
+}
+
+export interface KeywordHit extends IndexedChunk {
+  score: number;
+}
+
+interface IndexEntry {
+  chunk: IndexedChunk;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+// Standard BM25 parameters: term frequency saturation and length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// A run of letters and digits, optionally joined by - _ . or /
+export const TERM_PATTERN = /[\p{L}\p{N}]+(?:[-_./][\p{L}\p{N}]+)*/gu;
+export const TERM_SEPARATOR = /[-_./]/;
+
+/**
+ * Splits text into lowercase terms. Codes such as "XR-200" or "v2.1" are
+ * kept whole and also indexed by their parts, so both forms match.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const match of text.toLowerCase().matchAll(TERM_PATTERN)) {
+    const parts = match[0].split(TERM_SEPARATOR);
+    terms.push(match[0]);
+    if (parts.length > 1) {
+      terms.push(...parts);
+    }
+  }
+  return terms;
+}
+
+/**
+ * A BM25 keyword index over the same chunks that are in the vector store,
+ * used to find exact matches on names, codes and acronyms that vector search
+ * misses. Chunks are added and removed at ingestion time and the index is
+ * saved to KEYWORD_INDEX_PATH; when that file is missing or empty the index
+ * is rebuilt from the vector store at startup.
+ */
+@Injectable()
+export class KeywordIndexService implements OnModuleInit {
+  private readonly logger = new Logger(KeywordIndexService.name);
+  private readonly entries: Map<string, IndexEntry> = new Map();
+  // Term -> ids of the chunks containing it
+  private readonly postings: Map<string, Set<string>> = new Map();
+  private readonly store: JsonFileStore<IndexedChunk[]> | undefined;
+  private totalLength = 0;
+
+  constructor(
+    private configService: ConfigService,
+    @Inject(VECTOR_STORE) private vectorStore: VectorStore,
+  ) {
+    if (this.configService.get<string>('KEYWORD_INDEX', 'file') === 'file') {
+      this.store = new JsonFileStore(
+        this.configService.get<string>(
+          'KEYWORD_INDEX_PATH',
+          path.join(process.cwd(), 'data', 'keyword-index.json'),
+        ),
+      );
+    }
+  }
+
+  async onModuleInit() {
+    if (this.store) {
+      await this.readFile();
+    }
+    if (this.entries.size === 0) {
+      try {
+        await this.rebuild();
+      } catch (error) {
+        this.logger.error(
+          'Could not rebuild the keyword index from the vector store:',
+          error.message,
+        );
+      }
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Replaces the index with every chunk currently in the vector store.
+   */
+  async rebuild(): Promise<number> {
+    this.entries.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+
+    for await (const chunks of this.vectorStore.iterateChunks()) {
+      chunks.forEach((chunk) => this.addEntry(chunk));
+    }
+    this.logger.log(`Rebuilt keyword index with ${this.entries.size} chunks`);
+    await this.persist();
+    return this.entries.size;
+  }
+
+  async addChunks(chunks: IndexedChunk[]): Promise<void> {
+    chunks.forEach((chunk) => this.addEntry(chunk));
+    await this.persist();
+  }
+
+  async removeDocument(documentId: string): Promise<number> {
+    const ids = Array.from(this.entries.values())
+      .filter((entry) => entry.chunk.metadata.documentId === documentId)
+      .map((entry) => entry.chunk.id);
+    ids.forEach((id) => this.removeEntry(id));
+    if (ids.length > 0) {
+      await this.persist();
+    }
+    return ids.length;
+  }
+
+  search(query: string, topK: number = 5, filter?: SearchFilter): KeywordHit[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.entries.size === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.entries.size;
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      const ids = this.postings.get(term);
+      if (!ids) {
+        continue;
+      }
+      // BM25 idf, kept positive for terms that occur in most chunks
+      const idf = Math.log(
+        1 + (this.entries.size - ids.size + 0.5) / (ids.size + 0.5),
+      );
+      for (const id of ids) {
+        const entry = this.entries.get(id);
+        if (!matchesFilter(entry.chunk.metadata, filter)) {
+          continue;
+        }
+        const frequency = entry.termFrequencies.get(term);
+        const weight =
+          (frequency * (BM25_K1 + 1)) /
+          (frequency +
+            BM25_K1 * (1 - BM25_B + (BM25_B * entry.length) / averageLength));
+        scores.set(id, (scores.get(id) ?? 0) + idf * weight);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, topK)
+      .map(([id, score]) => ({ ...this.entries.get(id).chunk, score }));
+  }
+
+  private addEntry(chunk: IndexedChunk) {
+    if (this.entries.has(chunk.id)) {
+      this.removeEntry(chunk.id);
+    }
+
+    const terms = tokenize(chunk.text);
+    const termFrequencies = new Map<string, number>();
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+    }
+    for (const term of termFrequencies.keys()) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Set());
+      }
+      this.postings.get(term).add(chunk.id);
+    }
+
+    const { id, text, metadata } = chunk;
+    this.entries.set(id, {
+      chunk: { id, text, metadata },
+      termFrequencies,
+      length: terms.length,
+    });
+    this.totalLength += terms.length;
+  }
+
+  private removeEntry(id: string) {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+    for (const term of entry.termFrequencies.keys()) {
+      const ids = this.postings.get(term);
+      ids.delete(id);
+      if (ids.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.entries.delete(id);
+    this.totalLength -= entry.length;
+  }
+
+  private async readFile(): Promise<void> {
+    if (!this.store.exists()) {
+      this.logger.log(`No keyword index found at ${this.store.filePath}`);
+      return;
+    }
+
+    const chunks = (await this.store.read()) ?? [];
+    chunks.forEach((chunk) => this.addEntry(chunk));
+    this.logger.log(
+      `Loaded keyword index with ${this.entries.size} chunks from ${this.store.filePath}`,
+    );
+  }
+
+  private persist(): Promise<void> {
+    if (!this.store) {
+      return Promise.resolve();
+    }
+    return this.store.write(
+      Array.from(this.entries.values()).map((entry) => entry.chunk),
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { ChunkingOptions } from './chunking.service';
+import { JsonFileStore } from './json-file-store';
+
+export const KNOWLEDGE_BASE_REPOSITORY = 'KNOWLEDGE_BASE_REPOSITORY';
+
+export interface KnowledgeBase {
+  id: string;
+  name: string;
+  description: string;
+  // Milvus collection holding the knowledge base's chunks
+  collectionName: string;
+  // Fixed at creation, since the collection's vector size depends on it
+  embeddingModel: string;
+  // Defaults for uploads; each upload can still override them
+  chunking: ChunkingOptions;
+  // Unset for the default knowledge base, which comes from the config
+  createdAt?: Date;
+}
+
+/**
+ * Storage for the knowledge bases created through the API. The default
+ * knowledge base is not stored; it is described by the configuration.
+ */
+export interface KnowledgeBaseRepository {
+  findAll(): Promise<KnowledgeBase[]>;
+  findById(id: string): Promise<KnowledgeBase | undefined>;
+  save(knowledgeBase: KnowledgeBase): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+export class InMemoryKnowledgeBaseRepository
+  implements KnowledgeBaseRepository
+{
+  private readonly knowledgeBases: Map<string, KnowledgeBase> = new Map();
+
+  async findAll(): Promise<KnowledgeBase[]> {
+    return Array.from(this.knowledgeBases.values());
+  }
+
+  async findById(id: string): Promise<KnowledgeBase | undefined> {
+    return this.knowledgeBases.get(id);
+  }
+
+  async save(knowledgeBase: KnowledgeBase): Promise<void> {
+    this.knowledgeBases.set(knowledgeBase.id, knowledgeBase);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.knowledgeBases.delete(id);
+  }
+}
+
+/**
+ * Keeps knowledge bases in memory and writes the whole set to a JSON file
+ * after every change, like FileDocumentRepository.
+ */
+export class FileKnowledgeBaseRepository implements KnowledgeBaseRepository {
+  private readonly logger = new Logger(FileKnowledgeBaseRepository.name);
+  private knowledgeBases: Map<string, KnowledgeBase>;
+  private loading: Promise<void>;
+  private readonly store: JsonFileStore<KnowledgeBase[]>;
+
+  constructor(private readonly filePath: string) {
+    this.store = new JsonFileStore(filePath, 2);
+  }
+
+  async findAll(): Promise<KnowledgeBase[]> {
+    await this.load();
+    return Array.from(this.knowledgeBases.values());
+  }
+
+  async findById(id: string): Promise<KnowledgeBase | undefined> {
+    await this.load();
+    return this.knowledgeBases.get(id);
+  }
+
+  async save(knowledgeBase: KnowledgeBase): Promise<void> {
+    await this.load();
+    this.knowledgeBases.set(knowledgeBase.id, knowledgeBase);
+    await this.persist();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.load();
+    const deleted = this.knowledgeBases.delete(id);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    this.knowledgeBases = new Map();
+
+    if (!this.store.exists()) {
+      this.logger.log(`No knowledge base store found at ${this.filePath}`);
+      return;
+    }
+
+    const records = (await this.store.read()) ?? [];
+
+    for (const record of records) {
+      this.knowledgeBases.set(record.id, {
+        ...record,
+        createdAt: record.createdAt && new Date(record.createdAt),
+      });
+    }
+
+    this.logger.log(
+      `Loaded ${this.knowledgeBases.size} knowledge bases from ${this.filePath}`,
+    );
+  }
+
+  private persist(): Promise<void> {
+    return this.store.write(Array.from(this.knowledgeBases.values()));
+  }
+}
+
+export function createKnowledgeBaseRepository(
+  configService: ConfigService,
+): KnowledgeBaseRepository {
+  const store = configService.get<string>('KNOWLEDGE_BASE_STORE', 'file');
+
+  if (store === 'memory') {
+    return new InMemoryKnowledgeBaseRepository();
+  }
+
+  const filePath = configService.get<string>(
+    'KNOWLEDGE_BASE_STORE_PATH',
+    path.join(process.cwd(), 'data', 'knowledge-bases.json'),
+  );
+  return new FileKnowledgeBaseRepository(filePath);
+}
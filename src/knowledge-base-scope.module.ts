@@ -0,0 +1,90 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EmbeddingsService } from './embeddings.service';
+import { ChunkingService } from './chunking.service';
+import { KeywordIndexService } from './keyword-index.service';
+import { DocumentAccessService } from './document-access.service';
+import { RetrievalService } from './retrieval.service';
+import { AiQueryService } from './ai-query.service';
+import { PdfService } from './pdf.service';
+import { IngestionJobsService } from './ingestion-jobs.service';
+import { DocumentExtractorRegistry } from './document-extractor';
+import { RerankingService } from './reranking.service';
+import { ContextBuilderService } from './context-builder.service';
+import { PromptTemplatesService } from './prompt-templates.service';
+import { LLM_PROVIDER, LlmProvider } from './llm-provider';
+import {
+  EMBEDDING_PROVIDER,
+  createEmbeddingProvider,
+} from './embedding-provider';
+import {
+  DOCUMENT_REPOSITORY,
+  createDocumentRepository,
+} from './document-repository';
+import { VECTOR_STORE, createVectorStore } from './vector-store';
+
+/** The application's services that every knowledge base uses as they are. */
+export interface SharedKnowledgeBaseServices {
+  extractorRegistry: DocumentExtractorRegistry;
+  rerankingService: RerankingService;
+  contextBuilderService: ContextBuilderService;
+  promptTemplatesService: PromptTemplatesService;
+  llmProvider: LlmProvider;
+}
+
+/**
+ * The services of one knowledge base, wired the same way AppModule wires
+ * the default ones but reading a config scoped to the knowledge base.
+ */
+@Module({})
+export class KnowledgeBaseScopeModule {
+  static register(
+    config: ConfigService,
+    shared: SharedKnowledgeBaseServices,
+  ): DynamicModule {
+    return {
+      module: KnowledgeBaseScopeModule,
+      providers: [
+        { provide: ConfigService, useValue: config },
+        {
+          provide: DocumentExtractorRegistry,
+          useValue: shared.extractorRegistry,
+        },
+        { provide: RerankingService, useValue: shared.rerankingService },
+        {
+          provide: ContextBuilderService,
+          useValue: shared.contextBuilderService,
+        },
+        {
+          provide: PromptTemplatesService,
+          useValue: shared.promptTemplatesService,
+        },
+        { provide: LLM_PROVIDER, useValue: shared.llmProvider },
+        EmbeddingsService,
+        ChunkingService,
+        KeywordIndexService,
+        DocumentAccessService,
+        RetrievalService,
+        AiQueryService,
+        PdfService,
+        IngestionJobsService,
+        {
+          provide: EMBEDDING_PROVIDER,
+          useFactory: createEmbeddingProvider,
+          inject: [ConfigService],
+        },
+        // Retrieval checks access against the same records the uploads write
+        {
+          provide: DOCUMENT_REPOSITORY,
+          useFactory: createDocumentRepository,
+          inject: [ConfigService],
+        },
+        {
+          provide: VECTOR_STORE,
+          useFactory: createVectorStore,
+          inject: [ConfigService, EmbeddingsService],
+        },
+      ],
+    };
+  }
+}
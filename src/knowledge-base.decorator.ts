@@ -0,0 +1,52 @@
+import {
+  ExecutionContext,
+  Injectable,
+  NotFoundException,
+  PipeTransform,
+  createParamDecorator,
+} from '@nestjs/common';
+import { Request } from 'express';
+import {
+  DEFAULT_KNOWLEDGE_BASE_ID,
+  KnowledgeBaseContext,
+  KnowledgeBasesService,
+} from './knowledge-bases.service';
+
+export const KNOWLEDGE_BASE_HEADER = 'x-knowledge-base';
+
+/**
+ * The id of the knowledge base a request targets: the :knowledgeBaseId
+ * route parameter, else the X-Knowledge-Base header, else the default.
+ */
+export const KnowledgeBaseId = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): string => {
+    const request = ctx.switchToHttp().getRequest<Request>();
+    const header = request.headers[KNOWLEDGE_BASE_HEADER];
+    return (
+      request.params.knowledgeBaseId ||
+      (Array.isArray(header) ? header[0] : header) ||
+      DEFAULT_KNOWLEDGE_BASE_ID
+    );
+  },
+);
+
+@Injectable()
+export class KnowledgeBasePipe
+  implements PipeTransform<string, Promise<KnowledgeBaseContext>>
+{
+  constructor(private readonly knowledgeBasesService: KnowledgeBasesService) {}
+
+  async transform(id: string): Promise<KnowledgeBaseContext> {
+    const context = await this.knowledgeBasesService.resolve(id);
+    if (!context) {
+      throw new NotFoundException(`Knowledge base ${id} not found`);
+    }
+    return context;
+  }
+}
+
+/**
+ * Injects the services of the knowledge base a request targets, or
+ * responds 404 if it does not exist.
+ */
+export const CurrentKnowledgeBase = () => KnowledgeBaseId(KnowledgeBasePipe);
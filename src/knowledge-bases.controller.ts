@@ -0,0 +1,100 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+} from '@nestjs/common';
+import {
+  CreateKnowledgeBaseInput,
+  DEFAULT_KNOWLEDGE_BASE_ID,
+  KnowledgeBasesService,
+  parseKnowledgeBaseInput,
+} from './knowledge-bases.service';
+import { KnowledgeBase } from './knowledge-base-repository';
+import { CurrentPrincipal, Roles } from './auth.decorator';
+import { Principal } from './auth.service';
+import { AuditLogService } from './audit-log.service';
+
+/**
+ * Management of knowledge bases. Documents are uploaded to and queried in a
+ * knowledge base through the usual endpoints, either under
+ * /knowledge-bases/:knowledgeBaseId (for example
+ * /knowledge-bases/hr/pdf/upload) or with an X-Knowledge-Base header.
+ */
+@Controller('knowledge-bases')
+export class KnowledgeBasesController {
+  constructor(
+    private readonly knowledgeBasesService: KnowledgeBasesService,
+    private readonly auditLogService: AuditLogService,
+  ) {}
+
+  @Post()
+  @Roles('admin')
+  async create(
+    @Body() body: Record<string, unknown>,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<KnowledgeBase> {
+    let input: CreateKnowledgeBaseInput;
+    try {
+      input = parseKnowledgeBaseInput(body);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+    if (await this.knowledgeBasesService.get(input.id)) {
+      throw new ConflictException(`Knowledge base ${input.id} already exists`);
+    }
+
+    let knowledgeBase: KnowledgeBase;
+    try {
+      knowledgeBase = await this.knowledgeBasesService.create(input);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+    await this.auditLogService.record(
+      principal,
+      'knowledge-base.create',
+      knowledgeBase.id,
+    );
+    return knowledgeBase;
+  }
+
+  @Get()
+  async list() {
+    return { knowledgeBases: await this.knowledgeBasesService.list() };
+  }
+
+  @Get(':id')
+  async get(@Param('id') id: string, @CurrentPrincipal() principal: Principal) {
+    const context = await this.knowledgeBasesService.resolve(id);
+    if (!context) {
+      throw new NotFoundException(`Knowledge base ${id} not found`);
+    }
+    return {
+      ...context.knowledgeBase,
+      stats: await context.pdfService.getDocumentStats(principal),
+    };
+  }
+
+  @Delete(':id')
+  @Roles('admin')
+  async delete(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    if (id === DEFAULT_KNOWLEDGE_BASE_ID) {
+      throw new BadRequestException(
+        'The default knowledge base cannot be deleted',
+      );
+    }
+    if (!(await this.knowledgeBasesService.delete(id))) {
+      throw new NotFoundException(`Knowledge base ${id} not found`);
+    }
+    await this.auditLogService.record(principal, 'knowledge-base.delete', id);
+    return { message: 'Knowledge base deleted successfully', deleted: true };
+  }
+}
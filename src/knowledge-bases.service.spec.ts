@@ -0,0 +1,116 @@
+import * as os from 'os';
+import * as path from 'path';
+import {
+  KnowledgeBasesService,
+  parseKnowledgeBaseInput,
+} from './knowledge-bases.service';
+import {
+  KNOWLEDGE_BASE_REPOSITORY,
+  InMemoryKnowledgeBaseRepository,
+} from './knowledge-base-repository';
+import { VECTOR_STORE } from './vector-store';
+import { EmbeddingsService } from './embeddings.service';
+import { ChunkingService } from './chunking.service';
+import { RetrievalService } from './retrieval.service';
+import { PdfService } from './pdf.service';
+import { IngestionJobsService } from './ingestion-jobs.service';
+import { AiQueryService } from './ai-query.service';
+import { DocumentExtractorRegistry } from './document-extractor';
+import { RerankingService } from './reranking.service';
+import { ContextBuilderService } from './context-builder.service';
+import { PromptTemplatesService } from './prompt-templates.service';
+import { LLM_PROVIDER } from './llm-provider';
+import { createTestingService } from '../test/create-testing-service';
+
+describe('KnowledgeBasesService', () => {
+  const createService = (config: Record<string, string> = {}) =>
+    createTestingService(KnowledgeBasesService, config, [
+      {
+        provide: KNOWLEDGE_BASE_REPOSITORY,
+        useClass: InMemoryKnowledgeBaseRepository,
+      },
+      { provide: VECTOR_STORE, useValue: { collectionName: 'context_chunks' } },
+      {
+        provide: EmbeddingsService,
+        useValue: { model: 'nomic-embed-text:latest' },
+      },
+      ChunkingService,
+      ...[
+        RetrievalService,
+        PdfService,
+        IngestionJobsService,
+        AiQueryService,
+        DocumentExtractorRegistry,
+        RerankingService,
+        ContextBuilderService,
+        PromptTemplatesService,
+        LLM_PROVIDER,
+      ].map((provide) => ({ provide, useValue: {} })),
+    ]);
+
+  it('should describe the default knowledge base from the config', async () => {
+    const service = await createService();
+
+    expect(await service.list()).toEqual([
+      expect.objectContaining({
+        id: 'default',
+        collectionName: 'context_chunks',
+        embeddingModel: 'nomic-embed-text:latest',
+        chunking: { strategy: 'sentence', chunkSize: 500, chunkOverlap: 50 },
+      }),
+    ]);
+    expect((await service.resolve()).knowledgeBase.id).toBe('default');
+    expect(await service.resolve('missing')).toBeUndefined();
+  });
+
+  it('should start and stop the services of a created knowledge base', async () => {
+    const service = await createService({
+      VECTOR_STORE: 'memory',
+      EMBEDDING_PROVIDER: 'hash',
+      EMBEDDING_CACHE: 'memory',
+      DOCUMENT_STORE: 'memory',
+      KEYWORD_INDEX: 'memory',
+      KNOWLEDGE_BASE_DATA_DIR: path.join(os.tmpdir(), 'knowledge-bases-spec'),
+    });
+
+    await service.create({ id: 'hr-docs', chunking: { chunkSize: 800 } });
+    const context = await service.resolve('hr-docs');
+
+    expect(context.vectorStore.collectionName).toBe('kb_hr_docs');
+    expect(context.chunkingService.getDefaults().chunkSize).toBe(800);
+    expect(await context.pdfService.getAllDocuments()).toEqual([]);
+
+    expect(await service.delete('hr-docs')).toBe(true);
+    expect(await service.resolve('hr-docs')).toBeUndefined();
+  });
+
+  it('should refuse to delete the default knowledge base', async () => {
+    const service = await createService();
+
+    await expect(service.delete('default')).rejects.toThrow(
+      'The default knowledge base cannot be deleted',
+    );
+  });
+
+  it('should validate create requests', () => {
+    expect(
+      parseKnowledgeBaseInput({
+        id: 'hr-docs',
+        name: ' HR ',
+        chunking: { strategy: 'heading', chunkSize: '800' },
+      }),
+    ).toEqual({
+      id: 'hr-docs',
+      name: 'HR',
+      description: undefined,
+      embeddingModel: undefined,
+      chunking: { strategy: 'heading', chunkSize: 800 },
+    });
+    expect(() => parseKnowledgeBaseInput({ id: 'HR Docs' })).toThrow(
+      'id must be 1-48 lowercase letters',
+    );
+    expect(() =>
+      parseKnowledgeBaseInput({ id: 'hr', chunking: { chunkSize: 'big' } }),
+    ).toThrow('chunking.chunkSize must be a number');
+  });
+});
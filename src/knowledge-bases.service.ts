@@ -0,0 +1,383 @@
+import {
+  INestApplicationContext,
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  KNOWLEDGE_BASE_REPOSITORY,
+  KnowledgeBase,
+  KnowledgeBaseRepository,
+} from './knowledge-base-repository';
+import { VECTOR_STORE, VectorStore } from './vector-store';
+import { EmbeddingsService } from './embeddings.service';
+import {
+  ChunkingOptions,
+  ChunkingService,
+  ChunkingStrategy,
+} from './chunking.service';
+import { RetrievalService } from './retrieval.service';
+import { RerankingService } from './reranking.service';
+import { ContextBuilderService } from './context-builder.service';
+import { PromptTemplatesService } from './prompt-templates.service';
+import { AiQueryService } from './ai-query.service';
+import { PdfService } from './pdf.service';
+import { IngestionJobsService } from './ingestion-jobs.service';
+import { DocumentExtractorRegistry } from './document-extractor';
+import { LLM_PROVIDER, LlmProvider } from './llm-provider';
+import { KnowledgeBaseScopeModule } from './knowledge-base-scope.module';
+
+export const DEFAULT_KNOWLEDGE_BASE_ID = 'default';
+
+export interface CreateKnowledgeBaseInput {
+  id: string;
+  name?: string;
+  description?: string;
+  // Defaults to the configured embedding model
+  embeddingModel?: string;
+  // Defaults to the configured CHUNK_STRATEGY, CHUNK_SIZE and CHUNK_OVERLAP
+  chunking?: Partial<ChunkingOptions>;
+}
+
+/**
+ * The services that serve one knowledge base. Uploads, queries and
+ * retrieval use the ones of the knowledge base a request targets.
+ */
+export interface KnowledgeBaseContext {
+  knowledgeBase: KnowledgeBase;
+  vectorStore: VectorStore;
+  chunkingService: ChunkingService;
+  retrievalService: RetrievalService;
+  pdfService: PdfService;
+  ingestionJobsService: IngestionJobsService;
+  aiQueryService: AiQueryService;
+}
+
+// Lowercase so the id maps onto a valid Milvus collection name
+const KNOWLEDGE_BASE_ID = /^[a-z0-9][a-z0-9_-]{0,47}$/;
+
+/**
+ * Validates the body of a create request. Chunking values are only checked
+ * for type here; their ranges are checked against ChunkingService on create.
+ */
+export function parseKnowledgeBaseInput(
+  raw: unknown,
+): CreateKnowledgeBaseInput {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Knowledge base must be an object');
+  }
+
+  const input = raw as Record<string, unknown>;
+  if (typeof input.id !== 'string' || !KNOWLEDGE_BASE_ID.test(input.id)) {
+    throw new Error(
+      'id must be 1-48 lowercase letters, digits, "_" or "-", starting with a letter or digit',
+    );
+  }
+  for (const key of ['name', 'description', 'embeddingModel'] as const) {
+    if (
+      input[key] !== undefined &&
+      (typeof input[key] !== 'string' || !(input[key] as string).trim())
+    ) {
+      throw new Error(`${key} must be a non-empty string`);
+    }
+  }
+
+  let chunking: Partial<ChunkingOptions> | undefined;
+  if (input.chunking !== undefined) {
+    if (
+      !input.chunking ||
+      typeof input.chunking !== 'object' ||
+      Array.isArray(input.chunking)
+    ) {
+      throw new Error('chunking must be an object');
+    }
+    const fields = input.chunking as Record<string, unknown>;
+    chunking = {};
+    if (fields.strategy !== undefined) {
+      chunking.strategy = String(fields.strategy) as ChunkingStrategy;
+    }
+    for (const key of ['chunkSize', 'chunkOverlap'] as const) {
+      if (fields[key] !== undefined) {
+        const value = Number(fields[key]);
+        if (typeof fields[key] === 'boolean' || !Number.isFinite(value)) {
+          throw new Error(`chunking.${key} must be a number`);
+        }
+        chunking[key] = value;
+      }
+    }
+  }
+
+  return {
+    id: input.id,
+    name: (input.name as string | undefined)?.trim(),
+    description: (input.description as string | undefined)?.trim(),
+    embeddingModel: (input.embeddingModel as string | undefined)?.trim(),
+    chunking,
+  };
+}
+
+/**
+ * The application config with some settings replaced, so that services
+ * built for a knowledge base read its collection, model and storage paths
+ * instead of the global ones.
+ */
+class ScopedConfigService extends ConfigService {
+  constructor(
+    private readonly parent: ConfigService,
+    private readonly overrides: Record<string, string | undefined>,
+  ) {
+    super();
+  }
+
+  get<T = string>(propertyPath: string, defaultValue?: T): T | undefined {
+    if (propertyPath in this.overrides) {
+      return (this.overrides[propertyPath] as T | undefined) ?? defaultValue;
+    }
+    return this.parent.get<T>(propertyPath, defaultValue as T);
+  }
+}
+
+/**
+ * Named knowledge bases, each with its own collection, embedding
+ * model, chunking defaults, document store and keyword index. The default
+ * knowledge base is the one described by the configuration and is served by
+ * the application's own services; the others get their own instances of
+ * the same services, built on first use. The reranker, context builder,
+ * prompt templates and LLM are shared.
+ */
+@Injectable()
+export class KnowledgeBasesService implements OnModuleDestroy {
+  private readonly logger = new Logger(KnowledgeBasesService.name);
+  private readonly contexts: Map<string, Promise<KnowledgeBaseContext>> =
+    new Map();
+  private readonly scopes: Map<string, INestApplicationContext> = new Map();
+  private readonly dataDirectory: string;
+  private readonly defaultContext: KnowledgeBaseContext;
+
+  constructor(
+    private configService: ConfigService,
+    @Inject(KNOWLEDGE_BASE_REPOSITORY)
+    private knowledgeBaseRepository: KnowledgeBaseRepository,
+    @Inject(VECTOR_STORE) vectorStore: VectorStore,
+    embeddingsService: EmbeddingsService,
+    chunkingService: ChunkingService,
+    retrievalService: RetrievalService,
+    pdfService: PdfService,
+    ingestionJobsService: IngestionJobsService,
+    aiQueryService: AiQueryService,
+    private extractorRegistry: DocumentExtractorRegistry,
+    private rerankingService: RerankingService,
+    private contextBuilderService: ContextBuilderService,
+    private promptTemplatesService: PromptTemplatesService,
+    @Inject(LLM_PROVIDER) private llmProvider: LlmProvider,
+  ) {
+    this.dataDirectory = this.configService.get<string>(
+      'KNOWLEDGE_BASE_DATA_DIR',
+      path.join(process.cwd(), 'data', 'knowledge-bases'),
+    );
+    this.defaultContext = {
+      knowledgeBase: {
+        id: DEFAULT_KNOWLEDGE_BASE_ID,
+        name: 'Default',
+        description: 'The knowledge base described by the configuration',
+        collectionName: vectorStore.collectionName,
+        embeddingModel: embeddingsService.model,
+        chunking: chunkingService.getDefaults(),
+      },
+      vectorStore,
+      chunkingService,
+      retrievalService,
+      pdfService,
+      ingestionJobsService,
+      aiQueryService,
+    };
+  }
+
+  async onModuleDestroy() {
+    await Promise.all(Array.from(this.scopes.keys(), (id) => this.close(id)));
+  }
+
+  async list(): Promise<KnowledgeBase[]> {
+    const knowledgeBases = await this.knowledgeBaseRepository.findAll();
+    return [
+      this.defaultContext.knowledgeBase,
+      ...knowledgeBases.sort(
+        (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+      ),
+    ];
+  }
+
+  async get(id: string): Promise<KnowledgeBase | undefined> {
+    if (id === DEFAULT_KNOWLEDGE_BASE_ID) {
+      return this.defaultContext.knowledgeBase;
+    }
+    return this.knowledgeBaseRepository.findById(id);
+  }
+
+  /**
+   * Returns the services of a knowledge base, building them the first time
+   * it is used. Returns undefined if the knowledge base does not exist.
+   */
+  async resolve(
+    id: string = DEFAULT_KNOWLEDGE_BASE_ID,
+  ): Promise<KnowledgeBaseContext | undefined> {
+    if (id === DEFAULT_KNOWLEDGE_BASE_ID) {
+      return this.defaultContext;
+    }
+
+    let context = this.contexts.get(id);
+    if (!context) {
+      const knowledgeBase = await this.knowledgeBaseRepository.findById(id);
+      if (!knowledgeBase) {
+        return undefined;
+      }
+      context = this.open(knowledgeBase);
+      this.contexts.set(id, context);
+      // Let the next request try again, e.g. once the vector store is reachable
+      context.catch(() => this.contexts.delete(id));
+    }
+    return context;
+  }
+
+  /**
+   * Creates a knowledge base and its collection. Settings left out are
+   * taken from the configuration and stored, so later config changes do
+   * not affect existing knowledge bases. Throws if the id is taken, the
+   * chunking settings are invalid or the embedding model is unavailable.
+   */
+  async create(input: CreateKnowledgeBaseInput): Promise<KnowledgeBase> {
+    if (await this.get(input.id)) {
+      throw new Error(`Knowledge base ${input.id} already exists`);
+    }
+
+    const collectionName = `kb_${input.id.replace(/-/g, '_')}`;
+    const existing = await this.list();
+    if (existing.some((other) => other.collectionName === collectionName)) {
+      throw new Error(
+        `Collection ${collectionName} is already used by another knowledge base`,
+      );
+    }
+
+    const knowledgeBase: KnowledgeBase = {
+      id: input.id,
+      name: input.name ?? input.id,
+      description: input.description ?? '',
+      collectionName,
+      embeddingModel:
+        input.embeddingModel ??
+        this.defaultContext.knowledgeBase.embeddingModel,
+      chunking: this.defaultContext.chunkingService.resolveOptions(
+        input.chunking,
+      ),
+      createdAt: new Date(),
+    };
+
+    // Opening creates the collection, which also checks the model works
+    const context = await this.open(knowledgeBase);
+    try {
+      await this.knowledgeBaseRepository.save(knowledgeBase);
+    } catch (error) {
+      await this.close(knowledgeBase.id);
+      throw error;
+    }
+    this.contexts.set(knowledgeBase.id, Promise.resolve(context));
+
+    this.logger.log(
+      `Created knowledge base ${knowledgeBase.id} (${collectionName}, ${knowledgeBase.embeddingModel})`,
+    );
+    return knowledgeBase;
+  }
+
+  /**
+   * Deletes a knowledge base with its collection, documents and keyword
+   * index. Returns false if it does not exist; throws for the default one.
+   */
+  async delete(id: string): Promise<boolean> {
+    if (id === DEFAULT_KNOWLEDGE_BASE_ID) {
+      throw new Error('The default knowledge base cannot be deleted');
+    }
+
+    const context = await this.resolve(id);
+    if (!context) {
+      return false;
+    }
+
+    // Jobs still running would write into the collection as it is dropped
+    await context.ingestionJobsService.cancelAll();
+    await context.vectorStore.deleteCollection();
+    await this.close(id);
+    await fs.promises.rm(this.directoryOf(id), {
+      recursive: true,
+      force: true,
+    });
+    await this.knowledgeBaseRepository.delete(id);
+    this.contexts.delete(id);
+
+    this.logger.log(`Deleted knowledge base ${id}`);
+    return true;
+  }
+
+  private directoryOf(id: string): string {
+    return path.join(this.dataDirectory, id);
+  }
+
+  /**
+   * Starts the services of a stored knowledge base in their own Nest
+   * application context, so they get the same lifecycle hooks as the
+   * default ones. Creating the vector store also creates the collection if
+   * needed.
+   */
+  private async open(
+    knowledgeBase: KnowledgeBase,
+  ): Promise<KnowledgeBaseContext> {
+    const directory = this.directoryOf(knowledgeBase.id);
+    const config = new ScopedConfigService(this.configService, {
+      COLLECTION_NAME: knowledgeBase.collectionName,
+      EMBEDDING_MODEL: knowledgeBase.embeddingModel,
+      OPENAI_EMBEDDING_MODEL: knowledgeBase.embeddingModel,
+      // The collection is created at the model's native size
+      VECTOR_DIMENSION: undefined,
+      CHUNK_STRATEGY: knowledgeBase.chunking.strategy,
+      CHUNK_SIZE: String(knowledgeBase.chunking.chunkSize),
+      CHUNK_OVERLAP: String(knowledgeBase.chunking.chunkOverlap),
+      DOCUMENT_STORE_PATH: path.join(directory, 'documents.json'),
+      KEYWORD_INDEX_PATH: path.join(directory, 'keyword-index.json'),
+    });
+
+    const scope = await NestFactory.createApplicationContext(
+      KnowledgeBaseScopeModule.register(config, {
+        extractorRegistry: this.extractorRegistry,
+        rerankingService: this.rerankingService,
+        contextBuilderService: this.contextBuilderService,
+        promptTemplatesService: this.promptTemplatesService,
+        llmProvider: this.llmProvider,
+      }),
+      // Report a knowledge base that cannot open instead of exiting
+      { abortOnError: false },
+    );
+    this.scopes.set(knowledgeBase.id, scope);
+
+    this.logger.log(`Opened knowledge base ${knowledgeBase.id}`);
+    return {
+      knowledgeBase,
+      vectorStore: scope.get(VECTOR_STORE),
+      chunkingService: scope.get(ChunkingService),
+      retrievalService: scope.get(RetrievalService),
+      pdfService: scope.get(PdfService),
+      ingestionJobsService: scope.get(IngestionJobsService),
+      aiQueryService: scope.get(AiQueryService),
+    };
+  }
+
+  /** Runs the shutdown hooks of a knowledge base's services. */
+  private async close(id: string): Promise<void> {
+    const scope = this.scopes.get(id);
+    this.scopes.delete(id);
+    await scope?.close();
+  }
+}
@@ -0,0 +1,78 @@
+import { RerankCandidate, Reranker } from './reranker';
+import { tokenize } from './keyword-index.service';
+
+// Words too common to say anything about relevance
+export const STOPWORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'do',
+  'does',
+  'for',
+  'from',
+  'how',
+  'i',
+  'in',
+  'is',
+  'it',
+  'my',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'what',
+  'when',
+  'where',
+  'which',
+  'who',
+  'why',
+  'with',
+  'you',
+  'your',
+]);
+
+/**
+ * Cheap reranker scoring the share of the query's terms that appear in a
+ * chunk, with a bonus for query phrases (adjacent term pairs) found intact.
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = 'lexical';
+
+  async score(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    const queryTerms = tokenize(query).filter((term) => !STOPWORDS.has(term));
+    const terms = new Set(queryTerms);
+    const pairs = new Set(
+      queryTerms.slice(1).map((term, i) => `${queryTerms[i]} ${term}`),
+    );
+    if (terms.size === 0) {
+      return candidates.map(() => 0);
+    }
+
+    return candidates.map((candidate) => {
+      const chunkTerms = tokenize(candidate.text);
+      const chunkTermSet = new Set(chunkTerms);
+      const chunkPairs = new Set(
+        chunkTerms.slice(1).map((term, i) => `${chunkTerms[i]} ${term}`),
+      );
+
+      const coverage =
+        Array.from(terms).filter((term) => chunkTermSet.has(term)).length /
+        terms.size;
+      const phrases =
+        pairs.size === 0
+          ? coverage
+          : Array.from(pairs).filter((pair) => chunkPairs.has(pair)).length /
+            pairs.size;
+      return 0.8 * coverage + 0.2 * phrases;
+    });
+  }
+}
@@ -0,0 +1,46 @@
+import { ConfigService } from '@nestjs/config';
+import { OllamaLlmProvider } from './ollama-llm.provider';
+import { OpenAiLlmProvider } from './openai-llm.provider';
+import { MockLlmProvider } from './mock-llm.provider';
+
+export const LLM_PROVIDER = 'LLM_PROVIDER';
+
+export interface GenerationOptions {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+}
+
+/**
+ * A text generation backend. Implementations turn a fully built prompt into
+ * an answer; retrieval and prompt construction stay in AiQueryService.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(prompt: string, options?: GenerationOptions): Promise<string>;
+  generateStream(
+    prompt: string,
+    options?: GenerationOptions,
+    signal?: AbortSignal,
+  ): AsyncGenerator<string>;
+  testConnection(): Promise<boolean>;
+}
+
+export function createLlmProvider(configService: ConfigService): LlmProvider {
+  const provider = configService.get<string>('LLM_PROVIDER', 'ollama');
+
+  switch (provider) {
+    case 'ollama':
+      return new OllamaLlmProvider(configService);
+    case 'openai':
+      return new OpenAiLlmProvider(configService);
+    case 'mock':
+      return new MockLlmProvider(
+        configService.get<string>('MOCK_LLM_RESPONSE'),
+      );
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}"`);
+  }
+}
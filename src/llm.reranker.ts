@@ -0,0 +1,50 @@
+import { Logger } from '@nestjs/common';
+import { LlmProvider } from './llm-provider';
+import { RerankCandidate, Reranker } from './reranker';
+import { ConcurrencyLimiter } from './concurrency';
+
+/**
+ * Asks the configured LLM to rate each chunk's relevance from 0 to 10. One
+ * request per chunk, at most RERANK_CONCURRENCY at a time.
+ */
+export class LlmReranker implements Reranker {
+  readonly name = 'llm';
+  private readonly logger = new Logger(LlmReranker.name);
+  private readonly limiter: ConcurrencyLimiter;
+
+  constructor(
+    private readonly llmProvider: LlmProvider,
+    concurrency: number = 2,
+  ) {
+    this.limiter = new ConcurrencyLimiter(concurrency);
+  }
+
+  async score(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    return Promise.all(
+      candidates.map((candidate) =>
+        this.limiter.run(() => this.rate(query, candidate.text)),
+      ),
+    );
+  }
+
+  private async rate(query: string, text: string): Promise<number> {
+    const prompt = `Rate how relevant the passage is to the question on a scale from 0 (unrelated) to 10 (answers it). Reply with the number only.
+
+Question: ${query}
+
+Passage: ${text}
+
+Relevance:`;
+
+    const response = await this.llmProvider.generate(prompt, {
+      temperature: 0,
+      maxTokens: 4,
+    });
+    const rating = /\d+(?:\.\d+)?/.exec(response);
+    if (!rating) {
+      this.logger.warn(`Could not read a relevance rating from "${response}"`);
+      return 0;
+    }
+    return Math.min(Math.max(Number(rating[0]), 0), 10) / 10;
+  }
+}
@@ -0,0 +1,39 @@
+import {
+  DocumentExtractor,
+  ExtractedDocument,
+  sectionsFromHeadings,
+} from './document-extractor';
+import { decodeText } from './text.extractor';
+
+/**
+ * Finds ATX headings ("## Title") outside fenced code blocks and returns
+ * one section per heading.
+ */
+export function markdownSections(text: string) {
+  const headings: { index: number; heading: string }[] = [];
+  let inFence = false;
+
+  for (const line of text.matchAll(/^.*$/gm)) {
+    if (/^\s*(```|~~~)/.test(line[0])) {
+      inFence = !inFence;
+      continue;
+    }
+    const heading = /^#{1,6}[ \t]+(.+?)[ \t#]*$/.exec(line[0]);
+    if (heading && !inFence) {
+      headings.push({ index: line.index, heading: heading[1] });
+    }
+  }
+
+  return sectionsFromHeadings(text, headings);
+}
+
+export class MarkdownExtractor implements DocumentExtractor {
+  readonly format = 'markdown';
+  readonly extensions = ['.md', '.markdown'];
+  readonly mimeTypes = ['text/markdown', 'text/x-markdown'];
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const text = decodeText(buffer);
+    return { text, sections: markdownSections(text) };
+  }
+}
@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryVectorStore } from './memory.vector-store';
+import { EmbeddingsService } from './embeddings.service';
+import { ChunkData, SourceType } from './vector-store';
+
+describe('InMemoryVectorStore', () => {
+  const embeddingsService = {
+    getDimension: async () => 2,
+  } as unknown as EmbeddingsService;
+
+  const chunk = (
+    id: string,
+    embedding: number[],
+    sourceType: SourceType = 'pdf',
+  ): ChunkData => ({
+    id,
+    text: `text of ${id}`,
+    embedding,
+    metadata: {
+      documentId: id.substring(0, id.lastIndexOf('_chunk_')),
+      sourceType,
+      filename: 'guide.pdf',
+      pageNumber: 1,
+      pageEnd: 1,
+      sectionNumber: 0,
+      heading: '',
+      chunkIndex: 0,
+      charStart: 0,
+      charEnd: 10,
+      embeddingModel: 'test',
+      uploadedAt: 0,
+    },
+  });
+
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'vectors-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should rank by inner product or cosine similarity within the filter', async () => {
+    const chunks = [
+      chunk('doc_a_chunk_0', [3, 0]),
+      chunk('doc_b_chunk_0', [1, 1]),
+      chunk('doc_c_chunk_0', [0, 1], 'markdown'),
+    ];
+    const innerProduct = new InMemoryVectorStore('test', embeddingsService);
+    const cosine = new InMemoryVectorStore('test', embeddingsService, 'cosine');
+    for (const store of [innerProduct, cosine]) {
+      await store.init();
+      await store.insertChunks(chunks);
+    }
+
+    const ranked = await innerProduct.search([1, 1], 3);
+    expect(ranked.map((hit) => [hit.id, hit.score])).toEqual([
+      ['doc_a_chunk_0', 3],
+      ['doc_b_chunk_0', 2],
+      ['doc_c_chunk_0', 1],
+    ]);
+    expect((await cosine.search([1, 1], 1))[0].id).toBe('doc_b_chunk_0');
+    expect(
+      await innerProduct.search([1, 1], 3, { sourceTypes: ['markdown'] }),
+    ).toEqual([
+      expect.objectContaining({
+        id: 'doc_c_chunk_0',
+        text: 'text of doc_c_chunk_0',
+      }),
+    ]);
+  });
+
+  it('should persist chunks to its file and reload them', async () => {
+    const filePath = path.join(directory, 'test.json');
+    const store = new InMemoryVectorStore(
+      'test',
+      embeddingsService,
+      'ip',
+      filePath,
+    );
+    await store.init();
+    await store.insertChunks([
+      chunk('doc_a_chunk_0', [1, 0]),
+      chunk('doc_a_chunk_1', [0, 1]),
+      chunk('doc_b_chunk_0', [1, 1]),
+    ]);
+    expect(await store.deleteDocumentChunks('doc_b')).toBe(1);
+
+    const reloaded = new InMemoryVectorStore(
+      'test',
+      embeddingsService,
+      'ip',
+      filePath,
+    );
+    await reloaded.init();
+
+    expect(await reloaded.getDocumentChunkCounts()).toEqual(
+      new Map([['doc_a', 2]]),
+    );
+  });
+
+  it('should refuse stored vectors of another dimension', async () => {
+    const filePath = path.join(directory, 'test.json');
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify([chunk('doc_a_chunk_0', [1, 0, 0])]),
+    );
+
+    await expect(
+      new InMemoryVectorStore('test', embeddingsService, 'ip', filePath).init(),
+    ).rejects.toThrow('stores 3-dimensional vectors');
+  });
+});
@@ -0,0 +1,166 @@
+import { Logger } from '@nestjs/common';
+import { EmbeddingsService } from './embeddings.service';
+import { SearchFilter, matchesFilter } from './search-filter';
+import { JsonFileStore } from './json-file-store';
+import {
+  ChunkData,
+  ScoredChunk,
+  StoredChunk,
+  VectorStore,
+} from './vector-store';
+
+export type VectorMetric = 'ip' | 'cosine';
+
+/**
+ * Keeps chunks in process memory and searches them by brute force, for
+ * development and tests without a Milvus server. With a file path, the
+ * collection is loaded from that file at startup and written back after
+ * every change.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  readonly name = 'memory';
+  private readonly logger = new Logger(InMemoryVectorStore.name);
+  private readonly chunks: Map<string, ChunkData> = new Map();
+  private readonly store: JsonFileStore<ChunkData[]> | undefined;
+
+  constructor(
+    readonly collectionName: string,
+    private readonly embeddingsService: EmbeddingsService,
+    private readonly metric: VectorMetric = 'ip',
+    private readonly filePath?: string,
+  ) {
+    this.store = filePath ? new JsonFileStore(filePath) : undefined;
+    if (metric !== 'ip' && metric !== 'cosine') {
+      throw new Error(
+        `Unknown VECTOR_STORE_METRIC "${metric}"; expected ip or cosine`,
+      );
+    }
+  }
+
+  async init(): Promise<void> {
+    const records = (await this.store?.read()) ?? [];
+    records.forEach((chunk) => this.chunks.set(chunk.id, chunk));
+
+    const dimension = await this.embeddingsService.getDimension();
+    const stored = this.chunks.values().next().value as ChunkData | undefined;
+    if (stored && stored.embedding.length !== dimension) {
+      throw new Error(
+        `Collection '${this.collectionName}' stores ${stored.embedding.length}-dimensional vectors but the embedding provider produces ${dimension}; use a new COLLECTION_NAME or re-embed the collection`,
+      );
+    }
+
+    this.logger.log(
+      `Using in-memory collection '${this.collectionName}' with ${this.chunks.size} chunks${this.filePath ? `, saved to ${this.filePath}` : ''}`,
+    );
+  }
+
+  async insertChunks(chunks: ChunkData[]): Promise<void> {
+    chunks.forEach((chunk) => this.chunks.set(chunk.id, chunk));
+    await this.persist();
+    this.logger.log(`Inserted ${chunks.length} chunks`);
+  }
+
+  async search(
+    embedding: number[],
+    topK: number = 5,
+    filter?: SearchFilter,
+  ): Promise<ScoredChunk[]> {
+    const queryNorm = this.metric === 'cosine' ? norm(embedding) : 1;
+    const hits: ScoredChunk[] = [];
+    for (const chunk of this.chunks.values()) {
+      if (!matchesFilter(chunk.metadata, filter)) {
+        continue;
+      }
+      let score = dot(embedding, chunk.embedding);
+      if (this.metric === 'cosine') {
+        score /= queryNorm * norm(chunk.embedding) || 1;
+      }
+      hits.push({ ...toStoredChunk(chunk), score });
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  async query(
+    filter?: SearchFilter,
+    limit: number = 100,
+  ): Promise<StoredChunk[]> {
+    const matches: StoredChunk[] = [];
+    for (const chunk of this.chunks.values()) {
+      if (matches.length >= limit) {
+        break;
+      }
+      if (matchesFilter(chunk.metadata, filter)) {
+        matches.push(toStoredChunk(chunk));
+      }
+    }
+    return matches;
+  }
+
+  async *iterateChunks(
+    batchSize: number = 1000,
+  ): AsyncGenerator<StoredChunk[]> {
+    const chunks = Array.from(this.chunks.values());
+    for (let start = 0; start < chunks.length; start += batchSize) {
+      yield chunks.slice(start, start + batchSize).map(toStoredChunk);
+    }
+  }
+
+  async deleteDocumentChunks(documentId: string): Promise<number> {
+    let deleted = 0;
+    for (const chunk of Array.from(this.chunks.values())) {
+      if (chunk.metadata.documentId === documentId) {
+        this.chunks.delete(chunk.id);
+        deleted++;
+      }
+    }
+    if (deleted > 0) {
+      await this.persist();
+    }
+    this.logger.log(`Deleted ${deleted} chunks for document ${documentId}`);
+    return deleted;
+  }
+
+  async getDocumentChunkCounts(
+    idPrefix: string = 'doc_',
+  ): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    for (const id of this.chunks.keys()) {
+      const separator = id.lastIndexOf('_chunk_');
+      if (!id.startsWith(idPrefix) || separator === -1) {
+        continue;
+      }
+      const documentId = id.substring(0, separator);
+      counts.set(documentId, (counts.get(documentId) || 0) + 1);
+    }
+    return counts;
+  }
+
+  async deleteCollection(): Promise<void> {
+    this.chunks.clear();
+    await this.store?.delete();
+    this.logger.log(`Collection '${this.collectionName}' deleted`);
+  }
+
+  private persist(): Promise<void> {
+    if (!this.store) {
+      return Promise.resolve();
+    }
+    return this.store.write(Array.from(this.chunks.values()));
+  }
+}
+
+function toStoredChunk({ id, text, metadata }: ChunkData): StoredChunk {
+  return { id, text, metadata };
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function norm(vector: number[]): number {
+  return Math.sqrt(dot(vector, vector));
+}
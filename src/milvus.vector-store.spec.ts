@@ -0,0 +1,96 @@
+import { ConfigService } from '@nestjs/config';
+import { MilvusClient } from '@zilliz/milvus2-sdk-node';
+import { MilvusVectorStore } from './milvus.vector-store';
+import { EmbeddingsService } from './embeddings.service';
+
+jest.mock('@zilliz/milvus2-sdk-node', () => ({
+  MilvusClient: jest.fn(),
+  DataType: { Int64: 5, VarChar: 21, FloatVector: 101 },
+}));
+
+describe('MilvusVectorStore', () => {
+  const success = { error_code: 'Success', reason: '' };
+
+  // A collection with the schema from before chunk metadata was stored
+  const createClient = (counts: Record<string, number>) => ({
+    listCollections: jest.fn(async () => ({ data: [{ name: 'chunks' }] })),
+    describeCollection: jest.fn(async () => ({
+      schema: {
+        fields: [
+          { name: 'id' },
+          { name: 'text' },
+          { name: 'embedding', dim: 2 },
+        ],
+      },
+    })),
+    loadCollection: jest.fn(async () => success),
+    hasCollection: jest.fn(async () => ({ value: false })),
+    createCollection: jest.fn(async () => success),
+    createIndex: jest.fn(async () => success),
+    queryIterator: jest.fn(async () =>
+      (async function* () {
+        yield [
+          { id: 'doc_1_chunk_0', text: 'one', embedding: [1, 0] },
+          { id: 'doc_1_chunk_1', text: 'two', embedding: [0, 1] },
+        ];
+      })(),
+    ),
+    insert: jest.fn(async () => ({ status: success })),
+    flushSync: jest.fn(async () => ({})),
+    count: jest.fn(async ({ collection_name }) => ({
+      status: success,
+      data: counts[collection_name],
+    })),
+    renameCollection: jest.fn(async () => success),
+    dropCollection: jest.fn(async () => success),
+  });
+
+  const createStore = (client: ReturnType<typeof createClient>) => {
+    jest.mocked(MilvusClient).mockImplementation(() => client as any);
+    return new MilvusVectorStore(
+      'chunks',
+      new ConfigService({ MILVUS_MIGRATE_SCHEMA: 'true' }),
+      { getDimension: async () => 2 } as unknown as EmbeddingsService,
+    );
+  };
+
+  it('should swap in the migrated collection and drop the old one', async () => {
+    const client = createClient({ chunks: 2, chunks_migrating: 2 });
+
+    await createStore(client).init();
+
+    expect(client.renameCollection.mock.calls).toEqual([
+      [{ collection_name: 'chunks', new_collection_name: 'chunks_legacy' }],
+      [{ collection_name: 'chunks_migrating', new_collection_name: 'chunks' }],
+    ]);
+    expect(client.dropCollection).toHaveBeenCalledWith({
+      collection_name: 'chunks_legacy',
+    });
+  });
+
+  it('should keep the old collection when the copy is incomplete', async () => {
+    const client = createClient({ chunks: 3, chunks_migrating: 2 });
+
+    await expect(createStore(client).init()).rejects.toThrow(
+      "Copied 2 of 3 chunks into 'chunks_migrating'",
+    );
+    expect(client.renameCollection).not.toHaveBeenCalled();
+    expect(client.dropCollection).not.toHaveBeenCalled();
+  });
+
+  it('should restore the old collection when the swap fails', async () => {
+    const client = createClient({ chunks: 2, chunks_migrating: 2 });
+    client.renameCollection
+      .mockResolvedValueOnce(success)
+      .mockResolvedValueOnce({ error_code: 'UnexpectedError', reason: 'busy' });
+
+    await expect(createStore(client).init()).rejects.toThrow(
+      "Milvus could not rename collection 'chunks_migrating' to 'chunks': busy",
+    );
+    expect(client.renameCollection).toHaveBeenLastCalledWith({
+      collection_name: 'chunks_legacy',
+      new_collection_name: 'chunks',
+    });
+    expect(client.dropCollection).not.toHaveBeenCalled();
+  });
+});
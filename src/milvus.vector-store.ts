@@ -0,0 +1,659 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  MilvusClient,
+  DataType,
+  FieldType,
+  MutationResult,
+} from '@zilliz/milvus2-sdk-node';
+import { EmbeddingsService } from './embeddings.service';
+import {
+  ChunkData,
+  ChunkMetadata,
+  ScoredChunk,
+  StoredChunk,
+  VectorStore,
+} from './vector-store';
+import {
+  SearchFilter,
+  filterFields,
+  toMilvusExpression,
+} from './search-filter';
+
+// Scalar fields stored next to each vector, keyed by Milvus field name
+const METADATA_FIELDS: {
+  name: string;
+  key: keyof ChunkMetadata;
+  field: Omit<FieldType, 'name'>;
+}[] = [
+  {
+    name: 'document_id',
+    key: 'documentId',
+    field: { data_type: DataType.VarChar, max_length: 100 },
+  },
+  {
+    name: 'source_type',
+    key: 'sourceType',
+    field: { data_type: DataType.VarChar, max_length: 32 },
+  },
+  {
+    name: 'filename',
+    key: 'filename',
+    field: { data_type: DataType.VarChar, max_length: 512 },
+  },
+  {
+    name: 'page_number',
+    key: 'pageNumber',
+    field: { data_type: DataType.Int64 },
+  },
+  {
+    name: 'page_end',
+    key: 'pageEnd',
+    field: { data_type: DataType.Int64 },
+  },
+  {
+    name: 'section_number',
+    key: 'sectionNumber',
+    field: { data_type: DataType.Int64 },
+  },
+  {
+    name: 'heading',
+    key: 'heading',
+    field: { data_type: DataType.VarChar, max_length: 512 },
+  },
+  {
+    name: 'chunk_index',
+    key: 'chunkIndex',
+    field: { data_type: DataType.Int64 },
+  },
+  {
+    name: 'char_start',
+    key: 'charStart',
+    field: { data_type: DataType.Int64 },
+  },
+  {
+    name: 'char_end',
+    key: 'charEnd',
+    field: { data_type: DataType.Int64 },
+  },
+  {
+    name: 'embedding_model',
+    key: 'embeddingModel',
+    field: { data_type: DataType.VarChar, max_length: 128 },
+  },
+  {
+    name: 'uploaded_at',
+    key: 'uploadedAt',
+    field: { data_type: DataType.Int64 },
+  },
+];
+
+const PDF_CHUNK_ID = /^(doc_.+)_chunk_(\d+)$/;
+
+// Escapes a value for a double-quoted string in a Milvus expression
+function escapeString(value: string): string {
+  return value.replace(/["\\]/g, '\\$&');
+}
+
+/**
+ * Stores chunks in a Milvus collection, searched with an IVF_FLAT index on
+ * inner product.
+ */
+export class MilvusVectorStore implements VectorStore {
+  readonly name = 'milvus';
+  private readonly logger = new Logger(MilvusVectorStore.name);
+  private client: MilvusClient;
+  private collectionFields: Set<string> = new Set();
+  private collectionDimension: number;
+
+  constructor(
+    readonly collectionName: string,
+    private configService: ConfigService,
+    private embeddingsService: EmbeddingsService,
+  ) {}
+
+  async init() {
+    await this.connect();
+    await this.createCollection();
+  }
+
+  private async connect() {
+    const host = this.configService.get<string>('MILVUS_HOST', 'localhost');
+    const port = this.configService.get<string>('MILVUS_PORT', '19530');
+
+    this.client = new MilvusClient({
+      address: `${host}:${port}`,
+    });
+
+    this.logger.log(`Connected to Milvus at ${host}:${port}`);
+  }
+
+  private async createCollection() {
+    // Check if collection exists
+    const collections = await this.client.listCollections();
+    const collectionExists = collections.data.some(
+      (collection) => collection.name === this.collectionName,
+    );
+
+    if (!collectionExists) {
+      await this.createCollectionWithSchema(this.collectionName);
+      this.logger.log(
+        `Collection '${this.collectionName}' created successfully`,
+      );
+    } else {
+      this.logger.log(`Collection '${this.collectionName}' already exists`);
+    }
+
+    await this.loadCollectionFields();
+    await this.validateDimension();
+
+    const missingFields = METADATA_FIELDS.filter(
+      ({ name }) => !this.collectionFields.has(name),
+    ).map(({ name }) => name);
+
+    if (missingFields.length > 0) {
+      const migrate =
+        this.configService.get<string>('MILVUS_MIGRATE_SCHEMA') === 'true';
+      if (migrate) {
+        await this.migrateLegacyCollection();
+        await this.loadCollectionFields();
+      } else {
+        this.logger.warn(
+          `Collection '${this.collectionName}' uses a legacy schema without ${missingFields.join(
+            ', ',
+          )}; set MILVUS_MIGRATE_SCHEMA=true to migrate it`,
+        );
+      }
+    }
+
+    // Load collection
+    await this.client.loadCollection({
+      collection_name: this.collectionName,
+    });
+  }
+
+  private async createCollectionWithSchema(collectionName: string) {
+    const dimension = await this.embeddingsService.getDimension();
+
+    await this.client.createCollection({
+      collection_name: collectionName,
+      fields: [
+        {
+          name: 'id',
+          data_type: DataType.VarChar,
+          max_length: 100,
+          is_primary_key: true,
+        },
+        {
+          name: 'text',
+          data_type: DataType.VarChar,
+          max_length: 65535,
+        },
+        ...METADATA_FIELDS.map(({ name, field }) => ({ name, ...field })),
+        {
+          name: 'embedding',
+          data_type: DataType.FloatVector,
+          dim: dimension, // Use 'dim' instead of 'dimension'
+        },
+      ],
+    });
+
+    // Create index for vector field
+    await this.client.createIndex({
+      collection_name: collectionName,
+      field_name: 'embedding',
+      index_type: 'IVF_FLAT',
+      metric_type: 'IP',
+      params: { nlist: 1024 },
+    });
+  }
+
+  private async loadCollectionFields() {
+    const description = await this.client.describeCollection({
+      collection_name: this.collectionName,
+    });
+    this.collectionFields = new Set(
+      description.schema.fields.map((field) => field.name),
+    );
+    this.collectionDimension = Number(
+      description.schema.fields.find((field) => field.name === 'embedding')
+        ?.dim,
+    );
+  }
+
+  private async validateDimension() {
+    const dimension = await this.embeddingsService.getDimension();
+    if (this.collectionDimension !== dimension) {
+      throw new Error(
+        `Collection '${this.collectionName}' stores ${this.collectionDimension}-dimensional vectors but the embedding provider produces ${dimension}; use a new COLLECTION_NAME or re-embed the collection`,
+      );
+    }
+  }
+
+  /**
+   * Copies a collection created with an older schema into one with every
+   * metadata field, then swaps it in under the original name. Metadata that
+   * the old rows never had is derived from the chunk id where possible. The
+   * old collection is only dropped once the copy holds every chunk and the
+   * swap has succeeded; until then it stays under its own or a backup name.
+   */
+  private async migrateLegacyCollection() {
+    const targetName = `${this.collectionName}_migrating`;
+    const backupName = `${this.collectionName}_legacy`;
+    this.logger.log(
+      `Migrating collection '${this.collectionName}' to the current schema`,
+    );
+
+    await this.client.loadCollection({
+      collection_name: this.collectionName,
+    });
+
+    const existing = await this.client.hasCollection({
+      collection_name: targetName,
+    });
+    if (existing.value) {
+      await this.client.dropCollection({ collection_name: targetName });
+    }
+    await this.createCollectionWithSchema(targetName);
+
+    const outputFields = ['id', 'text', 'embedding'].concat(
+      METADATA_FIELDS.map(({ name }) => name).filter((name) =>
+        this.collectionFields.has(name),
+      ),
+    );
+    const iterator = await this.client.queryIterator({
+      collection_name: this.collectionName,
+      expr: '',
+      output_fields: outputFields,
+      batchSize: 1000,
+    });
+
+    for await (const rows of iterator) {
+      if (rows.length === 0) {
+        continue;
+      }
+      const result = await this.client.insert({
+        collection_name: targetName,
+        data: rows.map((row) => this.toRow(this.fromLegacyRow(row))),
+      });
+      if (result.status?.error_code !== 'Success') {
+        throw new Error(
+          `Milvus refused to copy chunks into '${targetName}': ${result.status?.reason}`,
+        );
+      }
+    }
+
+    await this.client.flushSync({ collection_names: [targetName] });
+    await this.client.loadCollection({ collection_name: targetName });
+    const sourceCount = await this.countChunks(this.collectionName);
+    const migrated = await this.countChunks(targetName);
+    if (migrated !== sourceCount) {
+      throw new Error(
+        `Copied ${migrated} of ${sourceCount} chunks into '${targetName}'; collection '${this.collectionName}' was left unchanged`,
+      );
+    }
+
+    await this.renameCollection(this.collectionName, backupName);
+    try {
+      await this.renameCollection(targetName, this.collectionName);
+    } catch (error) {
+      await this.renameCollection(backupName, this.collectionName);
+      throw error;
+    }
+    await this.client.dropCollection({ collection_name: backupName });
+
+    this.logger.log(
+      `Migrated ${migrated} chunks into collection '${this.collectionName}'`,
+    );
+  }
+
+  private async countChunks(collectionName: string): Promise<number> {
+    const result = await this.client.count({ collection_name: collectionName });
+    if (result.status?.error_code !== 'Success') {
+      throw new Error(
+        `Milvus could not count the chunks in '${collectionName}': ${result.status?.reason}`,
+      );
+    }
+    return Number(result.data);
+  }
+
+  private async renameCollection(from: string, to: string) {
+    const status = await this.client.renameCollection({
+      collection_name: from,
+      new_collection_name: to,
+    });
+    if (status.error_code !== 'Success') {
+      throw new Error(
+        `Milvus could not rename collection '${from}' to '${to}': ${status.reason}`,
+      );
+    }
+  }
+
+  private fromLegacyRow(row: Record<string, any>): ChunkData {
+    const pdfMatch = PDF_CHUNK_ID.exec(String(row.id));
+    const metadata: ChunkMetadata = pdfMatch
+      ? {
+          documentId: pdfMatch[1],
+          sourceType: 'pdf',
+          filename: '',
+          pageNumber: 0,
+          pageEnd: 0,
+          sectionNumber: 0,
+          heading: '',
+          chunkIndex: Number(pdfMatch[2]),
+          charStart: -1,
+          charEnd: -1,
+          embeddingModel: '',
+          uploadedAt: 0,
+        }
+      : {
+          documentId: 'about_me',
+          sourceType: 'text',
+          filename: 'about_me.txt',
+          pageNumber: 0,
+          pageEnd: 0,
+          sectionNumber: 0,
+          heading: '',
+          chunkIndex: 0,
+          charStart: -1,
+          charEnd: -1,
+          embeddingModel: '',
+          uploadedAt: 0,
+        };
+
+    for (const { name, key } of METADATA_FIELDS) {
+      if (row[name] !== undefined && row[name] !== '') {
+        (metadata as any)[key] =
+          typeof metadata[key] === 'number' ? Number(row[name]) : row[name];
+      }
+    }
+
+    return {
+      id: String(row.id),
+      text: row.text,
+      embedding: row.embedding,
+      metadata,
+    };
+  }
+
+  private toRow(chunk: ChunkData): Record<string, any> {
+    const row: Record<string, any> = {
+      id: chunk.id,
+      text: chunk.text,
+      embedding: chunk.embedding,
+    };
+    for (const { name, key } of METADATA_FIELDS) {
+      row[name] = chunk.metadata[key];
+    }
+    return row;
+  }
+
+  /**
+   * Converts a search or query hit back into chunk metadata, for whichever
+   * metadata fields the collection has.
+   */
+  private toChunkMetadata(row: Record<string, any>): Partial<ChunkMetadata> {
+    const metadata: Partial<ChunkMetadata> = {};
+    for (const { name, key, field } of METADATA_FIELDS) {
+      if (row[name] !== undefined) {
+        (metadata as any)[key] =
+          field.data_type === DataType.Int64 ? Number(row[name]) : row[name];
+      }
+    }
+    return metadata;
+  }
+
+  private toStoredChunk(row: Record<string, any>): StoredChunk {
+    return {
+      id: String(row.id),
+      text: row.text,
+      metadata: this.toChunkMetadata(row),
+    };
+  }
+
+  private get outputFields(): string[] {
+    return ['id', 'text'].concat(
+      METADATA_FIELDS.map(({ name }) => name).filter((name) =>
+        this.collectionFields.has(name),
+      ),
+    );
+  }
+
+  async insertChunks(chunks: ChunkData[]): Promise<void> {
+    // Legacy collections only accept the fields they were created with
+    const data = chunks.map((chunk) => {
+      const row = this.toRow(chunk);
+      for (const field of Object.keys(row)) {
+        if (!this.collectionFields.has(field)) {
+          delete row[field];
+        }
+      }
+      return row;
+    });
+
+    await this.client.insert({
+      collection_name: this.collectionName,
+      data: data,
+    });
+
+    this.logger.log(`Inserted ${chunks.length} chunks into Milvus`);
+  }
+
+  async search(
+    queryEmbedding: number[],
+    topK: number = 5,
+    filter?: SearchFilter,
+  ): Promise<ScoredChunk[]> {
+    try {
+      const expression = this.toFilterExpression(filter);
+      this.logger.log(
+        `Searching for similar chunks with topK=${topK}${expression ? ` where ${expression}` : ''}`,
+      );
+
+      const searchParams = {
+        collection_name: this.collectionName,
+        vector: queryEmbedding,
+        filter: expression,
+        params: { nprobe: 10 },
+        limit: topK,
+        offset: 0,
+        metric_type: 'IP',
+        output_fields: this.outputFields,
+      };
+
+      const result = await this.client.search(searchParams);
+
+      this.logger.log(`Search returned ${result.results?.length || 0} results`);
+
+      // Log each result for debugging
+      if (result.results) {
+        result.results.forEach((chunk, index) => {
+          this.logger.log(
+            `Result ${index + 1}: Score=${chunk.score}, Text="${chunk.text?.substring(
+              0,
+              100,
+            )}..."`,
+          );
+        });
+      }
+
+      return (result.results || []).map((row) => ({
+        ...this.toStoredChunk(row),
+        score: row.score,
+      }));
+    } catch (error) {
+      this.logger.error('Error searching similar chunks:', error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Builds the Milvus expression for a filter, refusing filters on metadata
+   * fields that a legacy collection doesn't have.
+   */
+  private toFilterExpression(filter?: SearchFilter): string {
+    const missing = filterFields(filter).filter(
+      (name) => !this.collectionFields.has(name),
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Collection '${this.collectionName}' has no ${missing.join(', ')} field to filter on; set MILVUS_MIGRATE_SCHEMA=true to migrate it`,
+      );
+    }
+    return toMilvusExpression(filter);
+  }
+
+  /**
+   * Removes every chunk belonging to a document and returns how many were
+   * deleted. Throws if Milvus rejects the delete.
+   */
+  async deleteDocumentChunks(documentId: string): Promise<number> {
+    let result: MutationResult;
+    if (this.collectionFields.has('document_id')) {
+      // Deleting by expression removes every match, however many chunks the
+      // document has
+      result = await this.client.delete({
+        collection_name: this.collectionName,
+        filter: `document_id == "${escapeString(documentId)}"`,
+      });
+    } else {
+      const ids = await this.findLegacyChunkIds(documentId);
+      if (ids.length === 0) {
+        this.logger.warn(
+          `No chunks found in Milvus for document ${documentId}`,
+        );
+        return 0;
+      }
+      result = await this.client.delete({
+        collection_name: this.collectionName,
+        ids,
+      });
+    }
+
+    if (result.status?.error_code !== 'Success') {
+      throw new Error(
+        `Milvus refused to delete chunks for document ${documentId}: ${result.status?.reason}`,
+      );
+    }
+
+    const deleted = Number(result.delete_cnt) || 0;
+    if (deleted === 0) {
+      this.logger.warn(`No chunks found in Milvus for document ${documentId}`);
+      return 0;
+    }
+
+    this.logger.log(
+      `Deleted ${deleted} chunks for document ${documentId} from Milvus`,
+    );
+    return deleted;
+  }
+
+  /**
+   * Collections from before chunk metadata have no document_id, so a
+   * document's chunks are found by their id prefix. LIKE treats `_` and `%`
+   * in the document id as wildcards, so every match is checked exactly.
+   */
+  private async findLegacyChunkIds(documentId: string): Promise<string[]> {
+    const prefix = `${documentId}_chunk_`;
+    const iterator = await this.client.queryIterator({
+      collection_name: this.collectionName,
+      expr: `id like "${escapeString(prefix)}%"`,
+      output_fields: ['id'],
+      batchSize: 1000,
+    });
+
+    const ids: string[] = [];
+    for await (const rows of iterator) {
+      for (const { id } of rows) {
+        if (
+          String(id).startsWith(prefix) &&
+          /^\d+$/.test(String(id).slice(prefix.length))
+        ) {
+          ids.push(String(id));
+        }
+      }
+    }
+    return ids;
+  }
+
+  async deleteCollection(): Promise<void> {
+    await this.client.dropCollection({
+      collection_name: this.collectionName,
+    });
+    this.logger.log(`Collection '${this.collectionName}' deleted`);
+  }
+
+  /**
+   * Yields every stored chunk, without its vector, in batches.
+   */
+  async *iterateChunks(
+    batchSize: number = 1000,
+  ): AsyncGenerator<StoredChunk[]> {
+    const iterator = await this.client.queryIterator({
+      collection_name: this.collectionName,
+      expr: '',
+      output_fields: this.outputFields,
+      batchSize,
+    });
+
+    for await (const rows of iterator) {
+      if (rows.length > 0) {
+        yield rows.map((row) => this.toStoredChunk(row));
+      }
+    }
+  }
+
+  async query(
+    filter?: SearchFilter,
+    limit: number = 100,
+  ): Promise<StoredChunk[]> {
+    try {
+      this.logger.log('Retrieving all chunks from collection');
+
+      const queryParams = {
+        collection_name: this.collectionName,
+        expr: this.toFilterExpression(filter), // Empty expression to get all records
+        output_fields: this.outputFields,
+        limit,
+      };
+
+      const result = await this.client.query(queryParams);
+      this.logger.log(`Retrieved ${result.data?.length || 0} total chunks`);
+
+      return (result.data || []).map((row) => this.toStoredChunk(row));
+    } catch (error) {
+      this.logger.error('Error retrieving all chunks:', error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Counts stored chunks per document whose id starts with `idPrefix`,
+   * derived from the `${documentId}_chunk_${n}` id pattern used at ingestion.
+   */
+  async getDocumentChunkCounts(
+    idPrefix: string = 'doc_',
+  ): Promise<Map<string, number>> {
+    // Paged, since a single query is capped well below a large collection
+    const iterator = await this.client.queryIterator({
+      collection_name: this.collectionName,
+      expr: `id like "${idPrefix}%"`,
+      output_fields: ['id'],
+      batchSize: 1000,
+    });
+
+    const counts = new Map<string, number>();
+    for await (const rows of iterator) {
+      for (const row of rows) {
+        const separator = String(row.id).lastIndexOf('_chunk_');
+        if (separator === -1) {
+          continue;
+        }
+        const documentId = String(row.id).substring(0, separator);
+        counts.set(documentId, (counts.get(documentId) || 0) + 1);
+      }
+    }
+
+    return counts;
+  }
+}
@@ -0,0 +1,46 @@
+import { createHash } from 'crypto';
+import { GenerationOptions, LlmProvider } from './llm-provider';
+
+/**
+ * Deterministic provider for tests and offline development. Returns the
+ * configured response, or a stable answer derived from the prompt.
+ */
+export class MockLlmProvider implements LlmProvider {
+  readonly name = 'mock';
+  readonly model = 'mock';
+
+  constructor(private readonly response?: string) {}
+
+  async generate(prompt: string, options?: GenerationOptions): Promise<string> {
+    return this.respond(prompt, options);
+  }
+
+  async *generateStream(
+    prompt: string,
+    options?: GenerationOptions,
+    signal?: AbortSignal,
+  ): AsyncGenerator<string> {
+    const tokens = this.respond(prompt, options).match(/\S+\s*/g) || [];
+    for (const token of tokens) {
+      if (signal?.aborted) {
+        return;
+      }
+      yield token;
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  private respond(prompt: string, options: GenerationOptions = {}): string {
+    const answer =
+      this.response ??
+      `Mock answer ${createHash('sha256').update(prompt).digest('hex').substring(0, 8)} for a prompt of ${prompt.length} characters.`;
+
+    if (!options.maxTokens) {
+      return answer;
+    }
+    return answer.split(/\s+/).slice(0, options.maxTokens).join(' ');
+  }
+}
@@ -0,0 +1,13 @@
+import { RerankCandidate, Reranker } from './reranker';
+
+/**
+ * Keeps the retrieval order and scores, so only the score cutoff and
+ * deduplication of the reranking stage apply.
+ */
+export class NoopReranker implements Reranker {
+  readonly name = 'none';
+
+  async score(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    return candidates.map((candidate) => candidate.score);
+  }
+}
@@ -0,0 +1,100 @@
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { EmbeddingProvider } from './embedding-provider';
+
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'ollama';
+  readonly model: string;
+  private readonly baseUrl: string;
+  private dimension: Promise<number>;
+  // Set once the server turns out to predate the batch /api/embed endpoint
+  private batchUnsupported = false;
+
+  constructor(configService: ConfigService) {
+    const host = configService.get<string>('LOCAL_LLM_HOST', 'localhost');
+    const port = configService.get<string>('LOCAL_LLM_PORT', '11434');
+    // Use a proper embedding model instead of text generation model
+    this.model = configService.get<string>(
+      'EMBEDDING_MODEL',
+      'nomic-embed-text:latest',
+    );
+    this.baseUrl = `http://${host}:${port}`;
+  }
+
+  getDimension(): Promise<number> {
+    // Ollama doesn't report dimensions, so embed a probe text once
+    if (!this.dimension) {
+      this.dimension = this.embed('dimension probe').then(
+        (embedding) => embedding.length,
+      );
+      this.dimension.catch(() => (this.dimension = undefined));
+    }
+    return this.dimension;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await axios.post(
+      `${this.baseUrl}/api/embeddings`,
+      {
+        model: this.model,
+        prompt: text,
+      },
+      {
+        timeout: 30000,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      },
+    );
+
+    if (!response.data?.embedding) {
+      throw new Error(`Ollama returned no embedding for model ${this.model}`);
+    }
+    return response.data.embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (this.batchUnsupported) {
+      return this.embedSequentially(texts);
+    }
+
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/api/embed`,
+        {
+          model: this.model,
+          input: texts,
+        },
+        {
+          timeout: 120000,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        },
+      );
+
+      const embeddings: number[][] = response.data?.embeddings;
+      if (!embeddings || embeddings.length !== texts.length) {
+        throw new Error(
+          `Ollama returned ${embeddings?.length ?? 0} embeddings for ${texts.length} texts`,
+        );
+      }
+      return embeddings;
+    } catch (error) {
+      // A missing model is also a 404, but comes with a JSON error body
+      if (error.response?.status !== 404 || error.response.data?.error) {
+        throw error;
+      }
+      this.batchUnsupported = true;
+      return this.embedSequentially(texts);
+    }
+  }
+
+  private async embedSequentially(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (const text of texts) {
+      embeddings.push(await this.embed(text));
+    }
+    return embeddings;
+  }
+}
@@ -0,0 +1,145 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { GenerationOptions, LlmProvider } from './llm-provider';
+
+const GENERATION_TIMEOUT_MS = 120000;
+
+interface OllamaStreamMessage {
+  response?: string;
+  done?: boolean;
+  error?: string;
+}
+
+export class OllamaLlmProvider implements LlmProvider {
+  readonly name = 'ollama';
+  readonly model: string;
+  private readonly logger = new Logger(OllamaLlmProvider.name);
+  private readonly baseUrl: string;
+
+  constructor(configService: ConfigService) {
+    const host = configService.get<string>('LOCAL_LLM_HOST', 'localhost');
+    const port = configService.get<string>('LOCAL_LLM_PORT', '11434');
+    this.model = configService.get<string>(
+      'LOCAL_LLM_MODEL',
+      'llama3.1:latest',
+    );
+    this.baseUrl = `http://${host}:${port}`;
+  }
+
+  async generate(
+    prompt: string,
+    options: GenerationOptions = {},
+  ): Promise<string> {
+    const response = await axios.post(
+      `${this.baseUrl}/api/generate`,
+      {
+        model: this.model,
+        prompt: prompt,
+        stream: false,
+        options: this.toOllamaOptions(options),
+      },
+      {
+        timeout: GENERATION_TIMEOUT_MS,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      },
+    );
+
+    if (!response.data?.response) {
+      throw new Error('No response received from Ollama');
+    }
+    return response.data.response.trim();
+  }
+
+  /**
+   * Calls /api/generate with streaming enabled and yields each token from
+   * Ollama's newline-delimited JSON stream as it arrives. The whole stream
+   * gets the same time limit as a non-streaming generation.
+   */
+  async *generateStream(
+    prompt: string,
+    options: GenerationOptions = {},
+    signal?: AbortSignal,
+  ): AsyncGenerator<string> {
+    const timeout = AbortSignal.timeout(GENERATION_TIMEOUT_MS);
+    const response = await axios.post(
+      `${this.baseUrl}/api/generate`,
+      {
+        model: this.model,
+        prompt: prompt,
+        stream: true,
+        options: this.toOllamaOptions(options),
+      },
+      {
+        responseType: 'stream',
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      },
+    );
+
+    let buffered = '';
+    for await (const data of response.data) {
+      buffered += data.toString();
+      const lines = buffered.split('\n');
+      buffered = lines.pop();
+
+      for (const line of lines) {
+        const message = parseStreamLine(line);
+        if (message?.response) {
+          yield message.response;
+        }
+        if (message?.done) {
+          return;
+        }
+      }
+    }
+
+    // The last message need not end with a newline
+    const message = parseStreamLine(buffered);
+    if (message?.response) {
+      yield message.response;
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/api/tags`, {
+        timeout: 5000,
+      });
+
+      this.logger.log('Successfully connected to Ollama server');
+      this.logger.log(`Available models: ${JSON.stringify(response.data)}`);
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Failed to connect to Ollama server at ${this.baseUrl}:`,
+        error.message,
+      );
+      return false;
+    }
+  }
+
+  private toOllamaOptions(options: GenerationOptions) {
+    return {
+      temperature: options.temperature,
+      num_predict: options.maxTokens,
+      top_p: options.topP,
+      stop: options.stop,
+    };
+  }
+}
+
+function parseStreamLine(line: string): OllamaStreamMessage | undefined {
+  if (!line.trim()) {
+    return undefined;
+  }
+  const message: OllamaStreamMessage = JSON.parse(line);
+  if (message.error) {
+    throw new Error(`Ollama error: ${message.error}`);
+  }
+  return message;
+}
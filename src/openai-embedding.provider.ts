@@ -0,0 +1,68 @@
+import { ConfigService } from '@nestjs/config';
+import OpenAI from 'openai';
+import { EmbeddingProvider } from './embedding-provider';
+
+/**
+ * Embeddings from OpenAI or any server exposing the same /embeddings API.
+ */
+export class OpenAiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private readonly client: OpenAI;
+  private dimension: Promise<number>;
+
+  constructor(configService: ConfigService) {
+    this.model = configService.get<string>(
+      'OPENAI_EMBEDDING_MODEL',
+      'text-embedding-3-small',
+    );
+    this.client = new OpenAI({
+      apiKey: configService.get<string>('OPENAI_API_KEY', 'not-needed'),
+      baseURL: configService.get<string>(
+        'OPENAI_BASE_URL',
+        'https://api.openai.com/v1',
+      ),
+      timeout: 30000,
+    });
+  }
+
+  getDimension(): Promise<number> {
+    if (!this.dimension) {
+      this.dimension = this.embed('dimension probe').then(
+        (embedding) => embedding.length,
+      );
+      this.dimension.catch(() => (this.dimension = undefined));
+    }
+    return this.dimension;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: text,
+    });
+
+    const embedding = response.data[0]?.embedding;
+    if (!embedding) {
+      throw new Error(`No embedding returned for model ${this.model}`);
+    }
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+
+    // The API may return items out of order; `index` maps them back
+    const embeddings: number[][] = new Array(texts.length);
+    for (const item of response.data) {
+      embeddings[item.index] = item.embedding;
+    }
+    if (embeddings.some((embedding) => !embedding)) {
+      throw new Error(`Missing embeddings in batch for model ${this.model}`);
+    }
+    return embeddings;
+  }
+}
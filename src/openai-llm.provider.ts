@@ -0,0 +1,91 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI from 'openai';
+import { GenerationOptions, LlmProvider } from './llm-provider';
+
+/**
+ * Chat-completions provider for OpenAI and any server exposing the same API
+ * (vLLM, LM Studio, llama.cpp server, ...) via OPENAI_BASE_URL.
+ */
+export class OpenAiLlmProvider implements LlmProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private readonly logger = new Logger(OpenAiLlmProvider.name);
+  private readonly client: OpenAI;
+
+  constructor(configService: ConfigService) {
+    this.model = configService.get<string>('OPENAI_MODEL', 'gpt-4o-mini');
+    this.client = new OpenAI({
+      apiKey: configService.get<string>('OPENAI_API_KEY', 'not-needed'),
+      baseURL: configService.get<string>(
+        'OPENAI_BASE_URL',
+        'https://api.openai.com/v1',
+      ),
+      timeout: 120000,
+    });
+  }
+
+  async generate(
+    prompt: string,
+    options: GenerationOptions = {},
+  ): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      ...this.toRequestOptions(options),
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('No response received from chat completions API');
+    }
+    return content.trim();
+  }
+
+  async *generateStream(
+    prompt: string,
+    options: GenerationOptions = {},
+    signal?: AbortSignal,
+  ): AsyncGenerator<string> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        stream: true,
+        ...this.toRequestOptions(options),
+      },
+      { signal },
+    );
+
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        yield token;
+      }
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.client.models.list();
+      this.logger.log('Successfully connected to chat completions API');
+      return true;
+    } catch (error) {
+      this.logger.error(
+        'Failed to connect to chat completions API:',
+        error.message,
+      );
+      return false;
+    }
+  }
+
+  private toRequestOptions(options: GenerationOptions) {
+    return {
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      top_p: options.topP,
+      // The API accepts at most four stop sequences
+      stop: options.stop?.slice(0, 4),
+    };
+  }
+}
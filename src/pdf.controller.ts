@@ -7,28 +7,74 @@ import {
     Get,
     Param,
     Delete,
+    Patch,
+    ForbiddenException,
     BadRequestException,
     NotFoundException,
+    InternalServerErrorException,
     Logger,
+    HttpCode,
+    HttpStatus,
+    ConflictException,
+    Res,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { PdfService, PdfDocument } from './pdf.service';
-import { AiQueryService } from './ai-query.service';
+import { PdfDocument, ReconciliationReport, DeletedDocument } from './pdf.service';
+import { PromptSettings, SourceChunk } from './ai-query.service';
+import { IngestionJob } from './ingestion-jobs.service';
+import { ChunkingOptions, ChunkingService } from './chunking.service';
+import { SearchFilter, combineFilters, parseSearchFilter } from './search-filter';
+import { ContextStats } from './context-builder.service';
+import { GenerationOptions } from './llm-provider';
+import { parseGenerationOverrides } from './prompt-templates.service';
+import { KnowledgeBaseContext } from './knowledge-bases.service';
+import { CurrentKnowledgeBase } from './knowledge-base.decorator';
+import { CurrentPrincipal, Roles } from './auth.decorator';
+import { Principal } from './auth.service';
+import { AuditLogService } from './audit-log.service';
+import {
+    DocumentAccess,
+    DocumentAccessService,
+    canAccessDocument,
+    canManageDocument,
+    parseAccessFields,
+} from './document-access.service';
 
-@Controller('pdf')
+/**
+ * Also served under /knowledge-bases/:knowledgeBaseId/pdf; without that
+ * prefix, requests go to the knowledge base named by the X-Knowledge-Base
+ * header, or the default one.
+ */
+@Controller(['pdf', 'knowledge-bases/:knowledgeBaseId/pdf'])
 export class PdfController {
     private readonly logger = new Logger(PdfController.name);
 
     constructor(
-        private readonly pdfService: PdfService,
-        private readonly aiQueryService: AiQueryService,
+        private readonly auditLogService: AuditLogService,
+        private readonly documentAccessService: DocumentAccessService,
     ) {}
 
     @Post('upload')
+    @Roles('uploader')
+    @HttpCode(HttpStatus.ACCEPTED)
     @UseInterceptors(FileInterceptor('file'))
-    async uploadPdf(@UploadedFile() file: Express.Multer.File): Promise<{
+    async uploadPdf(
+        @UploadedFile() file: Express.Multer.File,
+        @Body('replace') replace: string,
+        @Body('chunkStrategy') chunkStrategy: string,
+        @Body('chunkSize') chunkSize: string,
+        @Body('chunkOverlap') chunkOverlap: string,
+        @Body('visibility') visibility: string,
+        @Body('groups') groups: string,
+        @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+        @CurrentPrincipal() principal: Principal,
+        @Res({ passthrough: true }) res: Response,
+    ): Promise<{
         message: string;
-        document: PdfDocument;
+        job?: IngestionJob;
+        document?: PdfDocument;
+        duplicate?: boolean;
     }> {
         if (!file) {
             throw new BadRequestException('No file uploaded');
@@ -38,57 +84,204 @@ export class PdfController {
             throw new BadRequestException('Only PDF files are allowed');
         }
 
-        this.logger.log(`Received PDF upload: ${file.originalname} (${file.size} bytes)`);
-
+        const chunking = this.parseChunkingOptions(knowledgeBase.chunkingService, chunkStrategy, chunkSize, chunkOverlap);
+        let access: DocumentAccess;
         try {
-            const document = await this.pdfService.processPdf(file.buffer, file.originalname);
+            access = this.documentAccessService.forUpload(principal, { visibility, groups });
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
 
+        this.logger.log(`Received PDF upload: ${file.originalname} (${file.size} bytes)`);
+
+        // Identical content is answered right away instead of queueing a job
+        const existing = await knowledgeBase.pdfService.findByContent(file.buffer);
+        if (existing) {
+            await this.auditLogService.record(principal, 'document.upload', file.originalname, {
+                knowledgeBase: knowledgeBase.knowledgeBase.id,
+                details: { format: 'pdf', duplicateOf: existing.id },
+            });
+            res.status(HttpStatus.OK);
+            // Someone else's restricted document is not shown, only that it exists
+            if (!canAccessDocument(principal, existing.access)) {
+                return { message: 'PDF was already uploaded', duplicate: true };
+            }
             return {
-                message: 'PDF uploaded and processed successfully',
+                message: 'PDF was already uploaded',
                 document: {
-                    id: document.id,
-                    filename: document.filename,
-                    uploadDate: document.uploadDate,
-                    textContent: document.textContent.substring(0, 200) + '...', // Truncate for response
-                    chunkCount: document.chunkCount,
+                    ...existing,
+                    textContent: existing.textContent.substring(0, 200) + '...', // Truncate for response
                 },
+                duplicate: true,
             };
+        }
+
+        const job = knowledgeBase.ingestionJobsService.enqueue(file.buffer, file.originalname, {
+            replace: replace === 'true',
+            chunking,
+            access,
+            uploadedBy: principal,
+        });
+        await this.auditLogService.record(principal, 'document.upload', file.originalname, {
+            knowledgeBase: knowledgeBase.knowledgeBase.id,
+            details: { format: 'pdf', size: file.size, jobId: job.id, visibility: access.visibility },
+        });
+
+        return {
+            message: 'PDF queued for processing',
+            job,
+        };
+    }
+
+    /**
+     * Reads the optional chunking form fields of an upload. Anything left out
+     * falls back to the knowledge base's defaults when the job runs.
+     */
+    private parseChunkingOptions(
+        chunkingService: ChunkingService,
+        chunkStrategy?: string,
+        chunkSize?: string,
+        chunkOverlap?: string,
+    ): Partial<ChunkingOptions> {
+        try {
+            return chunkingService.parseFormFields({ chunkStrategy, chunkSize, chunkOverlap });
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+    }
+
+    @Get('jobs')
+    getAllJobs(
+        @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+        @CurrentPrincipal() principal: Principal,
+    ): { jobs: IngestionJob[] } {
+        // Jobs name their file, so they are as visible as the document will be
+        const { ingestionJobsService } = knowledgeBase;
+        const jobs = ingestionJobsService
+            .getAllJobs()
+            .filter((job) => canAccessDocument(principal, ingestionJobsService.getAccess(job.id)));
+        return { jobs };
+    }
+
+    @Get('jobs/:id')
+    getJob(
+        @Param('id') id: string,
+        @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+        @CurrentPrincipal() principal: Principal,
+    ): IngestionJob {
+        const job = knowledgeBase.ingestionJobsService.getJob(id);
+        const access = knowledgeBase.ingestionJobsService.getAccess(id);
+        if (!job || !canAccessDocument(principal, access)) {
+            throw new NotFoundException(`Job with ID ${id} not found`);
+        }
+        return job;
+    }
+
+    @Post('jobs/:id/retry')
+    @Roles('uploader')
+    @HttpCode(HttpStatus.ACCEPTED)
+    retryJob(
+        @Param('id') id: string,
+        @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+        @CurrentPrincipal() principal: Principal,
+    ): IngestionJob {
+        this.checkJobManagement(id, knowledgeBase, principal);
+        return this.updateJob(id, () => knowledgeBase.ingestionJobsService.retry(id));
+    }
+
+    @Post('jobs/:id/cancel')
+    @Roles('uploader')
+    cancelJob(
+        @Param('id') id: string,
+        @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+        @CurrentPrincipal() principal: Principal,
+    ): IngestionJob {
+        this.checkJobManagement(id, knowledgeBase, principal);
+        return this.updateJob(id, () => knowledgeBase.ingestionJobsService.cancel(id));
+    }
+
+    /**
+     * Only the uploader of a job, or an admin, may retry or cancel it. Jobs the
+     * caller may not see are not found, as with getJob.
+     */
+    private checkJobManagement(id: string, knowledgeBase: KnowledgeBaseContext, principal: Principal): void {
+        const job = knowledgeBase.ingestionJobsService.getJob(id);
+        const access = knowledgeBase.ingestionJobsService.getAccess(id);
+        if (!job || !canAccessDocument(principal, access)) {
+            throw new NotFoundException(`Job with ID ${id} not found`);
+        }
+        if (!canManageDocument(principal, access)) {
+            throw new ForbiddenException('Only the uploader of a job or an admin may change it');
+        }
+    }
+
+    private updateJob(id: string, update: () => IngestionJob | undefined): IngestionJob {
+        let job: IngestionJob | undefined;
+        try {
+            job = update();
         } catch (error) {
-            this.logger.error('Error processing PDF:', error.message);
-            throw new BadRequestException(`Failed to process PDF: ${error.message}`);
+            throw new ConflictException(error.message);
+        }
+
+        if (!job) {
+            throw new NotFoundException(`Job with ID ${id} not found`);
         }
+        return job;
     }
 
     @Post('query')
     async queryDocuments(@Body() queryDto: {
         question: string;
         pdfOnly?: boolean;
-      }): Promise<{
+        citations?: boolean;
+        filter?: Record<string, unknown>;
+        template?: string;
+        generation?: Record<string, unknown>;
+      }, @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext, @CurrentPrincipal() principal: Principal): Promise<{
         question: string;
         answer: string;
         timestamp: string;
-        sources: string[];
+        sources: SourceChunk[];
+        citations: number[];
+        context: ContextStats;
+        prompt: PromptSettings;
       }> {
         if (!queryDto.question || queryDto.question.trim().length === 0) {
           throw new BadRequestException('Question is required');
         }
 
+        let filter: SearchFilter | undefined;
+        let generation: GenerationOptions | undefined;
+        try {
+          filter = parseSearchFilter(queryDto.filter);
+          generation = parseGenerationOverrides(queryDto.generation);
+          // pdfOnly narrows retrieval to PDF chunks like any other filter
+          if (queryDto.pdfOnly) {
+            filter = combineFilters(filter, { sourceTypes: ['pdf'] });
+          }
+        } catch (error) {
+          throw new BadRequestException(error.message);
+        }
+
         this.logger.log(`Received query: ${queryDto.question}`);
 
         try {
-          // Use PDF-specific query if requested
-          const answer = queryDto.pdfOnly
-            ? await this.queryPdfContentOnly(queryDto.question)
-            : await this.aiQueryService.queryWithContext(queryDto.question);
-
-          // Get document sources for reference
-          const sources = this.pdfService.getAllDocuments().map(doc => doc.filename);
+          const result = await knowledgeBase.aiQueryService.queryWithContext(queryDto.question, {
+            citations: queryDto.citations,
+            filter,
+            template: queryDto.template,
+            generation,
+            principal,
+          });
 
           return {
             question: queryDto.question,
-            answer,
+            answer: result.answer,
             timestamp: new Date().toISOString(),
-            sources,
+            sources: result.sources,
+            citations: result.citations,
+            context: result.context,
+            prompt: result.prompt,
           };
         } catch (error) {
           this.logger.error('Error processing query:', error.message);
@@ -96,57 +289,18 @@ export class PdfController {
         }
       }
 
-      private async queryPdfContentOnly(question: string): Promise<string> {
-        const documents = this.pdfService.getAllDocuments();
-        if (documents.length === 0) {
-          return 'No PDF documents have been uploaded yet.';
-        }
-
-        // Create context from all PDF documents
-        const pdfContext = documents
-          .map(doc => `Document: ${doc.filename}\n${doc.textContent}`)
-          .join('\n\n---\n\n');
-
-        // Use a simple direct query without vector search for PDF-only content
-        const prompt = `Answer the question using only the provided PDF documents. Be concise and direct.
-  
-        PDF Documents:
-        ${pdfContext}
-  
-        Question: ${question}
-  
-        Answer:`;
-
-        try {
-          const response = await fetch(`http://192.168.68.121:11434/api/generate`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              model: 'llama3.1:latest',
-              prompt,
-              stream: false,
-              options: {
-                temperature: 0.1,
-                num_predict: 200,
-              },
-            }),
-          });
-
-          const data = await response.json();
-          return data.response?.trim() || 'Unable to generate response';
-        } catch (error) {
-          this.logger.error('Error querying PDF content:', error.message);
-          throw new Error('Failed to query PDF content');
-        }
-      }
-
     @Get('documents')
-    getAllDocuments(): {
+    async getAllDocuments(
+        @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+        @CurrentPrincipal() principal: Principal,
+    ): Promise<{
         documents: PdfDocument[];
         stats: { totalDocuments: number; totalChunks: number };
-    } {
-        const documents = this.pdfService.getAllDocuments();
-        const stats = this.pdfService.getDocumentStats();
+    }> {
+        const documents = (await knowledgeBase.pdfService.getAllDocuments()).filter((doc) =>
+            canAccessDocument(principal, doc.access),
+        );
+        const stats = await knowledgeBase.pdfService.getDocumentStats(principal);
 
         return {
             documents: documents.map((doc) => ({
@@ -158,32 +312,102 @@ export class PdfController {
     }
 
     @Get('documents/:id')
-    getDocument(@Param('id') id: string): PdfDocument {
-        const document = this.pdfService.getDocument(id);
-        if (!document) {
+    async getDocument(
+        @Param('id') id: string,
+        @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+        @CurrentPrincipal() principal: Principal,
+    ): Promise<PdfDocument> {
+        const document = await knowledgeBase.pdfService.getDocument(id);
+        // Documents the caller may not see are not found, rather than forbidden
+        if (!document || !canAccessDocument(principal, document.access)) {
             throw new NotFoundException(`Document with ID ${id} not found`);
         }
         return document;
     }
 
+    /**
+     * Changes who may see a document: `visibility` and `groups`, as on upload.
+     * Only the owner and admins may change it.
+     */
+    @Patch('documents/:id/access')
+    async updateDocumentAccess(
+        @Param('id') id: string,
+        @Body() body: { visibility?: unknown; groups?: unknown },
+        @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+        @CurrentPrincipal() principal: Principal,
+    ): Promise<{ message: string; id: string; access: DocumentAccess }> {
+        let changes: ReturnType<typeof parseAccessFields>;
+        try {
+            changes = parseAccessFields(body ?? {});
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+
+        const document = await knowledgeBase.pdfService.getDocument(id);
+        if (!document || !canAccessDocument(principal, document.access)) {
+            throw new NotFoundException(`Document with ID ${id} not found`);
+        }
+        if (!canManageDocument(principal, document.access)) {
+            throw new ForbiddenException('Only the owner of a document or an admin may change its access');
+        }
+
+        const updated = await knowledgeBase.pdfService.updateAccess(id, changes);
+        if (!updated) {
+            throw new NotFoundException(`Document with ID ${id} not found`);
+        }
+        await this.auditLogService.record(principal, 'document.access', id, {
+            knowledgeBase: knowledgeBase.knowledgeBase.id,
+            details: { visibility: updated.access.visibility, groups: updated.access.groups },
+        });
+
+        return { message: 'Document access updated', id, access: updated.access };
+    }
+
     @Delete('documents/:id')
-    async deleteDocument(@Param('id') id: string): Promise<{
+    @Roles('admin')
+    async deleteDocument(
+        @Param('id') id: string,
+        @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+        @CurrentPrincipal() principal: Principal,
+    ): Promise<{
         message: string;
         deleted: boolean;
+        chunksRemoved: number;
     }> {
-        const deleted = await this.pdfService.deleteDocument(id);
-        if (!deleted) {
+        let result: DeletedDocument | undefined;
+        try {
+            result = await knowledgeBase.pdfService.deleteDocument(id);
+        } catch (error) {
+            this.logger.error(`Error deleting document ${id}:`, error.message);
+            throw new InternalServerErrorException(`Failed to delete document: ${error.message}`);
+        }
+
+        if (!result) {
             throw new NotFoundException(`Document with ID ${id} not found`);
         }
+        await this.auditLogService.record(principal, 'document.delete', id, {
+            knowledgeBase: knowledgeBase.knowledgeBase.id,
+            details: { filename: result.document.filename, chunksRemoved: result.chunksRemoved },
+        });
 
         return {
             message: 'Document deleted successfully',
             deleted: true,
+            chunksRemoved: result.chunksRemoved,
         };
     }
 
     @Get('stats')
-    getStats() {
-        return this.pdfService.getDocumentStats();
+    getStats(
+        @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+        @CurrentPrincipal() principal: Principal,
+    ) {
+        return knowledgeBase.pdfService.getDocumentStats(principal);
+    }
+
+    @Get('reconciliation')
+    @Roles('admin')
+    getReconciliation(@CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext): Promise<ReconciliationReport> {
+        return knowledgeBase.pdfService.reconcileWithVectorStore();
     }
 }
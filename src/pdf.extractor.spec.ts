@@ -0,0 +1,47 @@
+import {
+  parsePdfDate,
+  rejoinHyphenation,
+  stripRepeatedLines,
+} from './pdf.extractor';
+
+describe('PdfExtractor cleanup', () => {
+  const body = [
+    'Installation requires a supported operating system.',
+    'Configuration lives in a single file.',
+    'Backups run nightly at two in the morning.',
+    'Support is available on weekdays.',
+  ];
+
+  it('should strip headers and footers repeated across pages', () => {
+    const pages = body.map(
+      (text, i) =>
+        `ACME Handbook\nChapter ${i + 1}\n${text}\nPage ${i + 1} of 4`,
+    );
+
+    expect(stripRepeatedLines(pages)).toEqual(body);
+  });
+
+  it('should only strip repeated lines from the edge of the page inwards', () => {
+    // The repeated line sits between lines that differ on every page
+    const closing = [...body].reverse();
+    const pages = body.map(
+      (text, i) => `${text}\nSee the notes.\n${closing[i]}`,
+    );
+
+    expect(stripRepeatedLines(pages)).toEqual(pages);
+  });
+
+  it('should rejoin words hyphenated at line breaks', () => {
+    expect(rejoinHyphenation('large docu-\nments and well-\nKnown')).toBe(
+      'large documents and well-\nKnown',
+    );
+  });
+
+  it('should parse PDF dates with a time zone', () => {
+    expect(parsePdfDate("D:20240131093000+01'00'")).toEqual(
+      new Date('2024-01-31T08:30:00.000Z'),
+    );
+    expect(parsePdfDate('D:2024')).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect(parsePdfDate('yesterday')).toBeUndefined();
+  });
+});
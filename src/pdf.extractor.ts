@@ -0,0 +1,169 @@
+import * as pdfParse from 'pdf-parse';
+import { DocumentExtractor, ExtractedDocument } from './document-extractor';
+
+// Lines at each end of a page that may be a running header or footer
+const EDGE_LINES = 2;
+// A header or footer must repeat on this share of pages, and on at least 3
+const REPEAT_THRESHOLD = 0.5;
+
+/**
+ * Removes running headers and footers: lines at the top or bottom of a
+ * page that repeat at the same position on most pages. Lines are only
+ * removed from the edge inwards, and digits are ignored when comparing, so
+ * "Page 3 of 10" matches "Page 4 of 10".
+ */
+export function stripRepeatedLines(pages: string[]): string[] {
+  if (pages.length < 3) {
+    return pages;
+  }
+
+  const normalize = (line: string) =>
+    line.trim().replace(/\d+/g, '#').toLowerCase();
+  const pageLines = pages.map((page) => page.split('\n'));
+
+  // Indexes of the non-blank lines nearest each edge, outermost first
+  const edges = pageLines.map((lines) => {
+    const content = lines
+      .map((line, index) => index)
+      .filter((index) => lines[index].trim() !== '');
+    return {
+      top: content.slice(0, EDGE_LINES),
+      bottom: content.slice(-EDGE_LINES).reverse(),
+    };
+  });
+  const keyOf = (page: number, edge: 'top' | 'bottom', position: number) =>
+    `${edge}${position}:${normalize(pageLines[page][edges[page][edge][position]])}`;
+
+  const counts = new Map<string, number>();
+  edges.forEach((edge, page) => {
+    for (const side of ['top', 'bottom'] as const) {
+      edge[side].forEach((index, position) => {
+        const key = keyOf(page, side, position);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      });
+    }
+  });
+  const threshold = Math.max(3, Math.ceil(pages.length * REPEAT_THRESHOLD));
+
+  return pageLines.map((lines, page) => {
+    const removed = new Set<number>();
+    for (const side of ['top', 'bottom'] as const) {
+      for (let position = 0; position < edges[page][side].length; position++) {
+        if ((counts.get(keyOf(page, side, position)) ?? 0) < threshold) {
+          break;
+        }
+        removed.add(edges[page][side][position]);
+      }
+    }
+    return lines.filter((line, index) => !removed.has(index)).join('\n');
+  });
+}
+
+/**
+ * Joins words split by a hyphen at a line break, e.g. "chun-\nking".
+ */
+export function rejoinHyphenation(text: string): string {
+  return text.replace(/(\p{L})-\n[ \t]*(\p{Ll})/gu, '$1$2');
+}
+
+/**
+ * Parses PDF dates such as "D:20240131093000+01'00'".
+ */
+export function parsePdfDate(value: unknown): Date | undefined {
+  const match =
+    typeof value === 'string'
+      ? /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/.exec(
+          value,
+        )
+      : null;
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month = '01', day = '01', hour = '00', minute = '00'] = match;
+  const second = match[6] ?? '00';
+  const zone =
+    !match[7] || match[7] === 'Z'
+      ? 'Z'
+      : match[7].replace(/'/g, '').replace(/(\d{2})(\d{2})$/, '$1:$2');
+  const date = new Date(
+    `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`,
+  );
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Extracts PDFs page by page. Each page is a section carrying its page
+ * number, with running headers, footers and line-break hyphenation removed.
+ */
+export class PdfExtractor implements DocumentExtractor {
+  readonly format = 'pdf';
+  readonly extensions = ['.pdf'];
+  readonly mimeTypes = ['application/pdf'];
+
+  sniff(buffer: Buffer): boolean {
+    return buffer.subarray(0, 5).toString('latin1') === '%PDF-';
+  }
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    const rawPages: string[] = [];
+    const pdfData = await pdfParse(buffer, {
+      pagerender: async (pageData: any) => {
+        const text = this.renderPage(await pageData.getTextContent());
+        rawPages[pageData.pageIndex] = text;
+        return text;
+      },
+    });
+
+    const pages = stripRepeatedLines(
+      Array.from(rawPages, (page) => page ?? ''),
+    ).map((page) => rejoinHyphenation(page).trim());
+
+    let text = '';
+    const sections: ExtractedDocument['sections'] = [];
+    pages.forEach((page, index) => {
+      if (!page) {
+        return;
+      }
+      if (text) {
+        text += '\n\n';
+      }
+      sections.push({
+        start: text.length,
+        end: text.length + page.length,
+        sectionNumber: index + 1,
+        pageNumber: index + 1,
+      });
+      text += page;
+    });
+
+    const info = pdfData.info ?? {};
+    return {
+      text,
+      sections,
+      metadata: {
+        title: info.Title?.trim() || undefined,
+        author: info.Author?.trim() || undefined,
+        createdAt: parsePdfDate(info.CreationDate),
+        pageCount: pdfData.numpages,
+      },
+    };
+  }
+
+  // Same line grouping as pdf-parse's default renderer
+  private renderPage(textContent: {
+    items: { str: string; transform: number[] }[];
+  }): string {
+    let lastY: number;
+    let text = '';
+    for (const item of textContent.items) {
+      if (lastY === item.transform[5] || !lastY) {
+        text += item.str;
+      } else {
+        text += '\n' + item.str;
+      }
+      lastY = item.transform[5];
+    }
+    return text;
+  }
+}
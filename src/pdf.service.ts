@@ -1,8 +1,32 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { MilvusService, ChunkData } from './milvus.service';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import {
+  VECTOR_STORE,
+  VectorStore,
+  ChunkData,
+  SourceType,
+} from './vector-store';
 import { EmbeddingsService } from './embeddings.service';
-import * as pdfParse from 'pdf-parse';
-import { randomBytes } from 'crypto';
+import { ChunkingOptions, ChunkingService } from './chunking.service';
+import { KeywordIndexService } from './keyword-index.service';
+import { DOCUMENT_REPOSITORY, DocumentRepository } from './document-repository';
+import {
+  DocumentExtractorRegistry,
+  DocumentMetadata,
+  ExtractedDocument,
+} from './document-extractor';
+import {
+  DocumentAccess,
+  DocumentAccessService,
+  canAccessDocument,
+  canManageDocument,
+} from './document-access.service';
+import type { Principal } from './auth.service';
+import { createHash, randomBytes } from 'crypto';
 
 export interface PdfDocument {
   id: string;
@@ -10,170 +34,518 @@ export interface PdfDocument {
   uploadDate: Date;
   textContent: string;
   chunkCount: number;
+  // SHA-256 of the uploaded file, used to detect duplicate uploads
+  contentHash: string;
+  // Title, author and creation date from the file, when it has them
+  metadata?: DocumentMetadata;
+  // Format the text was extracted from; missing on older records, which are PDFs
+  sourceType?: SourceType;
+  // Settings the text was chunked with; missing on older records
+  chunking?: ChunkingOptions;
+  // Owner and visibility; missing on older records, which are public
+  access?: DocumentAccess;
 }
 
+export interface ProcessingOptions {
+  // Replace earlier documents with the same filename once this one is stored
+  replace?: boolean;
+  // Detected from the content and filename when not given
+  format?: SourceType;
+  // Overrides for the configured CHUNK_STRATEGY, CHUNK_SIZE and CHUNK_OVERLAP
+  chunking?: Partial<ChunkingOptions>;
+  // Who may see the document; public to everyone when not given
+  access?: DocumentAccess;
+  // With `replace`, only documents this principal may manage are replaced
+  uploadedBy?: Principal;
+}
+
+export interface ProcessedDocument {
+  document: PdfDocument;
+  // True when identical content was already stored and nothing was ingested
+  duplicate: boolean;
+  replacedDocumentIds: string[];
+}
+
+export type ProcessingStage = 'parsing' | 'embedding' | 'indexing';
+
+/**
+ * Optional hooks for callers that track ingestion, such as ingestion jobs.
+ * Aborting the signal stops processing at the next checkpoint and removes
+ * any chunks already written.
+ */
+export interface ProcessingHooks {
+  signal?: AbortSignal;
+  onStage?: (stage: ProcessingStage, totalChunks?: number) => void;
+  onProgress?: (progress: {
+    embeddedChunks?: number;
+    indexedChunks?: number;
+  }) => void;
+}
+
+export interface DeletedDocument {
+  document: PdfDocument;
+  chunksRemoved: number;
+}
+
+export interface ReconciliationReport {
+  checkedAt: Date;
+  // Chunks in the vector store whose document has no metadata record
+  orphanedChunks: { documentId: string; chunkCount: number }[];
+  // Documents on record with no chunks left in the vector store
+  missingChunks: string[];
+}
+
+const INSERT_BATCH_SIZE = 200;
+// Characters of a heading kept in chunk metadata, within Milvus's byte limit
+const MAX_HEADING_LENGTH = 128;
+
 @Injectable()
-export class PdfService {
+export class PdfService implements OnApplicationBootstrap {
   private readonly logger = new Logger(PdfService.name);
-  private readonly documents: Map<string, PdfDocument> = new Map();
+  // Uploads being processed, by content hash, so a concurrent duplicate waits
+  // for the first run instead of ingesting the same content twice
+  private readonly inFlight: Map<string, Promise<ProcessedDocument>> =
+    new Map();
 
   constructor(
-    private milvusService: MilvusService,
+    @Inject(VECTOR_STORE) private vectorStore: VectorStore,
     private embeddingsService: EmbeddingsService,
+    private chunkingService: ChunkingService,
+    private extractorRegistry: DocumentExtractorRegistry,
+    private keywordIndexService: KeywordIndexService,
+    @Inject(DOCUMENT_REPOSITORY)
+    private documentRepository: DocumentRepository,
+    private documentAccessService: DocumentAccessService,
   ) {}
 
-  async processPdf(buffer: Buffer, filename: string): Promise<PdfDocument> {
+  async onApplicationBootstrap() {
     try {
-      this.logger.log(`Processing PDF: ${filename}`);
+      await this.reconcileWithVectorStore();
+    } catch (error) {
+      this.logger.error('Error reconciling documents:', error.message);
+    }
+  }
 
-      // Parse PDF content
-      const pdfData = await pdfParse(buffer);
-      const textContent = pdfData.text;
+  /**
+   * Returns the stored document with exactly this content, if any.
+   */
+  async findByContent(buffer: Buffer): Promise<PdfDocument | undefined> {
+    return this.documentRepository.findByContentHash(this.hashContent(buffer));
+  }
+
+  /**
+   * Ingests a document of any supported format unless identical content is
+   * already stored, in which case the existing document is returned. With
+   * `replace`, older documents with the same filename are deleted only after
+   * the new chunks are stored, so a failed upload never removes the previous
+   * version; if the previous version cannot be deleted, the new one is
+   * removed again rather than leaving both searchable.
+   */
+  async processDocument(
+    buffer: Buffer,
+    filename: string,
+    hooks: ProcessingHooks = {},
+    options: ProcessingOptions = {},
+  ): Promise<ProcessedDocument> {
+    const contentHash = this.hashContent(buffer);
+
+    const existing =
+      await this.documentRepository.findByContentHash(contentHash);
+    if (existing) {
+      this.logger.log(
+        `${filename} matches stored document ${existing.id}; skipping ingestion`,
+      );
+      return { document: existing, duplicate: true, replacedDocumentIds: [] };
+    }
+
+    // Once the first run is done this upload is checked again with its own
+    // options, just as if it had arrived afterwards
+    const running = this.inFlight.get(contentHash);
+    if (running) {
+      await running.catch(() => undefined);
+      return this.processDocument(buffer, filename, hooks, options);
+    }
+
+    const processing = this.ingestDocument(
+      buffer,
+      filename,
+      contentHash,
+      hooks,
+      options,
+    );
+    this.inFlight.set(contentHash, processing);
+    try {
+      return await processing;
+    } finally {
+      this.inFlight.delete(contentHash);
+    }
+  }
+
+  private async ingestDocument(
+    buffer: Buffer,
+    filename: string,
+    contentHash: string,
+    hooks: ProcessingHooks,
+    options: ProcessingOptions,
+  ): Promise<ProcessedDocument> {
+    let documentId: string;
+    let indexingStarted = false;
+
+    try {
+      this.logger.log(`Processing document: ${filename}`);
+      hooks.onStage?.('parsing');
+
+      const sourceType =
+        options.format ?? this.extractorRegistry.detectFormat(buffer, filename);
+      if (!sourceType) {
+        throw new Error(`Unsupported document format: ${filename}`);
+      }
+
+      // Extract text and structure
+      const extracted = await this.extractorRegistry.extract(
+        buffer,
+        sourceType,
+      );
+      const textContent = extracted.text;
 
       if (!textContent || textContent.trim().length === 0) {
-        throw new Error('PDF contains no readable text');
+        throw new Error('Document contains no readable text');
       }
 
-      this.logger.log(`Extracted ${textContent.length} characters from PDF`);
+      this.logger.log(
+        `Extracted ${textContent.length} characters and ${extracted.sections.length} sections from ${sourceType} document`,
+      );
+
+      hooks.signal?.throwIfAborted();
 
       // Create document record
-      const documentId = this.generateDocumentId();
+      documentId = this.generateDocumentId();
       const document: PdfDocument = {
         id: documentId,
         filename,
         uploadDate: new Date(),
         textContent,
         chunkCount: 0,
+        contentHash,
+        sourceType,
+        metadata: extracted.metadata,
+        chunking: this.chunkingService.resolveOptions(options.chunking),
+        access: options.access,
       };
 
       // Chunk the text content
-      const chunks = this.chunkText(textContent, documentId, filename);
+      const chunks = this.chunkText(extracted, document, document.chunking);
       document.chunkCount = chunks.length;
 
-      this.logger.log(`Created ${chunks.length} chunks from PDF`);
+      // Chunks are searchable before the record exists, so the access has
+      // to be known for them from the start
+      if (document.access) {
+        this.documentAccessService.track(documentId, document.access);
+      }
 
       // Process and store chunks
-      await this.processAndStoreChunks(chunks);
+      await this.processAndStoreChunks(chunks, hooks, () => {
+        indexingStarted = true;
+      });
 
       // Store document metadata
-      this.documents.set(documentId, document);
+      await this.documentRepository.save(document);
+      this.documentAccessService.invalidate();
 
       this.logger.log(
-        `Successfully processed PDF: ${filename} (ID: ${documentId})`,
+        `Successfully processed document: ${filename} (ID: ${documentId})`,
       );
-      return document;
+
+      const replacedDocumentIds = options.replace
+        ? await this.replacePreviousVersions(document, options.uploadedBy)
+        : [];
+      return { document, duplicate: false, replacedDocumentIds };
     } catch (error) {
-      this.logger.error(`Error processing PDF ${filename}:`, error.message);
-      throw new Error(`Failed to process PDF: ${error.message}`);
+      if (indexingStarted) {
+        await this.removePartialDocument(documentId);
+      }
+      if (hooks.signal?.aborted) {
+        this.logger.warn(`Processing of ${filename} was cancelled`);
+        throw error;
+      }
+      this.logger.error(
+        `Error processing document ${filename}:`,
+        error.message,
+      );
+      throw new Error(`Failed to process document: ${error.message}`);
+    } finally {
+      if (documentId) {
+        this.documentAccessService.release(documentId);
+      }
     }
   }
 
-  private chunkText(
-    text: string,
-    documentId: string,
-    filename: string,
-    chunkSize: number = 500,
-  ): ChunkData[] {
-    const sentences = text.split(/[.!?]+/).filter((s) => s.trim().length > 0);
-    const chunks: ChunkData[] = [];
-    let currentChunk = '';
-    let chunkIndex = 0;
-
-    for (const sentence of sentences) {
-      const trimmedSentence = sentence.trim();
-      if (
-        currentChunk.length + trimmedSentence.length > chunkSize &&
-        currentChunk.length > 0
-      ) {
-        // Save current chunk
-        chunks.push({
-          id: `${documentId}_chunk_${chunkIndex}`,
-          text: currentChunk.trim(),
-          embedding: [], // Will be filled later
-        });
-
-        currentChunk = trimmedSentence;
-        chunkIndex++;
-      } else {
-        currentChunk += (currentChunk.length > 0 ? '. ' : '') + trimmedSentence;
+  private async replacePreviousVersions(
+    document: PdfDocument,
+    uploadedBy: Principal | undefined,
+  ): Promise<string[]> {
+    // Documents the uploader may not manage are left alone, even when they
+    // have the same filename
+    const previous = (
+      await this.documentRepository.findByFilename(document.filename)
+    ).filter(
+      (doc) =>
+        doc.id !== document.id &&
+        (!uploadedBy || canManageDocument(uploadedBy, doc.access)),
+    );
+
+    const replaced: string[] = [];
+    for (const doc of previous) {
+      try {
+        await this.deleteDocument(doc.id);
+      } catch (error) {
+        // Once one previous version is gone the new one has to stay
+        if (replaced.length === 0) {
+          throw error;
+        }
+        this.logger.error(
+          `Could not delete document ${doc.id} replaced by ${document.id}:`,
+          error.message,
+        );
+        continue;
       }
+      replaced.push(doc.id);
+      this.logger.log(`Replaced document ${doc.id} with ${document.id}`);
     }
+    return replaced;
+  }
 
-    // Add the last chunk if it's not empty
-    if (currentChunk.trim().length > 0) {
-      chunks.push({
-        id: `${documentId}_chunk_${chunkIndex}`,
-        text: currentChunk.trim(),
-        embedding: [],
-      });
+  private hashContent(buffer: Buffer): string {
+    return createHash('sha256').update(buffer).digest('hex');
+  }
+
+  // Removes the chunks of a failed upload, and its record if it got that far
+  private async removePartialDocument(documentId: string): Promise<void> {
+    try {
+      await this.vectorStore.deleteDocumentChunks(documentId);
+      await this.keywordIndexService.removeDocument(documentId);
+      await this.documentRepository.delete(documentId);
+      this.documentAccessService.invalidate();
+    } catch (error) {
+      this.logger.error(
+        `Could not remove partial chunks for document ${documentId}:`,
+        error.message,
+      );
     }
+  }
+
+  private chunkText(
+    extracted: ExtractedDocument,
+    document: PdfDocument,
+    options: ChunkingOptions,
+  ): ChunkData[] {
+    const { text, sections } = extracted;
+    const chunks = this.chunkingService.chunk(text, options);
 
     // If no chunks were created, create one with the full text
     if (chunks.length === 0) {
-      chunks.push({
-        id: `${documentId}_chunk_0`,
-        text: text.trim(),
-        embedding: [],
-      });
+      chunks.push({ text: text.trim(), start: 0, end: text.length, index: 0 });
     }
 
-    this.logger.log(`Created ${chunks.length} chunks from ${filename}`);
-    return chunks;
+    this.logger.log(
+      `Created ${chunks.length} chunks from ${document.filename} (${options.strategy}, size ${options.chunkSize}, overlap ${options.chunkOverlap})`,
+    );
+    // Chunks are in text order, so the sections they start and end in only
+    // move forward
+    let sectionIndex = -1;
+    let endSectionIndex = -1;
+    return chunks.map((chunk) => {
+      while (
+        sectionIndex + 1 < sections.length &&
+        sections[sectionIndex + 1].start <= chunk.start
+      ) {
+        sectionIndex++;
+      }
+      while (
+        endSectionIndex + 1 < sections.length &&
+        sections[endSectionIndex + 1].start < chunk.end
+      ) {
+        endSectionIndex++;
+      }
+      const section = sections[sectionIndex];
+      const pageNumber = section?.pageNumber ?? 0;
+      return {
+        id: `${document.id}_chunk_${chunk.index}`,
+        text: chunk.text,
+        embedding: [], // Will be filled later
+        metadata: {
+          documentId: document.id,
+          sourceType: document.sourceType,
+          filename: document.filename,
+          pageNumber,
+          pageEnd: sections[endSectionIndex]?.pageNumber ?? pageNumber,
+          sectionNumber: section?.sectionNumber ?? 0,
+          heading: (chunk.heading ?? section?.heading ?? '').slice(
+            0,
+            MAX_HEADING_LENGTH,
+          ),
+          chunkIndex: chunk.index,
+          charStart: chunk.start,
+          charEnd: chunk.end,
+          embeddingModel: '', // Will be filled later
+          uploadedAt: document.uploadDate.getTime(),
+        },
+      };
+    });
   }
 
-  private async processAndStoreChunks(chunks: ChunkData[]): Promise<void> {
+  private async processAndStoreChunks(
+    chunks: ChunkData[],
+    hooks: ProcessingHooks,
+    onIndexingStarted: () => void,
+  ): Promise<void> {
     this.logger.log(`Processing ${chunks.length} chunks...`);
 
     // Generate embeddings for all chunks
+    hooks.onStage?.('embedding', chunks.length);
     const texts = chunks.map((chunk) => chunk.text);
-    const embeddings = await this.embeddingsService.generateEmbeddings(texts);
+    const embeddings = await this.embeddingsService.generateEmbeddingsWithInfo(
+      texts,
+      (embeddedChunks) => hooks.onProgress?.({ embeddedChunks }),
+      hooks.signal,
+    );
+    hooks.signal?.throwIfAborted();
 
     // Assign embeddings to chunks
     for (let i = 0; i < chunks.length; i++) {
-      chunks[i].embedding = embeddings[i];
+      chunks[i].embedding = embeddings[i].embedding;
+      chunks[i].metadata.embeddingModel = embeddings[i].model;
     }
 
-    // Store in Milvus
-    await this.milvusService.insertChunks(chunks);
+    // Store in slices so progress and cancellation stay responsive
+    hooks.onStage?.('indexing', chunks.length);
+    onIndexingStarted();
+    for (let i = 0; i < chunks.length; i += INSERT_BATCH_SIZE) {
+      hooks.signal?.throwIfAborted();
+      await this.vectorStore.insertChunks(
+        chunks.slice(i, i + INSERT_BATCH_SIZE),
+      );
+      hooks.onProgress?.({
+        indexedChunks: Math.min(i + INSERT_BATCH_SIZE, chunks.length),
+      });
+    }
+    await this.keywordIndexService.addChunks(chunks);
 
-    this.logger.log('All chunks processed and stored in Milvus');
+    this.logger.log('All chunks processed and stored in the vector store');
   }
 
   private generateDocumentId(): string {
     return `doc_${randomBytes(8).toString('hex')}_${Date.now()}`;
   }
 
-  getAllDocuments(): PdfDocument[] {
-    return Array.from(this.documents.values());
+  async getAllDocuments(): Promise<PdfDocument[]> {
+    return this.documentRepository.findAll();
   }
 
-  getDocument(id: string): PdfDocument | undefined {
-    return this.documents.get(id);
+  async getDocument(id: string): Promise<PdfDocument | undefined> {
+    return this.documentRepository.findById(id);
   }
 
-  async deleteDocument(id: string): Promise<boolean> {
-    const document = this.documents.get(id);
+  /**
+   * Changes a document's visibility or groups; the owner stays. Returns
+   * undefined when the document is unknown.
+   */
+  async updateAccess(
+    id: string,
+    changes: Partial<Pick<DocumentAccess, 'visibility' | 'groups'>>,
+  ): Promise<PdfDocument | undefined> {
+    const document = await this.documentRepository.findById(id);
     if (!document) {
-      return false;
+      return undefined;
     }
 
-    try {
-      // Note: In a real implementation, you might want to delete specific chunks from Milvus
-      // For now, we'll just remove from our in-memory storage
-      this.documents.delete(id);
-      this.logger.log(`Deleted document: ${document.filename} (ID: ${id})`);
-      return true;
-    } catch (error) {
-      this.logger.error(`Error deleting document ${id}:`, error.message);
-      return false;
+    document.access = {
+      owner: document.access?.owner,
+      visibility: document.access?.visibility ?? 'public',
+      groups: document.access?.groups ?? [],
+      ...changes,
+    };
+    await this.documentRepository.save(document);
+    this.documentAccessService.invalidate();
+
+    this.logger.log(
+      `Changed access of document ${id} to ${document.access.visibility}`,
+    );
+    return document;
+  }
+
+  /**
+   * Deletes a document together with its vectors and keyword index
+   * entries. Returns undefined when the document is unknown; vector store
+   * failures propagate so the metadata record is only dropped once its
+   * chunks are gone.
+   */
+  async deleteDocument(id: string): Promise<DeletedDocument | undefined> {
+    const document = await this.documentRepository.findById(id);
+    if (!document) {
+      return undefined;
     }
+
+    const chunksRemoved = await this.vectorStore.deleteDocumentChunks(id);
+    await this.keywordIndexService.removeDocument(id);
+    await this.documentRepository.delete(id);
+    this.documentAccessService.invalidate();
+
+    this.logger.log(
+      `Deleted document: ${document.filename} (ID: ${id}, ${chunksRemoved} chunks removed)`,
+    );
+    return { document, chunksRemoved };
   }
 
-  getDocumentStats(): { totalDocuments: number; totalChunks: number } {
-    const documents = Array.from(this.documents.values());
+  /**
+   * Counts the documents a principal may see, or all documents without one.
+   */
+  async getDocumentStats(principal?: Principal): Promise<{
+    totalDocuments: number;
+    totalChunks: number;
+  }> {
+    const documents = (await this.documentRepository.findAll()).filter(
+      (doc) => !principal || canAccessDocument(principal, doc.access),
+    );
     return {
       totalDocuments: documents.length,
       totalChunks: documents.reduce((sum, doc) => sum + doc.chunkCount, 0),
     };
   }
+
+  async reconcileWithVectorStore(): Promise<ReconciliationReport> {
+    const documents = await this.documentRepository.findAll();
+    const chunkCounts = await this.vectorStore.getDocumentChunkCounts();
+    const knownIds = new Set(documents.map((doc) => doc.id));
+
+    const report: ReconciliationReport = {
+      checkedAt: new Date(),
+      orphanedChunks: Array.from(chunkCounts.entries())
+        .filter(([documentId]) => !knownIds.has(documentId))
+        .map(([documentId, chunkCount]) => ({ documentId, chunkCount })),
+      missingChunks: documents
+        .filter((doc) => !chunkCounts.has(doc.id))
+        .map((doc) => doc.id),
+    };
+
+    // Nobody can tell whose orphaned chunks are, so only admins see them
+    this.documentAccessService.hideUnrecorded(
+      report.orphanedChunks.map((orphan) => orphan.documentId),
+    );
+    for (const orphan of report.orphanedChunks) {
+      this.logger.warn(
+        `Found ${orphan.chunkCount} orphaned chunks for unknown document ${orphan.documentId}`,
+      );
+    }
+    for (const documentId of report.missingChunks) {
+      this.logger.warn(
+        `Document ${documentId} has no chunks in the vector store`,
+      );
+    }
+
+    this.logger.log(
+      `Reconciled ${documents.length} documents against ${chunkCounts.size} documents in the vector store`,
+    );
+    return report;
+  }
 }
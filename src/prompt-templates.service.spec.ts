@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  PromptTemplatesService,
+  parseGenerationOverrides,
+} from './prompt-templates.service';
+import { createTestingService } from '../test/create-testing-service';
+
+describe('PromptTemplatesService', () => {
+  let directory: string;
+
+  const createService = async (config: Record<string, string> = {}) => {
+    const service = await createTestingService(PromptTemplatesService, {
+      PROMPTS_DIR: directory,
+      ...config,
+    });
+    await service.load();
+    return service;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'prompts-'));
+    await fs.promises.writeFile(
+      path.join(directory, 'default.md'),
+      `---
+description: Test template
+temperature: 0.2
+maxTokens: 300
+stop: ["Question:"]
+---
+{{#history}}History:
+{{history}}
+
+{{/history}}Context: {{context}}
+Question: {{ question }}
+`,
+    );
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should load templates with their generation options', async () => {
+    const service = await createService();
+
+    expect(service.list()).toEqual([
+      {
+        name: 'default',
+        description: 'Test template',
+        template: expect.stringContaining('Question: {{ question }}'),
+        generation: { temperature: 0.2, maxTokens: 300, stop: ['Question:'] },
+      },
+    ]);
+  });
+
+  it('should render variables and skip sections for empty ones', async () => {
+    const service = await createService();
+    const template = service.get();
+    const variables = {
+      context: 'Sam is a developer.',
+      question: 'Who is Sam?',
+      history: '',
+      sources: '',
+      citations: '',
+    };
+
+    expect(service.render(template, variables)).toBe(
+      'Context: Sam is a developer.\nQuestion: Who is Sam?',
+    );
+    expect(
+      service.render(template, { ...variables, history: 'User: Hi' }),
+    ).toBe(
+      'History:\nUser: Hi\n\nContext: Sam is a developer.\nQuestion: Who is Sam?',
+    );
+  });
+
+  it('should clamp overrides to the configured limits', async () => {
+    const service = await createService({
+      GENERATION_MAX_TOKENS_LIMIT: '500',
+      GENERATION_TEMPERATURE_LIMIT: '1',
+    });
+
+    const generation = service.resolveGeneration(
+      service.get('default'),
+      parseGenerationOverrides({ maxTokens: 2000, temperature: 1.8 }),
+    );
+
+    expect(generation).toEqual({
+      temperature: 1,
+      maxTokens: 500,
+      stop: ['Question:'],
+    });
+    expect(() => parseGenerationOverrides({ maxTokens: 'lots' })).toThrow(
+      'generation.maxTokens must be a number',
+    );
+  });
+
+  it('should reject unknown templates and variables', async () => {
+    await fs.promises.writeFile(
+      path.join(directory, 'broken.md'),
+      'Answer {{answer}}',
+    );
+
+    await expect(createService()).rejects.toThrow(
+      'Prompt template "broken" uses unknown variable "answer"',
+    );
+
+    await fs.promises.rm(path.join(directory, 'broken.md'));
+    const service = await createService();
+    expect(() => service.get('missing')).toThrow(
+      'Unknown prompt template "missing"',
+    );
+  });
+
+  it('should ship a valid default template', async () => {
+    const service = await createService({
+      PROMPTS_DIR: path.join(process.cwd(), 'prompts'),
+    });
+
+    expect(service.get().generation.stop).not.toContain('\n\n');
+  });
+});
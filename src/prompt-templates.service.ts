@@ -0,0 +1,248 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GenerationOptions } from './llm-provider';
+
+export const PROMPT_VARIABLES = [
+  'context',
+  'question',
+  'history',
+  'sources',
+  'citations',
+] as const;
+
+export type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+
+export type PromptVariables = Record<PromptVariable, string>;
+
+export interface PromptTemplate {
+  name: string;
+  description: string;
+  template: string;
+  // Generation options the template is tuned for
+  generation: GenerationOptions;
+}
+
+export interface GenerationLimits {
+  maxTokens: number;
+  temperature: number;
+  stopSequences: number;
+}
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+// {{name}}, and the {{#name}} and {{/name}} markers of a section
+const PLACEHOLDER = /\{\{\s*([#/]?)(\w+)\s*\}\}/g;
+const SECTION = /\{\{\s*#(\w+)\s*\}\}([\s\S]*?)\{\{\s*\/\1\s*\}\}/g;
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+const TEMPLATE_NAME = /^[\w-]+$/;
+
+/**
+ * Validates per-request generation overrides from a request body. Limits
+ * are applied later, when they are merged with a template's options.
+ */
+export function parseGenerationOverrides(
+  raw: unknown,
+): GenerationOptions | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('generation must be an object');
+  }
+
+  const input = raw as Record<string, unknown>;
+  const overrides: GenerationOptions = {};
+  for (const key of ['temperature', 'maxTokens', 'topP'] as const) {
+    if (input[key] !== undefined) {
+      const value = Number(input[key]);
+      if (typeof input[key] === 'boolean' || !Number.isFinite(value)) {
+        throw new Error(`generation.${key} must be a number`);
+      }
+      if (value < 0 || (key === 'maxTokens' && value < 1)) {
+        throw new Error(`generation.${key} is out of range`);
+      }
+      overrides[key] = key === 'maxTokens' ? Math.floor(value) : value;
+    }
+  }
+  if (input.stop !== undefined) {
+    if (
+      !Array.isArray(input.stop) ||
+      input.stop.some((stop) => typeof stop !== 'string' || !stop)
+    ) {
+      throw new Error('generation.stop must be a list of strings');
+    }
+    overrides.stop = input.stop;
+  }
+  return Object.keys(overrides).length > 0 ? overrides : undefined;
+}
+
+/**
+ * Named prompt templates, loaded from the Markdown files in PROMPTS_DIR.
+ * Each file has a front matter block with a description and generation
+ * options, followed by the template. Templates use {{variable}}
+ * placeholders and {{#variable}}...{{/variable}} sections that are only
+ * rendered when the variable is non-empty.
+ */
+@Injectable()
+export class PromptTemplatesService implements OnModuleInit {
+  private readonly logger = new Logger(PromptTemplatesService.name);
+  private readonly templates: Map<string, PromptTemplate> = new Map();
+  private readonly directory: string;
+  readonly defaultTemplate: string;
+  readonly limits: GenerationLimits;
+
+  constructor(private configService: ConfigService) {
+    this.directory = this.configService.get<string>(
+      'PROMPTS_DIR',
+      path.join(process.cwd(), 'prompts'),
+    );
+    this.defaultTemplate = this.configService.get<string>(
+      'PROMPT_TEMPLATE',
+      'default',
+    );
+    this.limits = {
+      maxTokens: Number(
+        this.configService.get('GENERATION_MAX_TOKENS_LIMIT', 1024),
+      ),
+      temperature: Number(
+        this.configService.get('GENERATION_TEMPERATURE_LIMIT', 1.5),
+      ),
+      stopSequences: Number(this.configService.get('GENERATION_STOP_LIMIT', 4)),
+    };
+  }
+
+  async onModuleInit() {
+    await this.load();
+  }
+
+  /**
+   * Reads every template file in the prompts directory, replacing the
+   * templates loaded before.
+   */
+  async load(): Promise<void> {
+    const files = (await fs.promises.readdir(this.directory))
+      .filter((file) => file.endsWith('.md'))
+      .sort();
+
+    this.templates.clear();
+    for (const file of files) {
+      const name = path.basename(file, '.md');
+      const raw = await fs.promises.readFile(
+        path.join(this.directory, file),
+        'utf-8',
+      );
+      this.templates.set(name, this.parse(name, raw));
+    }
+
+    if (!this.templates.has(this.defaultTemplate)) {
+      throw new Error(
+        `Prompt template "${this.defaultTemplate}" (PROMPT_TEMPLATE) not found in ${this.directory}`,
+      );
+    }
+    this.logger.log(
+      `Loaded ${this.templates.size} prompt templates from ${this.directory}`,
+    );
+  }
+
+  list(): PromptTemplate[] {
+    return Array.from(this.templates.values());
+  }
+
+  get(name: string = this.defaultTemplate): PromptTemplate {
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new Error(
+        `Unknown prompt template "${name}"; expected one of ${Array.from(this.templates.keys()).join(', ')}`,
+      );
+    }
+    return template;
+  }
+
+  render(template: PromptTemplate, variables: PromptVariables): string {
+    return template.template
+      .replace(SECTION, (section, name: PromptVariable, body: string) =>
+        variables[name] ? body : '',
+      )
+      .replace(
+        VARIABLE,
+        (placeholder, name: PromptVariable) => variables[name] ?? '',
+      );
+  }
+
+  /**
+   * Merges request overrides over the template's generation options and
+   * clamps the result to the configured limits.
+   */
+  resolveGeneration(
+    template: PromptTemplate,
+    overrides: GenerationOptions = {},
+  ): GenerationOptions {
+    const options: GenerationOptions = { ...template.generation, ...overrides };
+    if (options.maxTokens !== undefined) {
+      options.maxTokens = Math.min(options.maxTokens, this.limits.maxTokens);
+    }
+    if (options.temperature !== undefined) {
+      options.temperature = Math.min(
+        options.temperature,
+        this.limits.temperature,
+      );
+    }
+    if (options.topP !== undefined) {
+      options.topP = Math.min(options.topP, 1);
+    }
+    if (options.stop) {
+      options.stop = options.stop.slice(0, this.limits.stopSequences);
+    }
+    return options;
+  }
+
+  private parse(name: string, raw: string): PromptTemplate {
+    if (!TEMPLATE_NAME.test(name)) {
+      throw new Error(
+        `Prompt template name "${name}" may only contain letters, digits, "_" and "-"`,
+      );
+    }
+
+    const frontMatter = FRONT_MATTER.exec(raw);
+    const fields: Record<string, unknown> = {};
+    for (const line of (frontMatter?.[1] ?? '').split(/\r?\n/)) {
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        continue;
+      }
+      const value = line.substring(separator + 1).trim();
+      try {
+        fields[line.substring(0, separator).trim()] = JSON.parse(value);
+      } catch {
+        fields[line.substring(0, separator).trim()] = value;
+      }
+    }
+
+    const template = raw.substring(frontMatter?.[0].length ?? 0).trimEnd();
+    for (const [, , variable] of template.matchAll(PLACEHOLDER)) {
+      if (!PROMPT_VARIABLES.includes(variable as PromptVariable)) {
+        throw new Error(
+          `Prompt template "${name}" uses unknown variable "${variable}"; expected one of ${PROMPT_VARIABLES.join(', ')}`,
+        );
+      }
+    }
+    if (/\{\{\s*[#/]/.test(template.replace(SECTION, ''))) {
+      throw new Error(`Prompt template "${name}" has an unclosed section`);
+    }
+
+    let generation: GenerationOptions;
+    try {
+      generation = parseGenerationOverrides(fields) ?? {};
+    } catch (error) {
+      throw new Error(`Prompt template "${name}": ${error.message}`);
+    }
+    return {
+      name,
+      description:
+        typeof fields.description === 'string' ? fields.description : '',
+      template,
+      generation,
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { Controller, Get } from '@nestjs/common';
+import { PromptTemplatesService } from './prompt-templates.service';
+
+/**
+ * Lists the prompt templates that queries can select with `template`, and
+ * the limits that generation overrides are clamped to.
+ */
+@Controller('prompts')
+export class PromptsController {
+  constructor(
+    private readonly promptTemplatesService: PromptTemplatesService,
+  ) {}
+
+  @Get()
+  list() {
+    return {
+      defaultTemplate: this.promptTemplatesService.defaultTemplate,
+      limits: this.promptTemplatesService.limits,
+      templates: this.promptTemplatesService.list(),
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { ConfigService } from '@nestjs/config';
+import { LlmProvider } from './llm-provider';
+import { NoopReranker } from './noop.reranker';
+import { LexicalReranker } from './lexical.reranker';
+import { LlmReranker } from './llm.reranker';
+
+export const RERANKER = 'RERANKER';
+
+export interface RerankCandidate {
+  text: string;
+  // Score from retrieval, which the no-op reranker passes through
+  score: number;
+}
+
+/**
+ * Scores retrieved chunks against the query. Scores are returned in the
+ * order of the candidates; the lexical and LLM rerankers score from 0 to 1.
+ */
+export interface Reranker {
+  readonly name: string;
+  score(query: string, candidates: RerankCandidate[]): Promise<number[]>;
+}
+
+export function createReranker(
+  configService: ConfigService,
+  llmProvider: LlmProvider,
+): Reranker {
+  const reranker = configService.get<string>('RERANKER', 'none');
+
+  switch (reranker) {
+    case 'none':
+      return new NoopReranker();
+    case 'lexical':
+      return new LexicalReranker();
+    case 'llm':
+      return new LlmReranker(
+        llmProvider,
+        Number(configService.get('RERANK_CONCURRENCY', 2)),
+      );
+    default:
+      throw new Error(`Unknown RERANKER "${reranker}"`);
+  }
+}
@@ -0,0 +1,81 @@
+import { RerankingService } from './reranking.service';
+import { RetrievedChunk } from './retrieval.service';
+import { RERANKER, Reranker } from './reranker';
+import { LexicalReranker } from './lexical.reranker';
+import { NoopReranker } from './noop.reranker';
+import { createTestingService } from '../test/create-testing-service';
+
+describe('RerankingService', () => {
+  const chunk = (id: string, text: string, score: number): RetrievedChunk => ({
+    id,
+    text,
+    metadata: { documentId: id },
+    score,
+    vectorRank: null,
+    vectorScore: null,
+    keywordRank: null,
+    keywordScore: null,
+  });
+
+  const candidates = [
+    chunk('a', 'Opening hours are listed on the website.', 0.9),
+    chunk('b', 'The refund policy allows returns within 30 days.', 0.8),
+    chunk('c', 'Our refund policy allows returns within 30 days.', 0.7),
+    chunk('d', 'Shipping is free for orders over 50 euros.', 0.6),
+  ];
+
+  const createService = (
+    reranker: Reranker,
+    config: Record<string, string> = {},
+  ) =>
+    createTestingService(RerankingService, config, [
+      { provide: RERANKER, useValue: reranker },
+    ]);
+
+  it('should reorder candidates by the reranker score', async () => {
+    const service = await createService(new LexicalReranker());
+
+    const chunks = await service.rerank(
+      'what is the refund policy?',
+      candidates,
+      2,
+    );
+
+    expect(chunks.map((c) => c.id)).toEqual(['b', 'c']);
+    expect(chunks[0].rerankScore).toBeCloseTo(1);
+  });
+
+  it('should drop candidates below the minimum score', async () => {
+    const service = await createService(new LexicalReranker(), {
+      RERANK_MIN_SCORE: '0.5',
+    });
+
+    const chunks = await service.rerank('refund policy', candidates, 5);
+
+    expect(chunks.map((c) => c.id)).toEqual(['b', 'c']);
+  });
+
+  it('should drop near-duplicates of a better-ranked chunk', async () => {
+    const service = await createService(new NoopReranker(), {
+      RERANK_DEDUPE_THRESHOLD: '0.7',
+    });
+
+    const chunks = await service.rerank('refund policy', candidates, 5);
+
+    expect(chunks.map((c) => c.id)).toEqual(['a', 'b', 'd']);
+  });
+
+  it('should keep retrieval scores when the reranker fails', async () => {
+    const service = await createService({
+      name: 'broken',
+      score: jest.fn(async () => {
+        throw new Error('model unavailable');
+      }),
+    });
+
+    const chunks = await service.rerank('refund policy', candidates, 2);
+
+    expect(chunks.map((c) => c.id)).toEqual(['a', 'b']);
+    expect(chunks[0].rerankScore).toBe(0.9);
+  });
+});
@@ -0,0 +1,98 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RERANKER, Reranker } from './reranker';
+import { RetrievedChunk } from './retrieval.service';
+import { tokenize } from './keyword-index.service';
+
+export interface RerankedChunk extends RetrievedChunk {
+  rerankScore: number;
+}
+
+/**
+ * The stage between retrieval and generation. Retrieval over-fetches
+ * RERANK_CANDIDATES chunks; this reorders them with the configured reranker,
+ * drops those scoring below RERANK_MIN_SCORE and near-duplicates of a
+ * better-ranked chunk, and keeps the best topK.
+ */
+@Injectable()
+export class RerankingService {
+  private readonly logger = new Logger(RerankingService.name);
+  readonly candidates: number;
+  private readonly minScore: number;
+  private readonly dedupeThreshold: number;
+
+  constructor(
+    private configService: ConfigService,
+    @Inject(RERANKER) private reranker: Reranker,
+  ) {
+    this.candidates = Number(this.configService.get('RERANK_CANDIDATES', 20));
+    this.minScore = Number(this.configService.get('RERANK_MIN_SCORE', 0));
+    this.dedupeThreshold = Number(
+      this.configService.get('RERANK_DEDUPE_THRESHOLD', 0.9),
+    );
+  }
+
+  get rerankerName(): string {
+    return this.reranker.name;
+  }
+
+  async rerank(
+    query: string,
+    chunks: RetrievedChunk[],
+    topK: number,
+  ): Promise<RerankedChunk[]> {
+    let scores: number[];
+    try {
+      scores = await this.reranker.score(query, chunks);
+    } catch (error) {
+      this.logger.warn(
+        `Reranker ${this.reranker.name} failed (${error.message}); keeping retrieval order`,
+      );
+      scores = chunks.map((chunk) => chunk.score);
+    }
+
+    const ranked = chunks
+      .map((chunk, i) => ({ ...chunk, rerankScore: scores[i] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore);
+    const relevant = ranked.filter(
+      (chunk) => chunk.rerankScore >= this.minScore,
+    );
+
+    const kept: RerankedChunk[] = [];
+    const keptTerms: Set<string>[] = [];
+    for (const chunk of relevant) {
+      if (kept.length >= topK) {
+        break;
+      }
+      const terms = new Set(tokenize(chunk.text));
+      if (
+        keptTerms.some(
+          (other) => this.similarity(terms, other) >= this.dedupeThreshold,
+        )
+      ) {
+        continue;
+      }
+      kept.push(chunk);
+      keptTerms.push(terms);
+    }
+
+    this.logger.log(
+      `Reranked ${chunks.length} candidates with ${this.reranker.name}: ${chunks.length - relevant.length} below ${this.minScore}, kept ${kept.length}`,
+    );
+    return kept;
+  }
+
+  // Jaccard similarity of two term sets
+  private similarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) {
+      return 1;
+    }
+    let shared = 0;
+    for (const term of a) {
+      if (b.has(term)) {
+        shared++;
+      }
+    }
+    return shared / (a.size + b.size - shared);
+  }
+}
@@ -0,0 +1,79 @@
+import { BadRequestException, Body, Controller, Post } from '@nestjs/common';
+import { RETRIEVAL_MODES, RetrievalMode } from './retrieval.service';
+import { RerankingService } from './reranking.service';
+import { SearchFilter, parseSearchFilter } from './search-filter';
+import { KnowledgeBaseContext } from './knowledge-bases.service';
+import { CurrentKnowledgeBase } from './knowledge-base.decorator';
+import { CurrentPrincipal } from './auth.decorator';
+import { Principal } from './auth.service';
+
+export class RetrieveDto {
+  question: string;
+  topK?: number;
+  mode?: RetrievalMode;
+  // Run the reranking stage as question answering does
+  rerank?: boolean;
+  filter?: Record<string, unknown>;
+}
+
+const SNIPPET_LENGTH = 200;
+
+/**
+ * Retrieval without generation, for checking which chunks a question finds,
+ * how each retriever ranked them and, with rerank, what the reranker made of
+ * them.
+ */
+@Controller(['retrieve', 'knowledge-bases/:knowledgeBaseId/retrieve'])
+export class RetrievalController {
+  constructor(private readonly rerankingService: RerankingService) {}
+
+  @Post()
+  async retrieve(
+    @Body() dto: RetrieveDto,
+    @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    const { retrievalService } = knowledgeBase;
+    const { question, topK, mode } = dto;
+    const rerank = dto.rerank === true || String(dto.rerank) === 'true';
+    if (!question) {
+      throw new BadRequestException('Question is required');
+    }
+    if (mode && !RETRIEVAL_MODES.includes(mode)) {
+      throw new BadRequestException(
+        `Unknown mode "${mode}"; expected one of ${RETRIEVAL_MODES.join(', ')}`,
+      );
+    }
+    if (topK !== undefined && !(Number(topK) > 0)) {
+      throw new BadRequestException('topK must be a positive number');
+    }
+    let filter: SearchFilter | undefined;
+    try {
+      filter = parseSearchFilter(dto.filter);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    const limit = topK === undefined ? retrievalService.topK : Number(topK);
+    const result = await retrievalService.retrieve(question, {
+      mode,
+      topK: rerank ? Math.max(limit, this.rerankingService.candidates) : limit,
+      filter,
+      principal,
+    });
+    const chunks = rerank
+      ? await this.rerankingService.rerank(question, result.chunks, limit)
+      : result.chunks;
+    return {
+      question,
+      knowledgeBase: knowledgeBase.knowledgeBase.id,
+      mode: result.mode,
+      reranker: rerank ? this.rerankingService.rerankerName : null,
+      timing: result.timing,
+      results: chunks.map(({ text, ...chunk }) => ({
+        ...chunk,
+        snippet: text.substring(0, SNIPPET_LENGTH),
+      })),
+    };
+  }
+}
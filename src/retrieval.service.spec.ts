@@ -0,0 +1,79 @@
+import { RetrievalService } from './retrieval.service';
+import { VECTOR_STORE } from './vector-store';
+import { EmbeddingsService } from './embeddings.service';
+import { KeywordIndexService } from './keyword-index.service';
+import { DocumentAccessService } from './document-access.service';
+import {
+  DOCUMENT_REPOSITORY,
+  InMemoryDocumentRepository,
+} from './document-repository';
+import { createTestingService } from '../test/create-testing-service';
+
+describe('RetrievalService', () => {
+  const hit = (id: string, score: number) => ({
+    id,
+    text: `text of ${id}`,
+    metadata: { documentId: id },
+    score,
+  });
+
+  const createService = (config: Record<string, string> = {}) =>
+    createTestingService(RetrievalService, config, [
+      {
+        provide: VECTOR_STORE,
+        useValue: {
+          search: jest.fn(async () => [
+            hit('a', 0.9),
+            hit('b', 0.8),
+            hit('c', 0.7),
+          ]),
+        },
+      },
+      {
+        provide: EmbeddingsService,
+        useValue: { generateEmbedding: jest.fn(async () => [0.1, 0.2]) },
+      },
+      {
+        provide: KeywordIndexService,
+        useValue: { search: jest.fn(() => [hit('c', 7.5), hit('d', 3.1)]) },
+      },
+      DocumentAccessService,
+      { provide: DOCUMENT_REPOSITORY, useClass: InMemoryDocumentRepository },
+    ]);
+
+  it('should fuse both result lists with reciprocal rank fusion', async () => {
+    const service = await createService({ RRF_K: '60' });
+
+    const { chunks } = await service.retrieve('query', { topK: 3 });
+
+    // c is third in vector search and first in keyword search
+    expect(chunks.map((chunk) => chunk.id)).toEqual(['c', 'a', 'b']);
+    expect(chunks[0]).toMatchObject({
+      vectorRank: 3,
+      vectorScore: 0.7,
+      keywordRank: 1,
+      keywordScore: 7.5,
+    });
+    expect(chunks[0].score).toBeCloseTo(1 / 63 + 1 / 61);
+  });
+
+  it('should apply the configured weights', async () => {
+    const service = await createService({ HYBRID_VECTOR_WEIGHT: '0' });
+
+    const { chunks } = await service.retrieve('query', { topK: 2 });
+
+    expect(chunks.map((chunk) => chunk.id)).toEqual(['c', 'd']);
+  });
+
+  it('should use a single retriever when asked', async () => {
+    const service = await createService();
+
+    const { chunks, timing } = await service.retrieve('query', {
+      mode: 'keyword',
+    });
+
+    expect(chunks.map((chunk) => chunk.id)).toEqual(['c', 'd']);
+    expect(chunks[0].score).toBe(7.5);
+    expect(timing.vectorMs).toBeNull();
+  });
+});
@@ -0,0 +1,179 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { VECTOR_STORE, VectorStore } from './vector-store';
+import { EmbeddingsService } from './embeddings.service';
+import { IndexedChunk, KeywordIndexService } from './keyword-index.service';
+import { SearchFilter } from './search-filter';
+import { DocumentAccessService } from './document-access.service';
+import type { Principal } from './auth.service';
+
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+export const RETRIEVAL_MODES: RetrievalMode[] = ['vector', 'keyword', 'hybrid'];
+
+export interface RetrievalOptions {
+  topK?: number;
+  mode?: RetrievalMode;
+  // Only chunks matching the filter are considered by either retriever
+  filter?: SearchFilter;
+  // Only chunks of documents the principal may see are considered
+  principal?: Principal;
+}
+
+export interface RetrievedChunk extends IndexedChunk {
+  // Fused score in hybrid mode, otherwise the score of the single retriever
+  score: number;
+  // 1-based rank and raw score in each result list, null if not returned
+  vectorRank: number | null;
+  vectorScore: number | null;
+  keywordRank: number | null;
+  keywordScore: number | null;
+}
+
+export interface RetrievalResult {
+  mode: RetrievalMode;
+  chunks: RetrievedChunk[];
+  timing: { vectorMs: number | null; keywordMs: number | null };
+}
+
+/**
+ * Finds the chunks most relevant to a query with vector search, BM25 keyword
+ * search, or both. Hybrid mode takes RETRIEVAL_CANDIDATES results from each
+ * and merges them with weighted reciprocal rank fusion:
+ * score = Σ weight / (RRF_K + rank). With a principal, documents it may not
+ * see are filtered out before either retriever runs.
+ */
+@Injectable()
+export class RetrievalService {
+  private readonly logger = new Logger(RetrievalService.name);
+  readonly mode: RetrievalMode;
+  readonly topK: number;
+  private readonly candidates: number;
+  private readonly vectorWeight: number;
+  private readonly keywordWeight: number;
+  private readonly rrfK: number;
+
+  constructor(
+    private configService: ConfigService,
+    @Inject(VECTOR_STORE) private vectorStore: VectorStore,
+    private embeddingsService: EmbeddingsService,
+    private keywordIndexService: KeywordIndexService,
+    private documentAccessService: DocumentAccessService,
+  ) {
+    this.mode = this.configService.get<RetrievalMode>(
+      'RETRIEVAL_MODE',
+      'hybrid',
+    );
+    if (!RETRIEVAL_MODES.includes(this.mode)) {
+      throw new Error(
+        `Unknown RETRIEVAL_MODE "${this.mode}"; expected one of ${RETRIEVAL_MODES.join(', ')}`,
+      );
+    }
+    this.topK = Number(this.configService.get('RETRIEVAL_TOP_K', 5));
+    this.candidates = Number(
+      this.configService.get('RETRIEVAL_CANDIDATES', 20),
+    );
+    this.vectorWeight = Number(
+      this.configService.get('HYBRID_VECTOR_WEIGHT', 1),
+    );
+    this.keywordWeight = Number(
+      this.configService.get('HYBRID_KEYWORD_WEIGHT', 1),
+    );
+    this.rrfK = Number(this.configService.get('RRF_K', 60));
+  }
+
+  async retrieve(
+    query: string,
+    options: RetrievalOptions = {},
+  ): Promise<RetrievalResult> {
+    const mode = options.mode ?? this.mode;
+    const topK = options.topK ?? this.topK;
+    const candidates =
+      mode === 'hybrid' ? Math.max(topK, this.candidates) : topK;
+    const filter = await this.documentAccessService.restrictFilter(
+      options.filter,
+      options.principal,
+    );
+    const timing: RetrievalResult['timing'] = {
+      vectorMs: null,
+      keywordMs: null,
+    };
+
+    const [vectorHits, keywordHits] = await Promise.all([
+      mode === 'keyword'
+        ? []
+        : this.timed(
+            () => this.searchVectors(query, candidates, filter),
+            (ms) => (timing.vectorMs = ms),
+          ),
+      mode === 'vector'
+        ? []
+        : this.timed(
+            async () =>
+              this.keywordIndexService.search(query, candidates, filter),
+            (ms) => (timing.keywordMs = ms),
+          ),
+    ]);
+
+    const merged = new Map<string, RetrievedChunk>();
+    const rank = (
+      hits: (IndexedChunk & { score: number })[],
+      kind: 'vector' | 'keyword',
+      weight: number,
+    ) => {
+      hits.forEach((hit, index) => {
+        const chunk = merged.get(hit.id) ?? {
+          ...hit,
+          score: 0,
+          vectorRank: null,
+          vectorScore: null,
+          keywordRank: null,
+          keywordScore: null,
+        };
+        if (kind === 'vector') {
+          chunk.vectorRank = index + 1;
+          chunk.vectorScore = hit.score;
+        } else {
+          chunk.keywordRank = index + 1;
+          chunk.keywordScore = hit.score;
+        }
+        chunk.score +=
+          mode === 'hybrid' ? weight / (this.rrfK + index + 1) : hit.score;
+        merged.set(hit.id, chunk);
+      });
+    };
+    rank(vectorHits, 'vector', this.vectorWeight);
+    rank(keywordHits, 'keyword', this.keywordWeight);
+
+    const chunks = Array.from(merged.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+    this.logger.log(
+      `Retrieved ${chunks.length} chunks (${mode}: ${vectorHits.length} vector, ${keywordHits.length} keyword candidates)`,
+    );
+    return { mode, chunks, timing };
+  }
+
+  private async searchVectors(
+    query: string,
+    limit: number,
+    filter?: SearchFilter,
+  ): Promise<(IndexedChunk & { score: number })[]> {
+    const queryEmbedding =
+      await this.embeddingsService.generateEmbedding(query);
+    const hits = await this.vectorStore.search(queryEmbedding, limit, filter);
+    return hits.filter((hit) => (hit.text || '').length > 0);
+  }
+
+  private async timed<T>(
+    task: () => Promise<T>,
+    report: (ms: number) => void,
+  ): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      return await task();
+    } finally {
+      report(Date.now() - startedAt);
+    }
+  }
+}
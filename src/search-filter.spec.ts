@@ -0,0 +1,81 @@
+import {
+  combineFilters,
+  matchesFilter,
+  parseSearchFilter,
+  toMilvusExpression,
+} from './search-filter';
+
+describe('search filters', () => {
+  it('should parse a filter from a request body', () => {
+    const filter = parseSearchFilter({
+      documentIds: 'doc_1',
+      sourceTypes: ['pdf', 'markdown'],
+      uploadedAfter: '2024-01-01T00:00:00Z',
+    });
+
+    expect(filter).toEqual({
+      documentIds: ['doc_1'],
+      sourceTypes: ['pdf', 'markdown'],
+      uploadedAfter: new Date('2024-01-01T00:00:00Z'),
+    });
+    expect(parseSearchFilter({})).toBeUndefined();
+    expect(() => parseSearchFilter({ sourceTypes: ['exe'] })).toThrow(
+      'Unknown source type "exe"',
+    );
+    expect(() => parseSearchFilter({ uploadedBefore: 'yesterday' })).toThrow(
+      'uploadedBefore must be an ISO date',
+    );
+  });
+
+  it('should translate a filter into a Milvus expression', () => {
+    const expression = toMilvusExpression({
+      excludeDocumentIds: ['about_me'],
+      sourceTypes: ['pdf'],
+      filenamePattern: 'report_*.pdf',
+      uploadedBefore: new Date(1700000000000),
+    });
+
+    expect(expression).toBe(
+      'document_id not in ["about_me"] and source_type in ["pdf"] and ' +
+        'filename like "report\\\\_%.pdf" and uploaded_at <= 1700000000000',
+    );
+    expect(toMilvusExpression(undefined)).toBe('');
+  });
+
+  it('should match chunk metadata the same way in memory', () => {
+    const metadata = {
+      documentId: 'doc_1',
+      sourceType: 'pdf' as const,
+      filename: 'report_2024.pdf',
+      uploadedAt: Date.parse('2024-03-01T00:00:00Z'),
+    };
+
+    expect(matchesFilter(metadata, { filenamePattern: 'report_*.pdf' })).toBe(
+      true,
+    );
+    expect(matchesFilter(metadata, { filenamePattern: 'report?.pdf' })).toBe(
+      false,
+    );
+    expect(
+      matchesFilter(metadata, {
+        sourceTypes: ['pdf'],
+        uploadedAfter: new Date('2024-04-01T00:00:00Z'),
+      }),
+    ).toBe(false);
+    expect(matchesFilter(metadata, { excludeDocumentIds: ['doc_1'] })).toBe(
+      false,
+    );
+  });
+
+  it('should combine filters so both must match', () => {
+    expect(
+      combineFilters(
+        { sourceTypes: ['pdf', 'text'], excludeDocumentIds: ['a'] },
+        { sourceTypes: ['pdf'], excludeDocumentIds: ['b'] },
+      ),
+    ).toEqual({ sourceTypes: ['pdf'], excludeDocumentIds: ['a', 'b'] });
+    expect(combineFilters(undefined, { sourceTypes: ['pdf'] })).toEqual({
+      sourceTypes: ['pdf'],
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { ChunkMetadata, SOURCE_TYPES, SourceType } from './vector-store';
+
+/**
+ * Restricts retrieval to matching chunks. Every field that is set must
+ * match; filenamePattern is a glob where `*` matches any run of characters
+ * and `?` a single one.
+ */
+export interface SearchFilter {
+  documentIds?: string[];
+  excludeDocumentIds?: string[];
+  sourceTypes?: SourceType[];
+  filenamePattern?: string;
+  uploadedAfter?: Date;
+  uploadedBefore?: Date;
+}
+
+/**
+ * Validates a filter taken from a request body, with dates as ISO strings.
+ * Returns undefined when no field is set and throws on invalid values.
+ */
+export function parseSearchFilter(raw: unknown): SearchFilter | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('filter must be an object');
+  }
+
+  const input = raw as Record<string, unknown>;
+  const filter: SearchFilter = {};
+
+  const documentIds = parseStringList(input.documentIds, 'documentIds');
+  if (documentIds) {
+    filter.documentIds = documentIds;
+  }
+  const excludeDocumentIds = parseStringList(
+    input.excludeDocumentIds,
+    'excludeDocumentIds',
+  );
+  if (excludeDocumentIds) {
+    filter.excludeDocumentIds = excludeDocumentIds;
+  }
+  const sourceTypes = parseStringList(input.sourceTypes, 'sourceTypes');
+  if (sourceTypes) {
+    const unknown = sourceTypes.filter(
+      (type) => !SOURCE_TYPES.includes(type as SourceType),
+    );
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown source type "${unknown[0]}"; expected one of ${SOURCE_TYPES.join(', ')}`,
+      );
+    }
+    filter.sourceTypes = sourceTypes as SourceType[];
+  }
+  if (input.filenamePattern !== undefined) {
+    if (typeof input.filenamePattern !== 'string' || !input.filenamePattern) {
+      throw new Error('filenamePattern must be a non-empty string');
+    }
+    filter.filenamePattern = input.filenamePattern;
+  }
+  for (const key of ['uploadedAfter', 'uploadedBefore'] as const) {
+    if (input[key] !== undefined) {
+      const date = new Date(input[key] as string);
+      if (typeof input[key] !== 'string' || isNaN(date.getTime())) {
+        throw new Error(`${key} must be an ISO date`);
+      }
+      filter[key] = date;
+    }
+  }
+
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
+function parseStringList(value: unknown, name: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const list = typeof value === 'string' ? [value] : value;
+  if (
+    !Array.isArray(list) ||
+    list.length === 0 ||
+    list.some((item) => typeof item !== 'string' || !item)
+  ) {
+    throw new Error(`${name} must be a non-empty list of strings`);
+  }
+  return list;
+}
+
+/**
+ * Merges two filters so that a chunk has to match both.
+ */
+export function combineFilters(
+  a: SearchFilter | undefined,
+  b: SearchFilter | undefined,
+): SearchFilter | undefined {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  const intersect = <T>(x?: T[], y?: T[]) =>
+    x && y ? x.filter((item) => y.includes(item)) : (x ?? y);
+  const latest = (x?: Date, y?: Date) => (x && y ? (x > y ? x : y) : (x ?? y));
+  const earliest = (x?: Date, y?: Date) =>
+    x && y ? (x < y ? x : y) : (x ?? y);
+
+  const combined: SearchFilter = {
+    documentIds: intersect(a.documentIds, b.documentIds),
+    excludeDocumentIds:
+      a.excludeDocumentIds || b.excludeDocumentIds
+        ? [...(a.excludeDocumentIds ?? []), ...(b.excludeDocumentIds ?? [])]
+        : undefined,
+    sourceTypes: intersect(a.sourceTypes, b.sourceTypes),
+    filenamePattern: a.filenamePattern ?? b.filenamePattern,
+    uploadedAfter: latest(a.uploadedAfter, b.uploadedAfter),
+    uploadedBefore: earliest(a.uploadedBefore, b.uploadedBefore),
+  };
+  if (
+    a.filenamePattern &&
+    b.filenamePattern &&
+    a.filenamePattern !== b.filenamePattern
+  ) {
+    throw new Error('Cannot combine two different filename patterns');
+  }
+  for (const key of Object.keys(combined) as (keyof SearchFilter)[]) {
+    if (combined[key] === undefined) {
+      delete combined[key];
+    }
+  }
+  return combined;
+}
+
+/**
+ * Translates a filter into a Milvus boolean expression over the chunk
+ * metadata fields, e.g. `source_type in ["pdf"] and uploaded_at >= 1700000000000`.
+ */
+export function toMilvusExpression(filter: SearchFilter | undefined): string {
+  if (!filter) {
+    return '';
+  }
+
+  const clauses: string[] = [];
+  if (filter.documentIds) {
+    clauses.push(`document_id in ${toMilvusList(filter.documentIds)}`);
+  }
+  if (filter.excludeDocumentIds) {
+    clauses.push(
+      `document_id not in ${toMilvusList(filter.excludeDocumentIds)}`,
+    );
+  }
+  if (filter.sourceTypes) {
+    clauses.push(`source_type in ${toMilvusList(filter.sourceTypes)}`);
+  }
+  if (filter.filenamePattern) {
+    const pattern = filter.filenamePattern
+      .replace(/[\\%_]/g, '\\$&')
+      .replace(/\*/g, '%')
+      .replace(/\?/g, '_');
+    clauses.push(`filename like ${toMilvusString(pattern)}`);
+  }
+  if (filter.uploadedAfter) {
+    clauses.push(`uploaded_at >= ${filter.uploadedAfter.getTime()}`);
+  }
+  if (filter.uploadedBefore) {
+    clauses.push(`uploaded_at <= ${filter.uploadedBefore.getTime()}`);
+  }
+  return clauses.join(' and ');
+}
+
+/**
+ * Names of the Milvus fields a filter's expression refers to.
+ */
+export function filterFields(filter: SearchFilter | undefined): string[] {
+  if (!filter) {
+    return [];
+  }
+  const fields = new Set<string>();
+  if (filter.documentIds || filter.excludeDocumentIds) {
+    fields.add('document_id');
+  }
+  if (filter.sourceTypes) {
+    fields.add('source_type');
+  }
+  if (filter.filenamePattern) {
+    fields.add('filename');
+  }
+  if (filter.uploadedAfter || filter.uploadedBefore) {
+    fields.add('uploaded_at');
+  }
+  return Array.from(fields);
+}
+
+function toMilvusString(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function toMilvusList(values: string[]): string {
+  return `[${values.map(toMilvusString).join(', ')}]`;
+}
+
+/**
+ * Applies a filter to chunk metadata in memory, with the same meaning as
+ * the Milvus expression, for retrievers that don't go through Milvus.
+ */
+export function matchesFilter(
+  metadata: Partial<ChunkMetadata>,
+  filter: SearchFilter | undefined,
+): boolean {
+  if (!filter) {
+    return true;
+  }
+  if (filter.documentIds && !filter.documentIds.includes(metadata.documentId)) {
+    return false;
+  }
+  if (filter.excludeDocumentIds?.includes(metadata.documentId)) {
+    return false;
+  }
+  if (filter.sourceTypes && !filter.sourceTypes.includes(metadata.sourceType)) {
+    return false;
+  }
+  if (
+    filter.filenamePattern &&
+    !globToRegExp(filter.filenamePattern).test(metadata.filename ?? '')
+  ) {
+    return false;
+  }
+  const uploadedAt = metadata.uploadedAt ?? 0;
+  if (filter.uploadedAfter && uploadedAt < filter.uploadedAfter.getTime()) {
+    return false;
+  }
+  if (filter.uploadedBefore && uploadedAt > filter.uploadedBefore.getTime()) {
+    return false;
+  }
+  return true;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) =>
+      char === '*'
+        ? '.*'
+        : char === '?'
+          ? '.'
+          : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'),
+    )
+    .join('');
+  return new RegExp(`^${source}$`, 's');
+}
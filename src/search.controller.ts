@@ -0,0 +1,42 @@
+import { BadRequestException, Body, Controller, Post } from '@nestjs/common';
+import { SearchRequest, SearchService } from './search.service';
+import { KnowledgeBaseContext } from './knowledge-bases.service';
+import { CurrentKnowledgeBase } from './knowledge-base.decorator';
+import { CurrentPrincipal } from './auth.decorator';
+import { Principal } from './auth.service';
+
+export class SearchDto {
+  query: string;
+  // "vector" (default), "keyword" or "hybrid"
+  mode?: string;
+  topK?: number;
+  minScore?: number;
+  // See SearchFilter; dates as ISO strings
+  filter?: Record<string, unknown>;
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * Search over the chunks of a knowledge base, returning ranked chunks with
+ * their scores, document details and the positions of matched query terms.
+ */
+@Controller(['search', 'knowledge-bases/:knowledgeBaseId/search'])
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Post()
+  async search(
+    @Body() dto: SearchDto,
+    @CurrentKnowledgeBase() knowledgeBase: KnowledgeBaseContext,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    let request: SearchRequest;
+    try {
+      request = this.searchService.parseRequest({ ...dto });
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+    return this.searchService.search(knowledgeBase, request, principal);
+  }
+}
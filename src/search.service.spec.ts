@@ -0,0 +1,113 @@
+import { SearchService, highlightTerms } from './search.service';
+import { KnowledgeBaseContext } from './knowledge-bases.service';
+import { createTestingService } from '../test/create-testing-service';
+
+describe('SearchService', () => {
+  let service: SearchService;
+
+  beforeEach(async () => {
+    service = await createTestingService(SearchService);
+  });
+
+  it('should highlight query terms, whole or as parts of codes', () => {
+    const text = 'The XR-200 pump. Replace the pump filter yearly.';
+
+    expect(highlightTerms(text, 'How do I service the XR pump?')).toEqual({
+      matchedTerms: ['xr', 'pump'],
+      highlights: [
+        { start: 4, end: 6 },
+        { start: 11, end: 15 },
+        { start: 29, end: 33 },
+      ],
+    });
+    expect(highlightTerms(text, 'the')).toEqual({
+      matchedTerms: [],
+      highlights: [],
+    });
+  });
+
+  it('should validate requests and cap sizes', () => {
+    expect(
+      service.parseRequest({ query: ' pumps ', topK: '500', pageSize: 5 }),
+    ).toEqual({
+      query: 'pumps',
+      mode: 'vector',
+      topK: 200,
+      minScore: undefined,
+      filter: undefined,
+      page: 1,
+      pageSize: 5,
+    });
+    expect(() => service.parseRequest({ query: '' })).toThrow(
+      'query is required',
+    );
+    expect(() => service.parseRequest({ query: 'x', page: 0 })).toThrow(
+      'page must be a positive integer',
+    );
+    expect(() =>
+      service.parseRequest({ query: 'x', minScore: 'high' }),
+    ).toThrow('minScore must be a number');
+  });
+
+  it('should drop results below minScore and page through the rest', async () => {
+    const retrieve = jest.fn().mockResolvedValue({
+      chunks: [0.9, 0.8, 0.7, 0.2].map((score, index) => ({
+        id: `doc_a_chunk_${index}`,
+        text: `pump ${index}`,
+        metadata: { documentId: index < 2 ? 'doc_a' : 'about_me_1' },
+        score,
+        vectorScore: score,
+        keywordScore: null,
+      })),
+    });
+    const getDocument = jest.fn(async (id: string) =>
+      id === 'doc_a'
+        ? {
+            id,
+            filename: 'pumps.pdf',
+            metadata: { title: 'Pumps' },
+            uploadDate: new Date(0),
+          }
+        : undefined,
+    );
+    const knowledgeBase = {
+      knowledgeBase: { id: 'default' },
+      retrievalService: { retrieve },
+      pdfService: { getDocument },
+    } as unknown as KnowledgeBaseContext;
+
+    const response = await service.search(
+      knowledgeBase,
+      service.parseRequest({
+        query: 'pump',
+        minScore: 0.5,
+        pageSize: 2,
+        page: 2,
+      }),
+    );
+
+    expect(retrieve).toHaveBeenCalledWith('pump', {
+      mode: 'vector',
+      topK: 50,
+      filter: undefined,
+    });
+    expect(response).toMatchObject({ total: 3, page: 2, totalPages: 2 });
+    expect(response.results).toEqual([
+      expect.objectContaining({
+        rank: 3,
+        chunkId: 'doc_a_chunk_2',
+        matchedTerms: ['pump'],
+        document: null,
+      }),
+    ]);
+
+    const first = await service.search(
+      knowledgeBase,
+      service.parseRequest({ query: 'pump', pageSize: 2 }),
+    );
+    expect(first.results[0].document).toEqual(
+      expect.objectContaining({ filename: 'pumps.pdf', title: 'Pumps' }),
+    );
+    expect(getDocument).toHaveBeenCalledTimes(2);
+  });
+});
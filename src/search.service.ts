@@ -0,0 +1,262 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  TERM_PATTERN,
+  TERM_SEPARATOR,
+  tokenize,
+} from './keyword-index.service';
+import { STOPWORDS } from './lexical.reranker';
+import { KnowledgeBaseContext } from './knowledge-bases.service';
+import { PdfDocument } from './pdf.service';
+import { RETRIEVAL_MODES, RetrievalMode } from './retrieval.service';
+import { SearchFilter, parseSearchFilter } from './search-filter';
+import { ChunkMetadata } from './vector-store';
+import type { Principal } from './auth.service';
+
+export interface SearchRequest {
+  query: string;
+  // Retriever to rank with; vector search unless set
+  mode: RetrievalMode;
+  // Ranked results to page through
+  topK: number;
+  // Results scoring below this are dropped, in the mode's score scale
+  minScore?: number;
+  filter?: SearchFilter;
+  // 1-based
+  page: number;
+  pageSize: number;
+}
+
+export interface TermHighlight {
+  // Character range of a matched query term in the chunk text
+  start: number;
+  end: number;
+}
+
+export interface SearchHit {
+  rank: number;
+  chunkId: string;
+  score: number;
+  vectorScore: number | null;
+  keywordScore: number | null;
+  text: string;
+  matchedTerms: string[];
+  highlights: TermHighlight[];
+  metadata: Partial<ChunkMetadata>;
+  // The document's record, null for sources without one such as about_me.txt
+  document: {
+    id: string;
+    filename: string;
+    title: string | null;
+    author: string | null;
+    uploadDate: Date;
+  } | null;
+}
+
+export interface SearchResponse {
+  query: string;
+  knowledgeBase: string;
+  mode: RetrievalMode;
+  // Results above minScore, within topK
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  results: SearchHit[];
+}
+
+/**
+ * Validates a search request body. `topK` and `pageSize` are capped at
+ * `maxResults`.
+ */
+export function parseSearchRequest(
+  raw: Record<string, unknown>,
+  defaults: { topK: number; pageSize: number; maxResults: number },
+): SearchRequest {
+  const query = typeof raw.query === 'string' ? raw.query.trim() : '';
+  if (!query) {
+    throw new Error('query is required');
+  }
+
+  const mode = (raw.mode ?? 'vector') as RetrievalMode;
+  if (!RETRIEVAL_MODES.includes(mode)) {
+    throw new Error(
+      `Unknown mode "${raw.mode}"; expected one of ${RETRIEVAL_MODES.join(', ')}`,
+    );
+  }
+
+  const positiveInteger = (key: string, fallback: number): number => {
+    if (raw[key] === undefined || raw[key] === null) {
+      return fallback;
+    }
+    const value = Number(raw[key]);
+    if (
+      typeof raw[key] === 'boolean' ||
+      !Number.isInteger(value) ||
+      value < 1
+    ) {
+      throw new Error(`${key} must be a positive integer`);
+    }
+    return value;
+  };
+
+  let minScore: number | undefined;
+  if (raw.minScore !== undefined && raw.minScore !== null) {
+    minScore = Number(raw.minScore);
+    if (typeof raw.minScore === 'boolean' || !Number.isFinite(minScore)) {
+      throw new Error('minScore must be a number');
+    }
+  }
+
+  return {
+    query,
+    mode,
+    topK: Math.min(positiveInteger('topK', defaults.topK), defaults.maxResults),
+    minScore,
+    filter: parseSearchFilter(raw.filter),
+    page: positiveInteger('page', 1),
+    pageSize: Math.min(
+      positiveInteger('pageSize', defaults.pageSize),
+      defaults.maxResults,
+    ),
+  };
+}
+
+/**
+ * Finds where the query's terms occur in a text, matching terms the way the
+ * keyword index does: case-insensitively, and codes like "XR-200" whole or
+ * by their parts. Stopwords are not highlighted.
+ */
+export function highlightTerms(
+  text: string,
+  query: string,
+): { matchedTerms: string[]; highlights: TermHighlight[] } {
+  const terms = new Set(tokenize(query).filter((term) => !STOPWORDS.has(term)));
+  const matched = new Set<string>();
+  const highlights: TermHighlight[] = [];
+  if (terms.size === 0) {
+    return { matchedTerms: [], highlights };
+  }
+
+  for (const match of text.matchAll(TERM_PATTERN)) {
+    const word = match[0].toLowerCase();
+    if (terms.has(word)) {
+      matched.add(word);
+      highlights.push({
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+      continue;
+    }
+    // Parts of a compound word, with their offsets within it
+    let offset = 0;
+    for (const part of match[0].split(TERM_SEPARATOR)) {
+      if (terms.has(part.toLowerCase())) {
+        matched.add(part.toLowerCase());
+        const start = match.index + offset;
+        highlights.push({ start, end: start + part.length });
+      }
+      offset += part.length + 1;
+    }
+  }
+  return { matchedTerms: Array.from(matched), highlights };
+}
+
+/**
+ * Ranked chunk search without answer generation, for search UIs and for
+ * checking what retrieval returns for a question that got a bad answer.
+ * Each page re-runs retrieval for `topK` results and returns its slice, so
+ * pages stay consistent as long as the collection does not change.
+ */
+@Injectable()
+export class SearchService {
+  readonly defaultTopK: number;
+  readonly defaultPageSize: number;
+  readonly maxResults: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.defaultTopK = Number(this.configService.get('SEARCH_TOP_K', 50));
+    this.defaultPageSize = Number(
+      this.configService.get('SEARCH_PAGE_SIZE', 10),
+    );
+    this.maxResults = Number(this.configService.get('SEARCH_MAX_RESULTS', 200));
+  }
+
+  parseRequest(raw: Record<string, unknown>): SearchRequest {
+    return parseSearchRequest(raw, {
+      topK: this.defaultTopK,
+      pageSize: this.defaultPageSize,
+      maxResults: this.maxResults,
+    });
+  }
+
+  /**
+   * Runs a search as the principal, whose document access limits the hits.
+   */
+  async search(
+    knowledgeBase: KnowledgeBaseContext,
+    request: SearchRequest,
+    principal?: Principal,
+  ): Promise<SearchResponse> {
+    const { chunks } = await knowledgeBase.retrievalService.retrieve(
+      request.query,
+      {
+        mode: request.mode,
+        topK: request.topK,
+        filter: request.filter,
+        principal,
+      },
+    );
+    const ranked = chunks.filter(
+      (chunk) =>
+        request.minScore === undefined || chunk.score >= request.minScore,
+    );
+
+    const start = (request.page - 1) * request.pageSize;
+    const page = ranked.slice(start, start + request.pageSize);
+
+    // One lookup per document on the page rather than per chunk
+    const documentIds = Array.from(
+      new Set(page.map((chunk) => chunk.metadata.documentId).filter(Boolean)),
+    );
+    const documents = new Map<string, PdfDocument>();
+    for (const id of documentIds) {
+      const document = await knowledgeBase.pdfService.getDocument(id);
+      if (document) {
+        documents.set(id, document);
+      }
+    }
+
+    return {
+      query: request.query,
+      knowledgeBase: knowledgeBase.knowledgeBase.id,
+      mode: request.mode,
+      total: ranked.length,
+      page: request.page,
+      pageSize: request.pageSize,
+      totalPages: Math.ceil(ranked.length / request.pageSize),
+      results: page.map((chunk, index) => {
+        const document = documents.get(chunk.metadata.documentId);
+        return {
+          rank: start + index + 1,
+          chunkId: chunk.id,
+          score: chunk.score,
+          vectorScore: chunk.vectorScore,
+          keywordScore: chunk.keywordScore,
+          text: chunk.text,
+          ...highlightTerms(chunk.text, request.query),
+          metadata: chunk.metadata,
+          document: document
+            ? {
+                id: document.id,
+                filename: document.filename,
+                title: document.metadata?.title ?? null,
+                author: document.metadata?.author ?? null,
+                uploadDate: document.uploadDate,
+              }
+            : null,
+        };
+      }),
+    };
+  }
+}
@@ -1,17 +1,25 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import { MilvusService, ChunkData } from './milvus.service';
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { VECTOR_STORE, VectorStore, ChunkData } from './vector-store';
 import { EmbeddingsService } from './embeddings.service';
+import { ChunkingService, TextChunk } from './chunking.service';
+import { KeywordIndexService } from './keyword-index.service';
 import * as fs from 'fs';
 import * as path from 'path';
-import { randomBytes } from 'crypto';
+import { createHash } from 'crypto';
+
+const TEXT_FILENAME = 'about_me.txt';
+// Document ids are `about_me_<content hash>`, so each version is distinct
+const TEXT_DOCUMENT_PREFIX = 'about_me';
 
 @Injectable()
 export class TextContextService implements OnModuleInit {
   private readonly logger = new Logger(TextContextService.name);
 
   constructor(
-    private milvusService: MilvusService,
+    @Inject(VECTOR_STORE) private vectorStore: VectorStore,
     private embeddingsService: EmbeddingsService,
+    private chunkingService: ChunkingService,
+    private keywordIndexService: KeywordIndexService,
   ) {}
 
   async onModuleInit() {
@@ -24,83 +32,95 @@ export class TextContextService implements OnModuleInit {
     }
   }
 
-  private async loadAndProcessTextFile(): Promise<void> {
+  /**
+   * Stores about_me.txt unless chunks for the same content already exist,
+   * then removes chunks left over from earlier versions of the file. With
+   * `force`, the current version is re-embedded even if it is stored.
+   */
+  private async loadAndProcessTextFile(force: boolean = false): Promise<void> {
     try {
-      const filePath = path.join(process.cwd(), 'about_me.txt');
+      const filePath = path.join(process.cwd(), TEXT_FILENAME);
       const content = fs.readFileSync(filePath, 'utf-8');
 
       this.logger.log('Text file loaded successfully');
 
-      const chunks = this.chunkText(content);
-      await this.processAndStoreChunks(chunks);
-    } catch (error) {
-      this.logger.error('Error loading text file:', error.message);
-    }
-  }
-
-  private chunkText(
-    text: string,
-    chunkSize: number = 500,
-    overlap: number = 50,
-  ): string[] {
-    const sentences = text
-      .split(/[.!?]+/)
-      .filter((sentence) => sentence.trim().length > 0);
-    const chunks: string[] = [];
-    let currentChunk = '';
-
-    for (const sentence of sentences) {
-      const trimmedSentence = sentence.trim();
-      if (currentChunk.length + trimmedSentence.length <= chunkSize) {
-        currentChunk += (currentChunk ? '. ' : '') + trimmedSentence;
-      } else {
-        if (currentChunk) {
-          chunks.push(currentChunk + '.');
-        }
-
-        // Handle overlap by including the last part of the previous chunk
-        if (overlap > 0 && chunks.length > 0) {
-          const lastChunk = chunks[chunks.length - 1];
-          const overlapText = lastChunk.slice(-overlap);
-          currentChunk = overlapText + ' ' + trimmedSentence;
-        } else {
-          currentChunk = trimmedSentence;
-        }
+      // Chunking settings are part of the version, so changing them re-chunks
+      const chunking = this.chunkingService.getDefaults();
+      const contentHash = createHash('sha256')
+        .update(content)
+        .update(JSON.stringify(chunking))
+        .digest('hex');
+      const documentId = `${TEXT_DOCUMENT_PREFIX}_${contentHash.substring(0, 16)}`;
+      const stored = await this.vectorStore.getDocumentChunkCounts(
+        `${TEXT_DOCUMENT_PREFIX}_`,
+      );
+
+      if (stored.has(documentId) && !force) {
+        this.logger.log(`${TEXT_FILENAME} is unchanged; skipping ingestion`);
+        return;
       }
-    }
 
-    if (currentChunk) {
-      chunks.push(currentChunk + '.');
+      if (stored.has(documentId)) {
+        await this.vectorStore.deleteDocumentChunks(documentId);
+        await this.keywordIndexService.removeDocument(documentId);
+      }
+      const chunks = this.chunkingService.chunk(content, chunking);
+      await this.processAndStoreChunks(chunks, documentId);
+
+      // Chunks from older versions, and the unversioned id used before
+      const staleIds = Array.from(stored.keys())
+        .concat(TEXT_DOCUMENT_PREFIX)
+        .filter((id) => id !== documentId);
+      for (const staleId of staleIds) {
+        await this.vectorStore.deleteDocumentChunks(staleId);
+        await this.keywordIndexService.removeDocument(staleId);
+      }
+    } catch (error) {
+      this.logger.error('Error loading text file:', error.message);
     }
-
-    return chunks;
   }
 
-  private async processAndStoreChunks(chunks: string[]): Promise<void> {
+  private async processAndStoreChunks(
+    chunks: TextChunk[],
+    documentId: string,
+  ): Promise<void> {
     this.logger.log(`Processing ${chunks.length} chunks...`);
 
-    const embeddings = await this.embeddingsService.generateEmbeddings(chunks);
+    const embeddings = await this.embeddingsService.generateEmbeddingsWithInfo(
+      chunks.map((chunk) => chunk.text),
+    );
 
     const chunkData: ChunkData[] = [];
+    const uploadedAt = Date.now();
     for (let index = 0; index < chunks.length; index++) {
       chunkData.push({
-        id: await this.generateId(),
-        text: chunks[index],
-        embedding: embeddings[index],
+        id: `${documentId}_chunk_${chunks[index].index}`,
+        text: chunks[index].text,
+        embedding: embeddings[index].embedding,
+        metadata: {
+          documentId,
+          sourceType: 'text',
+          filename: TEXT_FILENAME,
+          pageNumber: 0,
+          pageEnd: 0,
+          sectionNumber: 0,
+          heading: chunks[index].heading ?? '',
+          chunkIndex: chunks[index].index,
+          charStart: chunks[index].start,
+          charEnd: chunks[index].end,
+          embeddingModel: embeddings[index].model,
+          uploadedAt,
+        },
       });
     }
 
-    await this.milvusService.insertChunks(chunkData);
-    this.logger.log('All chunks processed and stored in Milvus');
-  }
-
-  private async generateId(): Promise<string> {
-    // Use crypto.randomBytes instead of nanoid to avoid ESM issues
-    return randomBytes(16).toString('hex');
+    await this.vectorStore.insertChunks(chunkData);
+    await this.keywordIndexService.addChunks(chunkData);
+    this.logger.log('All chunks processed and stored in the vector store');
   }
 
   async reprocessTextFile(): Promise<void> {
     this.logger.log('Reprocessing text file...');
-    await this.loadAndProcessTextFile();
+    await this.loadAndProcessTextFile(true);
   }
 }
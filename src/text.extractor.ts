@@ -0,0 +1,26 @@
+import { DocumentExtractor, ExtractedDocument } from './document-extractor';
+
+// Bytes checked when deciding whether an upload is text
+const SNIFF_LENGTH = 8192;
+
+/**
+ * Decodes UTF-8 text, dropping a byte order mark if present.
+ */
+export function decodeText(buffer: Buffer): string {
+  return buffer.toString('utf-8').replace(/^\uFEFF/, '');
+}
+
+export class TextExtractor implements DocumentExtractor {
+  readonly format = 'text';
+  readonly extensions = ['.txt', '.text', '.log'];
+  readonly mimeTypes = ['text/plain'];
+
+  // Anything without NUL bytes is treated as text
+  sniff(buffer: Buffer): boolean {
+    return !buffer.subarray(0, SNIFF_LENGTH).includes(0);
+  }
+
+  async extract(buffer: Buffer): Promise<ExtractedDocument> {
+    return { text: decodeText(buffer), sections: [] };
+  }
+}
@@ -0,0 +1,65 @@
+import {
+  Tiktoken,
+  TiktokenModel,
+  encodingForModel,
+  getEncoding,
+} from 'js-tiktoken';
+
+/**
+ * Counts and cuts text in model tokens. OpenAI models use their own
+ * encoding; other models (e.g. Llama through Ollama) are approximated with
+ * cl100k_base, which is close enough to budget a prompt by.
+ */
+export class TokenCounter {
+  private readonly encoding: Tiktoken;
+  readonly exact: boolean;
+
+  constructor(model: string) {
+    try {
+      this.encoding = encodingForModel(model as TiktokenModel);
+      this.exact = true;
+    } catch {
+      this.encoding = getEncoding('cl100k_base');
+      this.exact = false;
+    }
+  }
+
+  count(text: string): number {
+    return this.encode(text).length;
+  }
+
+  /**
+   * Shortens text to at most maxTokens, ending at the last sentence or word
+   * boundary that fits and marking the cut with an ellipsis.
+   */
+  truncate(text: string, maxTokens: number): string {
+    const tokens = this.encode(text);
+    if (tokens.length <= maxTokens) {
+      return text;
+    }
+    if (maxTokens <= 1) {
+      return '';
+    }
+
+    // Leave a token for the ellipsis
+    const cut = this.encoding.decode(tokens.slice(0, maxTokens - 1));
+    const sentenceEnd = Math.max(
+      cut.lastIndexOf('. '),
+      cut.lastIndexOf('.\n'),
+      cut.lastIndexOf('\n'),
+    );
+    const wordEnd = cut.search(/\s\S*$/);
+    const end =
+      sentenceEnd > cut.length / 2
+        ? sentenceEnd + 1
+        : wordEnd > 0
+          ? wordEnd
+          : cut.length;
+    return `${cut.slice(0, end).trimEnd()}…`;
+  }
+
+  // Special-token markers in documents are counted as plain text
+  private encode(text: string): number[] {
+    return this.encoding.encode(text, [], []);
+  }
+}
@@ -0,0 +1,136 @@
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { EmbeddingsService } from './embeddings.service';
+import { SearchFilter } from './search-filter';
+import { MilvusVectorStore } from './milvus.vector-store';
+import { InMemoryVectorStore, VectorMetric } from './memory.vector-store';
+
+export const VECTOR_STORE = 'VECTOR_STORE';
+
+export type SourceType =
+  | 'pdf'
+  | 'text'
+  | 'markdown'
+  | 'html'
+  | 'docx'
+  | 'csv'
+  | 'json';
+
+export const SOURCE_TYPES: SourceType[] = [
+  'pdf',
+  'text',
+  'markdown',
+  'html',
+  'docx',
+  'csv',
+  'json',
+];
+
+export interface ChunkMetadata {
+  documentId: string;
+  sourceType: SourceType;
+  filename: string;
+  // 1-based page number, 0 when the source has no pages
+  pageNumber: number;
+  // Page the chunk ends on, the same as pageNumber unless it spans pages
+  pageEnd: number;
+  // 1-based section of the source (heading section, CSV row, JSON key), 0 if none
+  sectionNumber: number;
+  // Heading of the section the chunk belongs to, empty if none
+  heading: string;
+  chunkIndex: number;
+  // Character range of the chunk in the extracted source text, -1 if unknown
+  charStart: number;
+  charEnd: number;
+  // Model that produced the vector, empty for chunks stored before tagging
+  embeddingModel: string;
+  // When the source was uploaded, in epoch milliseconds; 0 if unknown
+  uploadedAt: number;
+}
+
+export interface ChunkData {
+  id: string;
+  text: string;
+  embedding: number[];
+  metadata: ChunkMetadata;
+}
+
+// A stored chunk without its vector
+export interface StoredChunk {
+  id: string;
+  text: string;
+  // Only the fields the collection stores; legacy collections lack some
+  metadata: Partial<ChunkMetadata>;
+}
+
+export interface ScoredChunk extends StoredChunk {
+  score: number;
+}
+
+/**
+ * Storage and similarity search for chunk vectors, bound to one collection.
+ * Chunk ids follow the `${documentId}_chunk_${n}` pattern used at ingestion.
+ */
+export interface VectorStore {
+  readonly name: string;
+  readonly collectionName: string;
+  // Connects and creates the collection if it does not exist yet
+  init(): Promise<void>;
+  insertChunks(chunks: ChunkData[]): Promise<void>;
+  // The topK chunks most similar to the embedding, best first
+  search(
+    embedding: number[],
+    topK: number,
+    filter?: SearchFilter,
+  ): Promise<ScoredChunk[]>;
+  // Stored chunks matching the filter, in no particular order
+  query(filter?: SearchFilter, limit?: number): Promise<StoredChunk[]>;
+  // Every stored chunk, in batches
+  iterateChunks(batchSize?: number): AsyncGenerator<StoredChunk[]>;
+  // Removes a document's chunks and returns how many there were
+  deleteDocumentChunks(documentId: string): Promise<number>;
+  // Chunk counts per document, for chunk ids starting with idPrefix
+  getDocumentChunkCounts(idPrefix?: string): Promise<Map<string, number>>;
+  deleteCollection(): Promise<void>;
+}
+
+/**
+ * Creates and initializes the configured vector store. Initializing here
+ * means services that read the store at startup get a ready one.
+ */
+export async function createVectorStore(
+  configService: ConfigService,
+  embeddingsService: EmbeddingsService,
+): Promise<VectorStore> {
+  const store = configService.get<string>('VECTOR_STORE', 'milvus');
+  const collectionName = configService.get<string>(
+    'COLLECTION_NAME',
+    'context_chunks',
+  );
+
+  let vectorStore: VectorStore;
+  switch (store) {
+    case 'milvus':
+      vectorStore = new MilvusVectorStore(
+        collectionName,
+        configService,
+        embeddingsService,
+      );
+      break;
+    case 'memory': {
+      const directory = configService.get<string>('VECTOR_STORE_PATH');
+      vectorStore = new InMemoryVectorStore(
+        collectionName,
+        embeddingsService,
+        configService.get<VectorMetric>('VECTOR_STORE_METRIC', 'ip'),
+        directory && path.join(directory, `${collectionName}.json`),
+      );
+      break;
+    }
+    default:
+      throw new Error(`Unknown VECTOR_STORE "${store}"`);
+  }
+
+  await vectorStore.init();
+  return vectorStore;
+}
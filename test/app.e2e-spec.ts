@@ -3,6 +3,23 @@ import { INestApplication } from '@nestjs/common';
 import * as request from 'supertest';
 import { AppModule } from '../src/app.module';
 
+// Runs the whole application in process, without Milvus, Ollama or files
+Object.assign(process.env, {
+  VECTOR_STORE: 'memory',
+  EMBEDDING_PROVIDER: 'hash',
+  EMBEDDING_CACHE: 'none',
+  LLM_PROVIDER: 'mock',
+  DOCUMENT_STORE: 'memory',
+  KEYWORD_INDEX: 'memory',
+  CONVERSATION_STORE: 'memory',
+  KNOWLEDGE_BASE_STORE: 'memory',
+  API_KEY_STORE: 'memory',
+  AUDIT_LOG: 'memory',
+  AUTH_ADMIN_KEY: 'e2e-admin-key',
+});
+
+const ADMIN_KEY = 'e2e-admin-key';
+
 describe('AppController (e2e)', () => {
   let app: INestApplication;
 
@@ -15,10 +32,163 @@ describe('AppController (e2e)', () => {
     await app.init();
   });
 
+  afterEach(async () => {
+    await app.close();
+  });
+
   it('/ (GET)', () => {
     return request(app.getHttpServer())
       .get('/')
       .expect(200)
       .expect('Hello World!');
   });
+
+  it('/retrieve (POST) finds about_me.txt in the in-memory store', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/retrieve')
+      .set('X-API-Key', ADMIN_KEY)
+      .send({ question: 'What does Sam work on?', mode: 'vector' })
+      .expect(201);
+
+    expect(response.body.results.length).toBeGreaterThan(0);
+    expect(response.body.results[0].metadata).toMatchObject({
+      sourceType: 'text',
+      filename: 'about_me.txt',
+    });
+  });
+
+  it('/search (POST) pages through ranked chunks with highlights', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/search')
+      .set('X-API-Key', ADMIN_KEY)
+      .send({ query: 'hiking and photography', mode: 'keyword', pageSize: 1 })
+      .expect(201);
+
+    expect(response.body).toMatchObject({ mode: 'keyword', page: 1 });
+    expect(response.body.results).toHaveLength(1);
+    expect(response.body.results[0].matchedTerms).toEqual(
+      expect.arrayContaining(['hiking', 'photography']),
+    );
+  });
+
+  it('requires an API key with a sufficient role', async () => {
+    const server = app.getHttpServer();
+    await request(server).get('/pdf/documents').expect(401);
+    await request(server)
+      .get('/pdf/documents')
+      .set('X-API-Key', 'not-a-key')
+      .expect(401);
+
+    const created = await request(server)
+      .post('/auth/keys')
+      .set('X-API-Key', ADMIN_KEY)
+      .send({ name: 'UI', role: 'reader' })
+      .expect(201);
+    const readerKey = created.body.key;
+
+    await request(server)
+      .get('/pdf/documents')
+      .set('Authorization', `Bearer ${readerKey}`)
+      .expect(200);
+    await request(server)
+      .delete('/pdf/documents/doc_missing')
+      .set('X-API-Key', readerKey)
+      .expect(403);
+    await request(server)
+      .post('/auth/keys')
+      .set('X-API-Key', readerKey)
+      .send({ name: 'escalation', role: 'admin' })
+      .expect(403);
+
+    await request(server)
+      .delete(`/auth/keys/${created.body.id}`)
+      .set('X-API-Key', ADMIN_KEY)
+      .expect(200);
+    await request(server)
+      .get('/pdf/documents')
+      .set('X-API-Key', readerKey)
+      .expect(401);
+
+    const audit = await request(server)
+      .get('/auth/audit')
+      .set('X-API-Key', ADMIN_KEY)
+      .expect(200);
+    expect(audit.body.entries.map((entry) => entry.action)).toEqual([
+      'api-key.revoke',
+      'api-key.create',
+    ]);
+  });
+
+  it("keeps restricted documents out of other callers' results", async () => {
+    const server = app.getHttpServer();
+    const createKey = async (role: string, groups: string[] = []) => {
+      const created = await request(server)
+        .post('/auth/keys')
+        .set('X-API-Key', ADMIN_KEY)
+        .send({ name: role, role, groups })
+        .expect(201);
+      return created.body.key;
+    };
+    const uploaderKey = await createKey('uploader');
+    const memberKey = await createKey('reader', ['finance']);
+    const outsiderKey = await createKey('reader');
+
+    const upload = await request(server)
+      .post('/documents/upload')
+      .set('X-API-Key', uploaderKey)
+      .field('groups', 'finance')
+      .attach(
+        'file',
+        Buffer.from('# Budget\n\nThe quarterly budget for zeppelins is 42.\n'),
+        'budget.md',
+      )
+      .expect(202);
+    let job = upload.body.job;
+    while (!['done', 'failed', 'cancelled'].includes(job.state)) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      job = (
+        await request(server)
+          .get(`/pdf/jobs/${job.id}`)
+          .set('X-API-Key', uploaderKey)
+          .expect(200)
+      ).body;
+    }
+    expect(job.state).toBe('done');
+    const documentId = job.documentId;
+
+    const retrieve = (key: string) =>
+      request(server)
+        .post('/retrieve')
+        .set('X-API-Key', key)
+        .send({ question: 'zeppelins budget', mode: 'keyword' })
+        .expect(201)
+        .then((response) =>
+          response.body.results.map((result) => result.metadata.documentId),
+        );
+    expect(await retrieve(memberKey)).toContain(documentId);
+    expect(await retrieve(outsiderKey)).not.toContain(documentId);
+
+    await request(server)
+      .get(`/pdf/documents/${documentId}`)
+      .set('X-API-Key', outsiderKey)
+      .expect(404);
+    const stats = (key: string) =>
+      request(server)
+        .get('/pdf/stats')
+        .set('X-API-Key', key)
+        .expect(200)
+        .then((response) => response.body.totalDocuments);
+    expect(await stats(memberKey)).toBe((await stats(outsiderKey)) + 1);
+    await request(server)
+      .patch(`/pdf/documents/${documentId}/access`)
+      .set('X-API-Key', memberKey)
+      .send({ visibility: 'public' })
+      .expect(403);
+    await request(server)
+      .patch(`/pdf/documents/${documentId}/access`)
+      .set('X-API-Key', uploaderKey)
+      .send({ visibility: 'public' })
+      .expect(200);
+    expect(await retrieve(outsiderKey)).toContain(documentId);
+  });
 });
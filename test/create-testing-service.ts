@@ -0,0 +1,23 @@
+import { Provider, Type } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+
+/**
+ * Compiles a testing module around a single service, with a ConfigService
+ * built from the given values, and returns the service instance.
+ */
+export async function createTestingService<T>(
+  service: Type<T>,
+  config: Record<string, string> = {},
+  providers: Provider[] = [],
+): Promise<T> {
+  const moduleRef = await Test.createTestingModule({
+    providers: [
+      service,
+      { provide: ConfigService, useValue: new ConfigService(config) },
+      ...providers,
+    ],
+  }).compile();
+
+  return moduleRef.get(service);
+}